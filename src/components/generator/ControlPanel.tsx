@@ -15,6 +15,7 @@ interface ControlPanelProps {
   updateGradientStop: (index: number, updates: Partial<GradientStop>) => void;
   resetState: () => void;
   loadState: (state: SuperellipseState) => void;
+  onPreviewState?: (state: SuperellipseState | null) => void;
   randomizeGlow?: () => void;
   pathData: string;
   theme: 'light' | 'dark';
@@ -97,6 +98,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   updateGradientStop,
   resetState,
   loadState,
+  onPreviewState,
   randomizeGlow,
   pathData,
   theme,
@@ -194,6 +196,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               state={state} 
               updateState={updateState} 
               updateGradientStop={updateGradientStop} 
+              theme={theme}
             />
           )}
           {activeCategory === 'glow' && (
@@ -209,10 +212,10 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <EffectsTab state={state} updateState={updateState} />
           )}
           {activeCategory === 'presets' && (
-            <PresetsTab currentState={state} onLoadPreset={loadState} />
+            <PresetsTab currentState={state} onLoadPreset={loadState} onPreviewState={onPreviewState} />
           )}
           {activeCategory === 'css' && (
-            <CssTab state={state} theme={theme} />
+            <CssTab state={state} pathData={pathData} theme={theme} />
           )}
           {activeCategory === 'export' && (
             <ExportTab state={state} pathData={pathData} />
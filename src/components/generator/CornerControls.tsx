@@ -1,52 +1,75 @@
 import React, { memo, useCallback } from 'react';
 import { Link, Unlink } from 'lucide-react';
 import { CornerExponents } from '../../hooks/useSuperellipse';
+import { CornerBlendCurve, CornerRadii } from '../../utils/math';
 
 interface CornerControlsProps {
   useAsymmetric: boolean;
   uniformExp: number;
   cornerExponents: CornerExponents;
+  smoothing: number;
+  cornerBlend: CornerBlendCurve;
+  useCornerRadii: boolean;
+  cornerRadii: CornerRadii;
+  maxCornerRadius: number;
   onToggleAsymmetric: (value: boolean) => void;
   onUniformChange: (value: number) => void;
   onCornerChange: (corner: keyof CornerExponents, value: number) => void;
+  onSmoothingChange: (value: number) => void;
+  onCornerBlendChange: (value: CornerBlendCurve) => void;
+  onToggleCornerRadii: (value: boolean) => void;
+  onCornerRadiusChange: (corner: keyof CornerRadii, value: number) => void;
 }
 
 const MIN_EXP = 0.5;
 const MAX_EXP = 10;
 
+const BLEND_CURVES: { value: CornerBlendCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'smoothstep', label: 'Smooth' },
+  { value: 'cosine', label: 'Cosine' },
+];
+
 const CornerSlider = memo<{
   label: string;
   value: number;
   onChange: (value: number) => void;
   position: 'tl' | 'tr' | 'bl' | 'br';
-}>(({ label, value, onChange, position }) => {
-  const percentage = ((value - MIN_EXP) / (MAX_EXP - MIN_EXP)) * 100;
+  kind?: 'exponent' | 'radius';
+  max?: number;
+}>(({ label, value, onChange, position, kind = 'exponent', max }) => {
+  const isRadius = kind === 'radius';
+  const min = isRadius ? 0 : MIN_EXP;
+  const upper = max ?? MAX_EXP;
+  const step = isRadius ? 1 : 0.1;
+  const displayValue = isRadius ? `${Math.round(value)}px` : value.toFixed(1);
+  const percentage = upper > min ? ((Math.min(value, upper) - min) / (upper - min)) * 100 : 0;
   const sliderId = React.useId();
   
   return (
     <div className="flex flex-col gap-1">
       <div className="flex items-center justify-between">
         <label htmlFor={sliderId} className="text-[10px] font-medium text-zinc-500">{label}</label>
-        <span className="text-[10px] font-mono text-zinc-400" aria-live="polite">{value.toFixed(1)}</span>
+        <span className="text-[10px] font-mono text-zinc-400" aria-live="polite">{displayValue}</span>
       </div>
       <div className="relative">
         <input
           id={sliderId}
           type="range"
-          min={MIN_EXP}
-          max={MAX_EXP}
-          step={0.1}
-          value={value}
+          min={min}
+          max={upper}
+          step={step}
+          value={Math.min(value, upper)}
           onChange={(e) => onChange(parseFloat(e.target.value))}
           className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
           style={{
             background: `linear-gradient(to right, rgb(99 102 241) 0%, rgb(99 102 241) ${percentage}%, rgb(228 228 231) ${percentage}%, rgb(228 228 231) 100%)`,
           }}
-          aria-label={`${label} corner exponent`}
-          aria-valuemin={MIN_EXP}
-          aria-valuemax={MAX_EXP}
+          aria-label={`${label} corner ${isRadius ? 'size' : 'exponent'}`}
+          aria-valuemin={min}
+          aria-valuemax={upper}
           aria-valuenow={value}
-          aria-valuetext={value.toFixed(1)}
+          aria-valuetext={displayValue}
         />
       </div>
     </div>
@@ -59,10 +82,22 @@ export const CornerControls = memo<CornerControlsProps>(({
   useAsymmetric,
   uniformExp,
   cornerExponents,
+  smoothing,
+  cornerBlend,
+  useCornerRadii,
+  cornerRadii,
+  maxCornerRadius,
   onToggleAsymmetric,
   onUniformChange,
   onCornerChange,
+  onSmoothingChange,
+  onCornerBlendChange,
+  onToggleCornerRadii,
+  onCornerRadiusChange,
 }) => {
+  const smoothingId = React.useId();
+  const smoothingPercentage = smoothing * 100;
+
   const handleApplyToAll = useCallback(() => {
     onCornerChange('topLeft', uniformExp);
     onCornerChange('topRight', uniformExp);
@@ -132,6 +167,122 @@ export const CornerControls = memo<CornerControlsProps>(({
             />
           </div>
 
+          {/* Per-corner size */}
+          <div className="space-y-3 p-3 bg-zinc-50 dark:bg-zinc-900/30 rounded-lg border border-zinc-100 dark:border-zinc-800">
+            <div className="flex items-center justify-between">
+              <div className="flex-1">
+                <p className="text-[10px] font-semibold text-zinc-700 dark:text-zinc-300">Corner Size</p>
+                <p className="text-[10px] text-zinc-500">Independent radius per corner, straight edges between</p>
+              </div>
+              <button
+                onClick={() => onToggleCornerRadii(!useCornerRadii)}
+                role="switch"
+                aria-checked={useCornerRadii}
+                aria-label="Toggle per-corner size"
+                className={`relative w-10 h-6 rounded-full transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+                  useCornerRadii ? 'bg-indigo-500' : 'bg-zinc-200 dark:bg-zinc-700'
+                }`}
+              >
+                <span
+                  className="block w-4 h-4 rounded-full bg-white shadow-sm transition-transform duration-200"
+                  style={{
+                    transform: useCornerRadii ? 'translateX(1.25rem)' : 'translateX(0.125rem)',
+                    margin: '0.25rem',
+                  }}
+                  aria-hidden="true"
+                />
+              </button>
+            </div>
+
+            {useCornerRadii && (
+              <div className="grid grid-cols-2 gap-3">
+                <CornerSlider
+                  label="Top Left"
+                  value={cornerRadii.topLeft}
+                  onChange={(val) => onCornerRadiusChange('topLeft', val)}
+                  position="tl"
+                  kind="radius"
+                  max={maxCornerRadius}
+                />
+                <CornerSlider
+                  label="Top Right"
+                  value={cornerRadii.topRight}
+                  onChange={(val) => onCornerRadiusChange('topRight', val)}
+                  position="tr"
+                  kind="radius"
+                  max={maxCornerRadius}
+                />
+                <CornerSlider
+                  label="Bottom Left"
+                  value={cornerRadii.bottomLeft}
+                  onChange={(val) => onCornerRadiusChange('bottomLeft', val)}
+                  position="bl"
+                  kind="radius"
+                  max={maxCornerRadius}
+                />
+                <CornerSlider
+                  label="Bottom Right"
+                  value={cornerRadii.bottomRight}
+                  onChange={(val) => onCornerRadiusChange('bottomRight', val)}
+                  position="br"
+                  kind="radius"
+                  max={maxCornerRadius}
+                />
+              </div>
+            )}
+            {useCornerRadii && (
+              <p className="text-[10px] text-zinc-500 leading-relaxed">
+                Sizes that overlap along an edge are scaled down together, like CSS border-radius.
+              </p>
+            )}
+          </div>
+
+          {/* Blend between neighbouring corners (not used with per-corner size) */}
+          {!useCornerRadii && (
+            <div className="space-y-2 p-3 bg-zinc-50 dark:bg-zinc-900/30 rounded-lg border border-zinc-100 dark:border-zinc-800">
+              <div className="flex items-center justify-between">
+                <label htmlFor={smoothingId} className="text-[10px] font-medium text-zinc-500">Corner Blend</label>
+                <span className="text-[10px] font-mono text-zinc-400" aria-live="polite">{Math.round(smoothingPercentage)}%</span>
+              </div>
+              <input
+                id={smoothingId}
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={smoothing}
+                onChange={(e) => onSmoothingChange(parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                style={{
+                  background: `linear-gradient(to right, rgb(99 102 241) 0%, rgb(99 102 241) ${smoothingPercentage}%, rgb(228 228 231) ${smoothingPercentage}%, rgb(228 228 231) 100%)`,
+                }}
+                aria-valuemin={0}
+                aria-valuemax={1}
+                aria-valuenow={smoothing}
+                aria-valuetext={`${Math.round(smoothingPercentage)} percent`}
+              />
+              <div className="grid grid-cols-3 gap-2" role="group" aria-label="Corner blend curve">
+                {BLEND_CURVES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => onCornerBlendChange(value)}
+                    className={`px-2 py-1.5 text-[10px] font-medium rounded-lg transition-colors ${
+                      cornerBlend === value
+                        ? 'bg-indigo-500 text-white shadow-sm'
+                        : 'bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                    }`}
+                    aria-pressed={cornerBlend === value}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-zinc-500 leading-relaxed">
+                Width of the transition between neighbouring corners. 0% switches exponents sharply at the edges.
+              </p>
+            </div>
+          )}
+
           {/* Quick actions */}
           <div className="flex gap-2">
             <button
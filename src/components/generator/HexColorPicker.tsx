@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { hexToOklch, oklchToHex } from '@/utils/oklch';
 
 interface HexColorPickerProps {
   hue: number;
@@ -7,57 +8,21 @@ interface HexColorPickerProps {
   onColorChange: (hue: number, chroma: number, lightness: number) => void;
 }
 
-// Convert OKLCH to approximate Hex (simplified conversion)
-function oklchToHex(h: number, c: number, l: number): string {
-  // Simplified OKLCH to HSL approximation
-  const hsl_h = h;
-  const hsl_s = Math.min(100, c * 300);
-  const hsl_l = l;
-  
-  return hslToHex(hsl_h, hsl_s, hsl_l);
-}
+// Precision the sliders keep; fine enough that a typed hex survives the round trip
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
 
-function hslToHex(h: number, s: number, l: number): string {
-  s /= 100;
-  l /= 100;
-  const a = s * Math.min(l, 1 - l);
-  const f = (n: number) => {
-    const k = (n + h / 30) % 12;
-    const color = l - a * Math.max(Math.min(k - 3, 9 - k, 1), -1);
-    return Math.round(255 * color).toString(16).padStart(2, '0');
-  };
-  return `#${f(0)}${f(8)}${f(4)}`.toUpperCase();
+function toHex(hue: number, chroma: number, lightness: number): string {
+  return oklchToHex({ l: lightness / 100, c: chroma, h: hue }).toUpperCase();
 }
 
-// Convert Hex to OKLCH approximation
-function hexToOklch(hex: string): { h: number; c: number; l: number } {
-  const r = parseInt(hex.slice(1, 3), 16) / 255;
-  const g = parseInt(hex.slice(3, 5), 16) / 255;
-  const b = parseInt(hex.slice(5, 7), 16) / 255;
-  
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const l = (max + min) / 2;
-  
-  let h = 0;
-  let s = 0;
-  
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-    
-    switch (max) {
-      case r: h = ((g - b) / d + (g < b ? 6 : 0)) * 60; break;
-      case g: h = ((b - r) / d + 2) * 60; break;
-      case b: h = ((r - g) / d + 4) * 60; break;
-    }
-  }
-  
-  // Convert HSL to OKLCH approximation
+function fromHex(hex: string, currentHue: number): { h: number; c: number; l: number } {
+  const { l, c, h } = hexToOklch(hex);
+  const chroma = round(c, 4);
   return {
-    h: Math.round(h),
-    c: Math.round(s * 0.4 * 100) / 100,
-    l: Math.round(l * 100)
+    // Greys have no hue; keep the current one so raising chroma picks up where it was
+    h: chroma === 0 ? currentHue : round(h, 2),
+    c: chroma,
+    l: round(l * 100, 2),
   };
 }
 
@@ -67,11 +32,11 @@ export const HexColorPicker: React.FC<HexColorPickerProps> = ({
   lightness,
   onColorChange,
 }) => {
-  const [hexValue, setHexValue] = useState(() => oklchToHex(hue, chroma, lightness));
+  const [hexValue, setHexValue] = useState(() => toHex(hue, chroma, lightness));
   
   // Update hex when OKLCH values change externally
   useEffect(() => {
-    setHexValue(oklchToHex(hue, chroma, lightness));
+    setHexValue(toHex(hue, chroma, lightness));
   }, [hue, chroma, lightness]);
 
   const handleHexInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -80,7 +45,7 @@ export const HexColorPicker: React.FC<HexColorPickerProps> = ({
     
     // Validate and convert
     if (/^#[0-9A-Fa-f]{6}$/.test(value)) {
-      const { h, c, l } = hexToOklch(value);
+      const { h, c, l } = fromHex(value, hue);
       onColorChange(h, c, l);
     }
   };
@@ -88,7 +53,7 @@ export const HexColorPicker: React.FC<HexColorPickerProps> = ({
   const handleColorPicker = (e: React.ChangeEvent<HTMLInputElement>) => {
     const hex = e.target.value.toUpperCase();
     setHexValue(hex);
-    const { h, c, l } = hexToOklch(hex);
+    const { h, c, l } = fromHex(hex, hue);
     onColorChange(h, c, l);
   };
 
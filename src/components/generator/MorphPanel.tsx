@@ -0,0 +1,181 @@
+import { useState, useRef, useEffect, useCallback, type FC } from 'react';
+import { Play, Square, Copy, Check } from 'lucide-react';
+import { SuperellipseState } from '../../hooks/useSuperellipse';
+import { usePresets } from '../../hooks/usePresets';
+import { interpolateState, generateMorphCSS, generateMorphSVG } from '../../utils/math';
+import { CustomSlider } from './CustomSlider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MorphPanelProps {
+  currentState: SuperellipseState;
+  // Preview-only state for each frame; null hands the preview back to the design
+  onFrame: (state: SuperellipseState | null) => void;
+}
+
+const CURRENT_ID = 'current';
+
+// Smoothstep, close to the `ease-in-out` timing used by the CSS export
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const MorphPanel: FC<MorphPanelProps> = ({ currentState, onFrame }) => {
+  const { presets } = usePresets();
+  const [fromId, setFromId] = useState(CURRENT_ID);
+  // Until one is picked, morph towards the first preset once they load
+  const [pickedToId, setToId] = useState<string | null>(null);
+  const toId = pickedToId ?? presets[0]?.id ?? CURRENT_ID;
+  const [duration, setDuration] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [copied, setCopied] = useState<'css' | 'svg' | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const resolveState = useCallback((id: string) => (
+    presets.find(p => p.id === id)?.state ?? currentState
+  ), [presets, currentState]);
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    setIsPlaying(false);
+    onFrame(null);
+  }, [onFrame]);
+
+  // Cancel a running morph and restore the preview when the panel unmounts
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  useEffect(() => () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      onFrameRef.current(null);
+    }
+  }, []);
+
+  const handlePlay = useCallback(() => {
+    if (isPlaying) {
+      stop();
+      return;
+    }
+
+    // Frames only drive the preview, so the design itself stays untouched
+    const from = resolveState(fromId);
+    const to = resolveState(toId);
+    const startTime = performance.now();
+    setIsPlaying(true);
+
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startTime) / (duration * 1000));
+      onFrame(interpolateState(from, to, easeInOut(progress)));
+      if (progress < 1) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        stop();
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [isPlaying, stop, resolveState, fromId, toId, duration, onFrame]);
+
+  const handleCopy = useCallback(async (format: 'css' | 'svg') => {
+    const from = resolveState(fromId);
+    const to = resolveState(toId);
+    const code = format === 'css'
+      ? generateMorphCSS(from, to, { duration })
+      : generateMorphSVG(from, to, { duration });
+
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(format);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy morph:', error);
+    }
+  }, [resolveState, fromId, toId, duration]);
+
+  const selectClassName = "w-full px-2 py-1.5 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-md text-xs text-zinc-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+  const renderOptions = () => (
+    <>
+      <option value={CURRENT_ID}>Current</option>
+      {presets.map(preset => (
+        <option key={preset.id} value={preset.id}>{preset.name}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-3 p-3 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg">
+      <div>
+        <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300">Morph</p>
+        <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+          Animate shape, size and colors between two states
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="text-[10px] text-zinc-500 dark:text-zinc-400 px-1">From</span>
+          <select
+            value={fromId}
+            onChange={(e) => setFromId(e.target.value)}
+            className={selectClassName}
+            disabled={isPlaying}
+          >
+            {renderOptions()}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[10px] text-zinc-500 dark:text-zinc-400 px-1">To</span>
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className={selectClassName}
+            disabled={isPlaying}
+          >
+            {renderOptions()}
+          </select>
+        </label>
+      </div>
+
+      <CustomSlider
+        label="Duration"
+        value={duration}
+        min={0.2}
+        max={5}
+        step={0.1}
+        onChange={setDuration}
+        unit="s"
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={handlePlay}
+          className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-md bg-indigo-500 text-white text-xs font-medium hover:bg-indigo-600 transition-colors"
+          aria-label={isPlaying ? 'Stop morph preview' : 'Play morph preview'}
+        >
+          {isPlaying ? <Square className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          {isPlaying ? 'Stop' : 'Play'}
+        </button>
+        {(['css', 'svg'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleCopy(format)}
+            className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+            aria-label={`Copy morph as ${format.toUpperCase()}`}
+          >
+            {copied === format
+              ? <Check className="w-3.5 h-3.5 text-green-500" />
+              : <Copy className="w-3.5 h-3.5" />}
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { memo, useMemo } from 'react';
 import { CornerExponents } from '../../hooks/useSuperellipse';
+import { CornerRadii, fitCornerRadii } from '../../utils/math';
 
 interface PathPreviewProps {
   width: number;
@@ -7,7 +8,9 @@ interface PathPreviewProps {
   exp: number;
   useAsymmetric: boolean;
   cornerExponents: CornerExponents;
+  cornerRadii?: CornerRadii; // Set when each corner has its own size
   pathData: string;
+  showCornerPoints?: boolean; // Markers only make sense for exponent-driven outlines
 }
 
 // Show key control points on the path
@@ -16,25 +19,34 @@ const getControlPoints = (
   height: number,
   exp: number,
   useAsymmetric: boolean,
-  corners: CornerExponents
+  corners: CornerExponents,
+  radii?: CornerRadii
 ): { x: number; y: number; label: string; exp: number }[] => {
   const a = width / 2;
   const b = height / 2;
+  const fitted = radii ? fitCornerRadii(width, height, radii) : null;
   
+  // Corners sit on the diagonals; SVG y grows downwards, so t = π/4 is bottom-right
   const points = [
-    { angle: 0, label: 'TR', cornerExp: corners.topRight },
-    { angle: Math.PI / 2, label: 'TL', cornerExp: corners.topLeft },
-    { angle: Math.PI, label: 'BL', cornerExp: corners.bottomLeft },
-    { angle: (3 * Math.PI) / 2, label: 'BR', cornerExp: corners.bottomRight },
+    { angle: Math.PI / 4, label: 'BR', cornerExp: corners.bottomRight, r: fitted?.bottomRight },
+    { angle: (3 * Math.PI) / 4, label: 'BL', cornerExp: corners.bottomLeft, r: fitted?.bottomLeft },
+    { angle: (5 * Math.PI) / 4, label: 'TL', cornerExp: corners.topLeft, r: fitted?.topLeft },
+    { angle: (7 * Math.PI) / 4, label: 'TR', cornerExp: corners.topRight, r: fitted?.topRight },
   ];
   
-  return points.map(({ angle, label, cornerExp }) => {
+  return points.map(({ angle, label, cornerExp, r }) => {
     const n = useAsymmetric ? cornerExp : exp;
     const cosT = Math.cos(angle);
     const sinT = Math.sin(angle);
     
-    const x = a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n) + a;
-    const y = b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n) + b;
+    // Per-corner sizes: a quarter curve of radius r anchored in its own corner
+    const rx = r ?? a;
+    const ry = r ?? b;
+    const cx = r === undefined ? a : cosT > 0 ? width - r : r;
+    const cy = r === undefined ? b : sinT > 0 ? height - r : r;
+    
+    const x = rx * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n) + cx;
+    const y = ry * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n) + cy;
     
     return { x, y, label, exp: n };
   });
@@ -46,7 +58,9 @@ export const PathPreview = memo<PathPreviewProps>(({
   exp,
   useAsymmetric,
   cornerExponents,
+  cornerRadii,
   pathData,
+  showCornerPoints = true,
 }) => {
   // Scale to fit in preview box (max 140px)
   const maxDim = Math.max(width, height);
@@ -55,8 +69,8 @@ export const PathPreview = memo<PathPreviewProps>(({
   const scaledHeight = height * scale;
   
   const controlPoints = useMemo(
-    () => getControlPoints(width, height, exp, useAsymmetric, cornerExponents),
-    [width, height, exp, useAsymmetric, cornerExponents]
+    () => getControlPoints(width, height, exp, useAsymmetric, cornerExponents, cornerRadii),
+    [width, height, exp, useAsymmetric, cornerExponents, cornerRadii]
   );
   
   return (
@@ -130,7 +144,10 @@ export const PathPreview = memo<PathPreviewProps>(({
           />
           
           {/* Corner control points */}
-          {controlPoints.map((point, index) => (
+          {showCornerPoints && controlPoints.map((point) => {
+            const isRight = point.x >= width / 2;
+            const isBottom = point.y >= height / 2;
+            return (
             <g key={point.label}>
               {/* Point marker */}
               <circle
@@ -149,26 +166,29 @@ export const PathPreview = memo<PathPreviewProps>(({
               
               {/* Label */}
               <text
-                x={point.x + (index === 0 || index === 3 ? 8 : -8)}
-                y={point.y + (index < 2 ? -8 : 12)}
+                x={point.x + (isRight ? 8 : -8)}
+                y={point.y + (isBottom ? 12 : -8)}
                 fontSize="8"
                 fill="currentColor"
                 className="text-zinc-500 font-mono"
-                textAnchor={index === 0 || index === 3 ? 'start' : 'end'}
+                textAnchor={isRight ? 'start' : 'end'}
               >
                 {point.label}: n={point.exp.toFixed(1)}
               </text>
             </g>
-          ))}
+            );
+          })}
         </svg>
       </div>
       
       {/* Legend */}
       <div className="flex items-center justify-center gap-4 mt-2 text-[9px] text-zinc-500">
-        <div className="flex items-center gap-1">
-          <div className="w-2 h-2 rounded-full bg-indigo-500" />
-          <span>Corner points</span>
-        </div>
+        {showCornerPoints && (
+          <div className="flex items-center gap-1">
+            <div className="w-2 h-2 rounded-full bg-indigo-500" />
+            <span>Corner points</span>
+          </div>
+        )}
         <div className="flex items-center gap-1">
           <div className="w-4 h-0.5 bg-indigo-500" />
           <span>Path outline</span>
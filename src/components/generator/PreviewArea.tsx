@@ -1,6 +1,15 @@
-import { useState, useCallback, useMemo, memo, type FC } from 'react';
+import { useState, useCallback, useMemo, memo, type FC, type PointerEvent } from 'react';
 import { SuperellipseState } from '../../hooks/useSuperellipse';
 import { SpotlightButton } from './SpotlightButton';
+import {
+  isPointInside,
+  getStateShapeParams,
+  getGradientBackground,
+  PREVIEW_GLOW_LAYERS,
+  PREVIEW_GLOW_CONTAINER,
+  getPreviewGlowColors,
+} from '../../utils/math';
+import { formatOklch } from '../../utils/oklch';
 
 interface PreviewAreaProps {
   state: SuperellipseState;
@@ -12,12 +21,7 @@ interface PreviewAreaProps {
 // Constants
 const NOISE_SVG = "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='200' height='200'><filter id='n'><feTurbulence type='fractalNoise' baseFrequency='0.8' numOctaves='4' /></filter><rect width='100%' height='100%' filter='url(%23n)' /></svg>";
 
-const GLOW_LAYERS = [
-  { top: 400, left: 300, width: 1800, height: 1140, blur: 180, opacity: 0.4, colorIndex: 0 },
-  { top: 600, left: 460, width: 1300, height: 1300, blur: 120, opacity: 0.6, colorIndex: 1 },
-  { top: 700, left: 560, width: 1000, height: 800, blur: 60, opacity: 1, colorIndex: 2 },
-  { top: 800, left: 700, width: 600, height: 440, blur: 80, opacity: 0.4, colorIndex: -1 }, // White highlight
-] as const;
+const GLOW_MASK = `linear-gradient(black ${PREVIEW_GLOW_CONTAINER.maskStart * 100}%, transparent 100%)`;
 
 const ANIMATION_TIMINGS = {
   FADE_OUT: 400,
@@ -27,7 +31,7 @@ const ANIMATION_TIMINGS = {
 
 // Memoized Glow Layer Component
 const GlowLayer = memo<{
-  layer: typeof GLOW_LAYERS[number];
+  layer: typeof PREVIEW_GLOW_LAYERS[number];
   color: string;
   customBlur?: number;
   customOpacity?: number;
@@ -69,26 +73,48 @@ export const PreviewArea: FC<PreviewAreaProps> = ({
   onSpotlightTrigger 
 }) => {
   const [glowOpacity, setGlowOpacity] = useState(1);
+  const [isPointerInside, setIsPointerInside] = useState(false);
+
+  // Hit-testing shape. Models without an analytic outline rely on the frame's
+  // clip-path instead: browsers only dispatch pointer events inside it.
+  const hitShape = useMemo(() => getStateShapeParams({
+    width: state.width,
+    height: state.height,
+    exp: state.exp,
+    useAsymmetricCorners: state.useAsymmetricCorners,
+    cornerExponents: state.cornerExponents,
+    smoothing: state.smoothing,
+    cornerBlend: state.cornerBlend,
+    useCornerRadii: state.useCornerRadii,
+    shapeModel: state.shapeModel,
+  }), [
+    state.shapeModel,
+    state.width,
+    state.height,
+    state.exp,
+    state.useAsymmetricCorners,
+    state.useCornerRadii,
+    state.cornerExponents,
+    state.smoothing,
+    state.cornerBlend,
+  ]);
   
   // Memoize OKLCH colors to prevent recalculation
-  const glowColors = useMemo(() => {
-    const color1 = `oklch(${state.lightness}% ${state.chroma} ${state.hue})`;
-    const color2 = `oklch(${Math.min(state.lightness + 10, 100)}% ${state.chroma} ${state.hue})`;
-    const color3 = `oklch(${Math.min(state.lightness + 15, 100)}% ${Math.max(state.chroma - 0.05, 0)} ${state.hue})`;
-    const colorWhite = 'rgb(255, 255, 255)';
-    
-    return [color1, color2, color3, colorWhite];
-  }, [state.lightness, state.chroma, state.hue]);
+  const glowColors = useMemo(
+    () => getPreviewGlowColors({ lightness: state.lightness, chroma: state.chroma, hue: state.hue }).map(formatOklch),
+    [state.lightness, state.chroma, state.hue]
+  );
 
   // Memoize glow container styles
   const glowContainerStyle = useMemo(() => ({
-    maskImage: 'linear-gradient(black 30%, transparent 100%)',
-    WebkitMaskImage: 'linear-gradient(black 30%, transparent 100%)',
+    maskImage: GLOW_MASK,
+    WebkitMaskImage: GLOW_MASK,
     left: `${state.glowPositionX}px`,
     top: `${state.glowPositionY}px`,
     opacity: (state.enabled ? glowOpacity : 0) * (state.glowOpacity / 100),
     transform: `scale(${state.glowScale})`,
-  }), [state.enabled, state.glowScale, state.glowPositionX, state.glowPositionY, state.glowOpacity, glowOpacity]);
+    filter: isPointerInside ? 'brightness(1.15)' : undefined,
+  }), [state.enabled, state.glowScale, state.glowPositionX, state.glowPositionY, state.glowOpacity, glowOpacity, isPointerInside]);
 
   // Memoize noise overlay styles
   const noiseStyle = useMemo(() => ({
@@ -97,6 +123,19 @@ export const PreviewArea: FC<PreviewAreaProps> = ({
     opacity: state.noiseIntensity / 100,
   }), [state.noiseIntensity]);
 
+  // Track the pointer against the real outline rather than the bounding box.
+  // Also runs on pointerdown: touch has no pointermove before a tap.
+  const handlePointerMove = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * (state.width / rect.width);
+    const y = (event.clientY - rect.top) * (state.height / rect.height);
+    setIsPointerInside(hitShape ? isPointInside(x, y, hitShape) : true);
+  }, [hitShape, state.width, state.height]);
+
+  const handlePointerLeave = useCallback(() => {
+    setIsPointerInside(false);
+  }, []);
+
   // Optimized spotlight trigger with cleanup
   const handleSpotlightTrigger = useCallback(() => {
     setGlowOpacity(0);
@@ -131,19 +170,18 @@ export const PreviewArea: FC<PreviewAreaProps> = ({
         className="sm:w-[320px] sm:h-[480px] overflow-hidden transition-all duration-500 dark:bg-[#050505] dark:border-zinc-900 z-10 bg-background w-[300px] h-[400px] border-border border-4 rounded-[40px] relative shadow-2xl"
         role="presentation"
         aria-label="Mobile preview frame"
+        data-hover={isPointerInside || undefined}
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerMove}
+        onPointerLeave={handlePointerLeave}
+        onPointerCancel={handlePointerLeave}
         style={{
           width: `${state.width}px`,
           height: `${state.height}px`,
           clipPath: `path('${pathData}')`,
           backgroundColor: state.colorMode === 'solid' ? state.solidColor : 'transparent',
           opacity: state.colorMode === 'solid' ? state.solidOpacity / 100 : 1,
-          background: state.colorMode === 'linear' 
-            ? `linear-gradient(${state.gradientAngle}deg, ${state.gradientStops.map(s => `${s.color} ${s.position}%`).join(', ')})`
-            : state.colorMode === 'radial'
-            ? `radial-gradient(circle, ${state.gradientStops.map(s => `${s.color} ${s.position}%`).join(', ')})`
-            : state.colorMode === 'conic'
-            ? `conic-gradient(from ${state.gradientAngle}deg, ${state.gradientStops.map(s => `${s.color} ${s.position}%`).join(', ')})`
-            : undefined,
+          background: state.colorMode !== 'solid' ? getGradientBackground(state) : undefined,
           filter: state.blur > 0 ? `blur(${state.blur}px)` : undefined,
           backdropFilter: state.backdropBlur > 0 ? `blur(${state.backdropBlur}px)` : undefined,
           WebkitBackdropFilter: state.backdropBlur > 0 ? `blur(${state.backdropBlur}px)` : undefined,
@@ -175,7 +213,7 @@ export const PreviewArea: FC<PreviewAreaProps> = ({
           style={glowContainerStyle}
           aria-hidden="true"
         >
-          {GLOW_LAYERS.map((layer, index) => (
+          {PREVIEW_GLOW_LAYERS.map((layer, index) => (
             <GlowLayer
               key={`glow-layer-${index}`}
               layer={layer}
@@ -1,14 +1,38 @@
 import type { FC } from 'react';
-import { Copy, Plus, Trash2, Check } from 'lucide-react';
-import { useState } from 'react';
+import { Copy, Plus, Trash2, Check, ImagePlus, Lock, LockOpen, Shuffle } from 'lucide-react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { SuperellipseState, GradientStop } from '../../../hooks/useSuperellipse';
 import { tailwindColors } from '../../../utils/colorPalette';
+import { getGradientBackground } from '../../../utils/math';
+import {
+  PaletteColor,
+  extractImagePalette,
+  paletteToGradientStops,
+  paletteColorToGlow,
+} from '../../../utils/paletteExtraction';
+import {
+  HARMONY_SCHEMES,
+  HarmonyScheme,
+  generateHarmony,
+  mergeLockedStops,
+} from '../../../utils/colorHarmony';
+import {
+  CONTRAST_TARGETS,
+  ContrastTarget,
+  TEXT_AREAS,
+  TextAreaPreset,
+  sampleTextBackground,
+  measureContrast,
+  suggestTextColor,
+} from '../../../utils/contrast';
+import { logError, toUserMessage } from '@/lib/errors';
 import { CustomSlider } from '../CustomSlider';
 
 interface ColorTabProps {
   state: SuperellipseState;
   updateState: (updates: Partial<SuperellipseState>) => void;
   updateGradientStop: (index: number, updates: Partial<GradientStop>) => void;
+  theme?: 'light' | 'dark';
 }
 
 // Helper function to validate hex color
@@ -127,7 +151,451 @@ const ColorInput: FC<ColorInputProps> = ({ value, onChange, label, size = 'md' }
   );
 };
 
-export const ColorTab: FC<ColorTabProps> = ({ state, updateState, updateGradientStop }) => {
+// HarmonyPalette: scheme-based gradient and glow around a base color
+interface HarmonyPaletteProps {
+  currentColor: string; // Selected fill color, followed as the base until one is picked here
+  updateState: (updates: Partial<SuperellipseState>) => void;
+  colorMode: SuperellipseState['colorMode'];
+}
+
+const HarmonyPalette: FC<HarmonyPaletteProps> = ({ currentColor, updateState, colorMode }) => {
+  // Imported configurations may hold colors that are not hex
+  const [base, setBase] = useState(() => (isValidHex(currentColor) ? currentColor : '#3B82F6'));
+  const [followCurrent, setFollowCurrent] = useState(true);
+  const [scheme, setScheme] = useState<HarmonyScheme>('complementary');
+  const [locked, setLocked] = useState<boolean[]>([]);
+  const [harmony, setHarmony] = useState(() => generateHarmony(base, 'complementary'));
+  // First stop of the last applied gradient, which becomes the current color
+  const appliedColorRef = useRef<string | null>(null);
+
+  // Locked stops keep their color through base, scheme and regenerate changes
+  const rebuild = (nextBase: string, nextScheme: HarmonyScheme, jitter = 0) => {
+    const next = generateHarmony(nextBase, nextScheme, { jitter });
+    setHarmony(prev => ({ ...next, stops: mergeLockedStops(prev.stops, next.stops, locked) }));
+  };
+
+  // Follow the selected color, unless a base was picked here or the change
+  // comes from applying this palette
+  useEffect(() => {
+    if (!followCurrent || currentColor === base || !isValidHex(currentColor)) return;
+    if (currentColor === appliedColorRef.current) return;
+    const next = generateHarmony(currentColor, scheme);
+    setBase(currentColor);
+    setHarmony(prev => ({ ...next, stops: mergeLockedStops(prev.stops, next.stops, locked) }));
+  }, [followCurrent, currentColor, base, scheme, locked]);
+
+  const toggleLock = (index: number) => {
+    setLocked(prev => {
+      const next = [...prev];
+      next[index] = !next[index];
+      return next;
+    });
+  };
+
+  const { glow } = harmony;
+  const actionButtonClass = 'flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-[10px] font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300 px-1">Color Harmony</p>
+
+      <div className="grid grid-cols-5 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Harmony scheme">
+        {(Object.keys(HARMONY_SCHEMES) as HarmonyScheme[]).map(option => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={scheme === option}
+            onClick={() => {
+              setScheme(option);
+              setLocked(prev => prev.slice(0, HARMONY_SCHEMES[option].offsets.length));
+              rebuild(base, option);
+            }}
+            className={`px-1 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+              scheme === option
+                ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+            }`}
+          >
+            {HARMONY_SCHEMES[option].label}
+          </button>
+        ))}
+      </div>
+
+      <ColorInput
+        value={base}
+        onChange={(color) => {
+          setBase(color);
+          setFollowCurrent(false);
+          rebuild(color, scheme);
+        }}
+        label="Base Color"
+        size="sm"
+      />
+      {!followCurrent && isValidHex(currentColor) && (
+        <button
+          onClick={() => {
+            setFollowCurrent(true);
+            appliedColorRef.current = null;
+          }}
+          className="text-[10px] font-medium text-indigo-600 dark:text-indigo-400 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-1"
+        >
+          Use current color
+        </button>
+      )}
+
+      <div className="flex gap-2">
+        {harmony.stops.map((stop, index) => (
+          <div key={index} className="flex-1 space-y-1">
+            <div
+              className="h-9 rounded-md border border-black/5 dark:border-white/5"
+              style={{ backgroundColor: stop.color }}
+              aria-hidden="true"
+            />
+            <button
+              onClick={() => toggleLock(index)}
+              aria-pressed={!!locked[index]}
+              aria-label={`${locked[index] ? 'Unlock' : 'Lock'} stop ${index + 1} (${stop.color})`}
+              className={`w-full flex items-center justify-center gap-1 py-0.5 rounded text-[9px] font-mono transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                locked[index]
+                  ? 'bg-indigo-500 text-white'
+                  : 'text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+              }`}
+            >
+              {locked[index]
+                ? <Lock className="w-2.5 h-2.5" aria-hidden="true" />
+                : <LockOpen className="w-2.5 h-2.5" aria-hidden="true" />}
+              {stop.color}
+            </button>
+          </div>
+        ))}
+        <div className="w-9 space-y-1 flex-shrink-0">
+          <div
+            className="h-9 rounded-full border border-black/5 dark:border-white/5"
+            style={{ backgroundColor: `oklch(${glow.lightness}% ${glow.chroma} ${glow.hue})` }}
+            aria-hidden="true"
+          />
+          <p className="text-[9px] text-center text-zinc-500">Glow</p>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        <button
+          onClick={() => rebuild(base, scheme, 1)}
+          className={actionButtonClass}
+          aria-label="Regenerate unlocked stops"
+        >
+          <Shuffle className="w-3 h-3" aria-hidden="true" />
+          Regenerate
+        </button>
+        <button
+          onClick={() => {
+            appliedColorRef.current = harmony.stops[0].color;
+            updateState({
+              gradientStops: harmony.stops,
+              colorMode: colorMode === 'solid' ? 'linear' : colorMode,
+            });
+          }}
+          className={actionButtonClass}
+        >
+          Apply Gradient
+        </button>
+        <button
+          onClick={() => updateState(glow)}
+          className={actionButtonClass}
+        >
+          Apply Glow
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ImagePalette: dominant colors of a dropped image, read locally on a canvas
+interface ImagePaletteProps {
+  updateState: (updates: Partial<SuperellipseState>) => void;
+  colorMode: SuperellipseState['colorMode'];
+}
+
+const ImagePalette: FC<ImagePaletteProps> = ({ updateState, colorMode }) => {
+  const [palette, setPalette] = useState<PaletteColor[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setPalette(await extractImagePalette(file));
+      setSelected(0);
+    } catch (err) {
+      logError(err, { source: 'image-palette' });
+      const userMessage = toUserMessage(err);
+      setError(userMessage.hint ? `${userMessage.message}. ${userMessage.hint}` : userMessage.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    readFile(e.dataTransfer.files[0]);
+  };
+
+  const color = palette[selected];
+  const applyButtonClass = 'flex-1 px-2 py-1.5 rounded-md text-[10px] font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300 px-1">Colors from Image</p>
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-1 p-4 rounded-lg border-2 border-dashed cursor-pointer transition-colors focus-within:ring-2 focus-within:ring-indigo-500 ${
+          dragging
+            ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-950/30'
+            : 'border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600'
+        }`}
+      >
+        <ImagePlus className="w-5 h-5 text-zinc-400" aria-hidden="true" />
+        <span className="text-[11px] font-medium text-zinc-600 dark:text-zinc-300">
+          {loading ? 'Reading colors…' : 'Drop an image or click to choose'}
+        </span>
+        <span className="text-[10px] text-zinc-400">Processed on this device, never uploaded</span>
+        <input
+          type="file"
+          accept="image/*"
+          className="sr-only"
+          onChange={(e) => {
+            readFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          aria-label="Choose an image to extract colors from"
+        />
+      </label>
+
+      {error && (
+        <p className="text-[10px] text-red-500 dark:text-red-400 px-1" role="alert">
+          {error}
+        </p>
+      )}
+
+      {palette.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex gap-2" role="radiogroup" aria-label="Extracted colors">
+            {palette.map((paletteColor, index) => (
+              <button
+                key={paletteColor.hex}
+                role="radio"
+                aria-checked={selected === index}
+                aria-label={`${paletteColor.hex}, ${Math.round(paletteColor.weight * 100)}% of the image`}
+                onClick={() => setSelected(index)}
+                className={`flex-1 h-9 rounded-md border-2 transition-transform hover:scale-105 ${
+                  selected === index
+                    ? 'border-zinc-900 dark:border-white ring-2 ring-offset-2 ring-zinc-900 dark:ring-white'
+                    : 'border-black/5 dark:border-white/5'
+                }`}
+                style={{ backgroundColor: paletteColor.hex }}
+              />
+            ))}
+          </div>
+          <p className="text-[10px] font-mono text-zinc-500 px-1">
+            {color.hex} · {Math.round(color.weight * 100)}%
+          </p>
+          <div className="flex gap-1">
+            <button
+              onClick={() => updateState({ solidColor: color.hex, colorMode: 'solid' })}
+              className={applyButtonClass}
+            >
+              Use as Fill
+            </button>
+            <button
+              onClick={() => updateState({
+                gradientStops: paletteToGradientStops(palette),
+                colorMode: colorMode === 'solid' ? 'linear' : colorMode,
+              })}
+              className={applyButtonClass}
+            >
+              Use as Gradient
+            </button>
+            <button
+              onClick={() => updateState(paletteColorToGlow(color))}
+              className={applyButtonClass}
+            >
+              Use as Glow
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ContrastPanel: worst-case text contrast over the effective card background
+interface ContrastPanelProps {
+  state: SuperellipseState;
+  theme: 'light' | 'dark';
+}
+
+// Preview section behind the card and preview text color, from index.css
+const PREVIEW_COLORS = {
+  light: { page: '#F4F4F5', text: '#09090B' },
+  dark: { page: '#050505', text: '#FAFAFA' },
+} as const;
+
+const ContrastPanel: FC<ContrastPanelProps> = ({ state, theme }) => {
+  const [area, setArea] = useState<TextAreaPreset>('bottom');
+  const [text, setText] = useState<string>(PREVIEW_COLORS[theme].text);
+  const [target, setTarget] = useState<ContrastTarget>('wcag-aa');
+  // Remounts the text input when a suggestion replaces its value
+  const [inputKey, setInputKey] = useState(0);
+
+  const result = useMemo(() => {
+    try {
+      const background = sampleTextBackground(state, TEXT_AREAS[area].rect, PREVIEW_COLORS[theme].page);
+      return {
+        report: measureContrast(text, background),
+        suggestion: suggestTextColor(text, background, target),
+        error: null,
+      };
+    } catch (err) {
+      const userMessage = toUserMessage(err);
+      return { report: null, suggestion: null, error: userMessage.hint ? `${userMessage.message}. ${userMessage.hint}` : userMessage.message };
+    }
+  }, [state, area, text, target, theme]);
+
+  const { report, suggestion, error } = result;
+  const badge = (option: ContrastTarget) => (
+    <span
+      key={option}
+      className={`px-1.5 py-0.5 rounded text-[9px] font-medium ${
+        report?.passes[option]
+          ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+          : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-400 dark:text-zinc-500 line-through'
+      }`}
+    >
+      {CONTRAST_TARGETS[option].label}
+    </span>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300 px-1">Text Contrast</p>
+
+      <div className="grid grid-cols-3 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Text area">
+        {(Object.keys(TEXT_AREAS) as TextAreaPreset[]).map(option => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={area === option}
+            onClick={() => setArea(option)}
+            className={`px-1 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+              area === option
+                ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+            }`}
+          >
+            {TEXT_AREAS[option].label}
+          </button>
+        ))}
+      </div>
+
+      <ColorInput key={inputKey} value={text} onChange={setText} label="Text Color" size="sm" />
+
+      {error && (
+        <p className="text-[10px] text-red-500 dark:text-red-400 px-1" role="alert">
+          {error}
+        </p>
+      )}
+
+      {report && (
+        <div className="flex gap-3 items-center" role="status" aria-live="polite">
+          <div
+            className="w-14 h-14 flex-shrink-0 rounded-lg border border-black/5 dark:border-white/5 flex items-center justify-center text-lg font-bold"
+            style={{ background: `linear-gradient(135deg, ${report.darkest}, ${report.lightest})`, color: text }}
+            title={`Background from ${report.darkest} to ${report.lightest}`}
+            aria-hidden="true"
+          >
+            Aa
+          </div>
+          <dl className="flex-1 space-y-1.5 text-[10px]">
+            <div className="flex items-center justify-between gap-2">
+              <dt className="text-zinc-500">WCAG 2.x</dt>
+              <dd className="flex items-center gap-1">
+                <span className="font-mono text-zinc-700 dark:text-zinc-300">{report.ratio.toFixed(2)}:1</span>
+                {badge('wcag-aa')}
+                {badge('wcag-aaa')}
+              </dd>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <dt className="text-zinc-500">APCA</dt>
+              <dd className="flex items-center gap-1">
+                <span className="font-mono text-zinc-700 dark:text-zinc-300">Lc {Math.round(report.lc)}</span>
+                {badge('apca-60')}
+                {badge('apca-75')}
+              </dd>
+            </div>
+          </dl>
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Contrast target for suggestions">
+        {(Object.keys(CONTRAST_TARGETS) as ContrastTarget[]).map(option => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={target === option}
+            onClick={() => setTarget(option)}
+            className={`px-1 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+              target === option
+                ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+            }`}
+          >
+            {CONTRAST_TARGETS[option].label}
+          </button>
+        ))}
+      </div>
+
+      {report && (report.passes[target] ? (
+        <p className="text-[10px] text-zinc-500 px-1">Passes {CONTRAST_TARGETS[target].label} across the whole area.</p>
+      ) : suggestion ? (
+        <div className="flex items-center gap-2 px-1">
+          <div className="size-5 rounded-md border border-black/5 dark:border-white/5" style={{ backgroundColor: suggestion }} aria-hidden="true" />
+          <p className="flex-1 text-[10px] text-zinc-500">
+            Nearest passing color <span className="font-mono text-zinc-700 dark:text-zinc-300">{suggestion}</span>
+          </p>
+          <button
+            onClick={() => {
+              setText(suggestion);
+              setInputKey(key => key + 1);
+            }}
+            className="px-2 py-1 rounded-md text-[10px] font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            Use
+          </button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-zinc-500 px-1">
+          No lightness of this text color reaches {CONTRAST_TARGETS[target].label} here. Try another area, or less glow or noise.
+        </p>
+      ))}
+
+      <p className="text-[9px] text-zinc-400 dark:text-zinc-500 px-1">
+        Worst case over the area, with the gradient, glow and noise grain composited as in the preview.
+      </p>
+    </div>
+  );
+};
+
+export const ColorTab: FC<ColorTabProps> = ({ state, updateState, updateGradientStop, theme = 'dark' }) => {
   const modes = ['solid', 'linear', 'radial', 'conic'] as const;
 
   // Improved gradient stop addition with smart positioning
@@ -340,33 +808,94 @@ export const ColorTab: FC<ColorTabProps> = ({ state, updateState, updateGradient
             />
           )}
 
+          {/* Centre for radial/conic */}
+          {(state.colorMode === 'radial' || state.colorMode === 'conic') && (
+            <div className="grid grid-cols-2 gap-3">
+              <CustomSlider
+                label="Center X"
+                value={state.gradientCenterX}
+                min={0}
+                max={100}
+                step={1}
+                onChange={(val) => updateState({ gradientCenterX: val })}
+                unit="%"
+              />
+              <CustomSlider
+                label="Center Y"
+                value={state.gradientCenterY}
+                min={0}
+                max={100}
+                step={1}
+                onChange={(val) => updateState({ gradientCenterY: val })}
+                unit="%"
+              />
+            </div>
+          )}
+
+          {/* Radius and focal point for radial */}
+          {state.colorMode === 'radial' && (
+            <>
+              <CustomSlider
+                label="Radius"
+                value={state.gradientRadius}
+                min={10}
+                max={200}
+                step={1}
+                onChange={(val) => updateState({ gradientRadius: val })}
+                unit="%"
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <CustomSlider
+                  label="Focal X"
+                  value={state.gradientFocalX}
+                  min={-100}
+                  max={100}
+                  step={1}
+                  onChange={(val) => updateState({ gradientFocalX: val })}
+                  unit="%"
+                />
+                <CustomSlider
+                  label="Focal Y"
+                  value={state.gradientFocalY}
+                  min={-100}
+                  max={100}
+                  step={1}
+                  onChange={(val) => updateState({ gradientFocalY: val })}
+                  unit="%"
+                />
+              </div>
+            </>
+          )}
+
           {/* Gradient Preview */}
           <div className="space-y-2">
             <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300 px-1">Preview</p>
             <div 
               className="w-full h-20 rounded-lg border border-zinc-200 dark:border-zinc-800 shadow-inner"
-              style={{
-                background: (() => {
-                  const stops = state.gradientStops
-                    .map(s => `${s.color} ${s.position}%`)
-                    .join(', ');
-                  
-                  switch (state.colorMode) {
-                    case 'linear':
-                      return `linear-gradient(${state.gradientAngle}deg, ${stops})`;
-                    case 'radial':
-                      return `radial-gradient(circle, ${stops})`;
-                    case 'conic':
-                      return `conic-gradient(from ${state.gradientAngle}deg, ${stops})`;
-                    default:
-                      return stops;
-                  }
-                })()
-              }}
+              style={{ background: getGradientBackground(state) }}
             />
           </div>
         </div>
       )}
+
+      <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
+
+      {/* Harmony Palette */}
+      <HarmonyPalette
+        currentColor={state.colorMode === 'solid' ? state.solidColor : state.gradientStops[0]?.color ?? state.solidColor}
+        updateState={updateState}
+        colorMode={state.colorMode}
+      />
+
+      <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
+
+      {/* Image Palette */}
+      <ImagePalette updateState={updateState} colorMode={state.colorMode} />
+
+      <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
+
+      {/* Text Contrast - resets to the preview text color when the theme changes */}
+      <ContrastPanel key={theme} state={state} theme={theme} />
     </div>
   );
 };
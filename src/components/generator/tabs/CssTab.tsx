@@ -1,9 +1,12 @@
 import React, { useMemo, useState } from 'react';
 import { Copy, Check, Download } from 'lucide-react';
 import { SuperellipseState } from '../../../hooks/useSuperellipse';
+import { generateCSS, generatePreviewGlowCSS, getPreviewGlowColors } from '../../../utils/math';
+import { formatOklch } from '../../../utils/oklch';
 
 interface CssTabProps {
   state: SuperellipseState;
+  pathData: string;
   theme: 'light' | 'dark';
 }
 
@@ -25,91 +28,6 @@ function generatePhoneFrameCss(isDark: boolean): string[] {
   return lines;
 }
 
-// Helper function to generate glow CSS layers
-function generateGlowCss(state: SuperellipseState): string[] {
-  const lines: string[] = [];
-  
-  if (!state.enabled) return lines;
-
-  lines.push(`/* Glow Container (wrapper for all glow layers) */`);
-  lines.push(`.glow-container {`);
-  lines.push(`  position: absolute;`);
-  lines.push(`  width: 1700px;`);
-  lines.push(`  height: 2400px;`);
-  lines.push(`  pointer-events: none;`);
-  lines.push(`  mask-image: linear-gradient(black 30%, transparent 100%);`);
-  lines.push(`  left: -590px;`);
-  lines.push(`  top: -1070px;`);
-  lines.push(`  transform: scale(${(state.glowScale * 0.75).toFixed(2)});`);
-  lines.push(`}`);
-  lines.push(``);
-  
-  // Layer 1: Large Background
-  lines.push(`/* Glow Layer 1 - Large Background Shape (180px blur) */`);
-  lines.push(`.glow-layer-1 {`);
-  lines.push(`  position: absolute;`);
-  lines.push(`  top: 400px;`);
-  lines.push(`  left: 300px;`);
-  lines.push(`  width: 1800px;`);
-  lines.push(`  height: 1140px;`);
-  lines.push(`  border-radius: 9999px;`);
-  lines.push(`  filter: blur(180px);`);
-  lines.push(`  background: var(--glow-color-1);`);
-  lines.push(`  opacity: 0.4;`);
-  lines.push(`  mix-blend-mode: screen;`);
-  lines.push(`}`);
-  lines.push(``);
-  
-  // Layer 2: Medium Shape
-  lines.push(`/* Glow Layer 2 - Medium Shape (120px blur) */`);
-  lines.push(`.glow-layer-2 {`);
-  lines.push(`  position: absolute;`);
-  lines.push(`  top: 600px;`);
-  lines.push(`  left: 460px;`);
-  lines.push(`  width: 1300px;`);
-  lines.push(`  height: 1300px;`);
-  lines.push(`  border-radius: 9999px;`);
-  lines.push(`  filter: blur(120px);`);
-  lines.push(`  background: var(--glow-color-2);`);
-  lines.push(`  opacity: 0.6;`);
-  lines.push(`  mix-blend-mode: screen;`);
-  lines.push(`}`);
-  lines.push(``);
-  
-  // Layer 3: Core Color
-  lines.push(`/* Glow Layer 3 - Core Color (60px blur) */`);
-  lines.push(`.glow-layer-3 {`);
-  lines.push(`  position: absolute;`);
-  lines.push(`  top: 700px;`);
-  lines.push(`  left: 560px;`);
-  lines.push(`  width: 1000px;`);
-  lines.push(`  height: 800px;`);
-  lines.push(`  border-radius: 9999px;`);
-  lines.push(`  filter: blur(60px);`);
-  lines.push(`  background: var(--glow-color-3);`);
-  lines.push(`  opacity: 1;`);
-  lines.push(`  mix-blend-mode: screen;`);
-  lines.push(`}`);
-  lines.push(``);
-  
-  // Layer 4: White Highlight
-  lines.push(`/* Glow Layer 4 - White Highlight (80px blur) */`);
-  lines.push(`.glow-highlight {`);
-  lines.push(`  position: absolute;`);
-  lines.push(`  top: 800px;`);
-  lines.push(`  left: 700px;`);
-  lines.push(`  width: 600px;`);
-  lines.push(`  height: 440px;`);
-  lines.push(`  border-radius: 9999px;`);
-  lines.push(`  filter: blur(80px);`);
-  lines.push(`  background: rgb(255, 255, 255);`);
-  lines.push(`  opacity: 0.4;`);
-  lines.push(`  mix-blend-mode: normal;`);
-  lines.push(`}`);
-  
-  return lines;
-}
-
 // Helper function to generate noise overlay CSS
 function generateNoiseCss(state: SuperellipseState): string[] {
   const lines: string[] = [];
@@ -156,13 +74,11 @@ function generateUiContentCss(): string[] {
 }
 
 // Main CSS generation function
-function generateDetailedCSS(state: SuperellipseState, theme: 'light' | 'dark'): string {
+function generateDetailedCSS(state: SuperellipseState, pathData: string, theme: 'light' | 'dark'): string {
   const isDark = theme === 'dark';
   
-  // Calculate glow colors using OKLCH
-  const varColor1 = `oklch(${state.lightness}% ${state.chroma} ${state.hue})`;
-  const varColor2 = `oklch(${Math.min(state.lightness + 10, 100)}% ${state.chroma} ${state.hue})`;
-  const varColor3 = `oklch(${Math.min(state.lightness + 15, 100)}% ${Math.max(state.chroma - 0.05, 0)} ${state.hue})`;
+  // Glow colors of the preview layers, white highlight last
+  const [varColor1, varColor2, varColor3] = getPreviewGlowColors(state).map(formatOklch);
   
   const lines: string[] = [];
   
@@ -200,8 +116,13 @@ function generateDetailedCSS(state: SuperellipseState, theme: 'light' | 'dark'):
   // Add modular CSS sections
   lines.push(...generatePhoneFrameCss(isDark));
   lines.push(``);
-  lines.push(...generateGlowCss(state));
+  // Shape, fill and stroke come from the shared export pipeline; the preview's glow layers replace its glow
+  lines.push(generateCSS(state, pathData, { includeGlow: false }));
   lines.push(``);
+  if (state.enabled) {
+    lines.push(generatePreviewGlowCSS(state, ['var(--glow-color-1)', 'var(--glow-color-2)', 'var(--glow-color-3)', 'rgb(255, 255, 255)']));
+    lines.push(``);
+  }
   lines.push(...generateNoiseCss(state));
   lines.push(``);
   lines.push(...generateUiContentCss());
@@ -209,13 +130,13 @@ function generateDetailedCSS(state: SuperellipseState, theme: 'light' | 'dark'):
   return lines.join('\n');
 }
 
-export const CssTab: React.FC<CssTabProps> = ({ state, theme }) => {
+export const CssTab: React.FC<CssTabProps> = ({ state, pathData, theme }) => {
   const [copied, setCopied] = useState(false);
   const [exportFormat, setExportFormat] = useState<'css' | 'scss'>('css');
   
   const cssCode = useMemo(() => {
-    return generateDetailedCSS(state, theme);
-  }, [state, theme]);
+    return generateDetailedCSS(state, pathData, theme);
+  }, [state, pathData, theme]);
 
   const handleCopy = async () => {
     try {
@@ -339,15 +260,17 @@ export const CssTab: React.FC<CssTabProps> = ({ state, theme }) => {
           <p className="text-[10px] font-semibold text-zinc-700 dark:text-zinc-300 mb-2">HTML Structure:</p>
           <pre className="text-[10px] font-mono text-zinc-600 dark:text-zinc-400 overflow-x-auto">
 {`<div class="phone-frame">
-  ${state.enabled ? `<div class="glow-container">
-    <div class="glow-layer-1"></div>
-    <div class="glow-layer-2"></div>
-    <div class="glow-layer-3"></div>
-    <div class="glow-highlight"></div>
-  </div>` : ''}
-  ${state.noiseEnabled ? `<div class="noise-overlay"></div>` : ''}
-  <div class="ui-content">
-    <!-- Your content here -->
+  <div class="superellipse">
+    ${state.enabled ? `<div class="glow-container">
+      <div class="glow-layer-1"></div>
+      <div class="glow-layer-2"></div>
+      <div class="glow-layer-3"></div>
+      <div class="glow-highlight"></div>
+    </div>` : ''}
+    ${state.noiseEnabled ? `<div class="noise-overlay"></div>` : ''}
+    <div class="ui-content">
+      <!-- Your content here -->
+    </div>
   </div>
 </div>`}
           </pre>
@@ -1,69 +1,82 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { Download, FileCode, FileJson, Copy, Check, Image, AlertCircle } from 'lucide-react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { Download, FileCode, FileJson, Copy, Check, Image, AlertCircle, Code, Wind, Braces, Paintbrush, Images } from 'lucide-react';
 import { toast } from 'sonner';
 import { createPngExportError, createSvgExportError, logError, toUserMessage } from '@/lib/errors';
+import { serializeState } from '@/lib/stateSchema';
+import { SuperellipseState } from '../../../hooks/useSuperellipse';
+import { generateCSS, generateSVG, downloadSVG, downloadTextFile, CSSOptions, ExportColorSpace } from '../../../utils/math';
+import {
+  generateReactComponent,
+  generateVueComponent,
+  generateSvelteComponent,
+  generateCustomElement,
+  hasRuntimeOutline,
+} from '../../../utils/componentExport';
+import { generateTailwindPlugin, getTailwindClasses } from '../../../utils/tailwindExport';
+import { generateDesignTokens, TokenFormat } from '../../../utils/designTokens';
+import {
+  generatePaintWorklet,
+  generatePaintWorkletCSS,
+  supportsPaintWorklet,
+  PAINT_WORKLET_FILENAME,
+} from '../../../utils/paintWorkletExport';
+import {
+  RASTER_FORMATS,
+  RASTER_GROUPS,
+  DEFAULT_FILENAME_PATTERN,
+  RasterFormat,
+  RasterGroup,
+  downloadRasterZip,
+  getRasterFiles,
+  getSupportedRasterFormats,
+  getSVGSize,
+} from '../../../utils/rasterExport';
+import { usePresets } from '../../../hooks/usePresets';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface SuperellipseState {
-  width: number;
-  height: number;
-  exp: number;
-  gradientStops: Array<{ color: string; position: number }>;
-  // Allow additional properties for other state fields
-  [key: string]: unknown;
-}
-
 interface ExportTabProps {
   state: SuperellipseState;
   pathData: string;
 }
 
-// ============================================================================
-// UTILITY FUNCTIONS (mock implementations)
-// ============================================================================
+type ComponentTarget = 'react' | 'vue' | 'svelte' | 'element';
+
+const COMPONENT_TARGETS: Record<ComponentTarget, { label: string; filename: string; type: string }> = {
+  react: { label: 'React', filename: 'Superellipse.tsx', type: 'text/typescript' },
+  vue: { label: 'Vue', filename: 'Superellipse.vue', type: 'text/plain' },
+  svelte: { label: 'Svelte', filename: 'Superellipse.svelte', type: 'text/plain' },
+  element: { label: 'Web Component', filename: 'super-ellipse.js', type: 'text/javascript' },
+};
+
+type ClipMode = NonNullable<CSSOptions['clipMode']>;
+
+const CLIP_MODES: Record<ClipMode, { label: string; description: string }> = {
+  path: { label: 'Fixed path', description: 'clip-path: path() at the exported size' },
+  mask: { label: 'Mask', description: 'mask-image that scales with the element' },
+  'bounding-box': { label: 'Bounding box', description: 'objectBoundingBox clip path that scales with the element' },
+};
 
-const generateCSS = (state: SuperellipseState, pathData: string): string => {
-  return `.superellipse {
-  width: ${state.width}px;
-  height: ${state.height}px;
-  clip-path: path('${pathData}');
-  background: linear-gradient(135deg, ${state.gradientStops.map(s => s.color).join(', ')});
-}`;
+const COLOR_SPACES: Record<ExportColorSpace, { label: string; description: string }> = {
+  srgb: { label: 'sRGB', description: 'Glow as a hex color, gamut mapped into sRGB' },
+  'display-p3': { label: 'Display P3', description: 'color(display-p3) glow with an sRGB fallback' },
+  oklch: { label: 'OKLCH', description: 'oklch() glow with an sRGB fallback' },
 };
 
-const generateSVG = (state: SuperellipseState, pathData: string): string => {
-  return `<svg width="${state.width}" height="${state.height}" xmlns="http://www.w3.org/2000/svg">
-  <path d="${pathData}" fill="url(#gradient)"/>
-  <defs>
-    <linearGradient id="gradient">
-      ${state.gradientStops.map((s, i) => 
-        `<stop offset="${s.position}%" stop-color="${s.color}"/>`
-      ).join('\n      ')}
-    </linearGradient>
-  </defs>
-</svg>`;
+type WorkletFile = 'worklet' | 'css';
+
+const WORKLET_FILES: Record<WorkletFile, { label: string; filename: string; type: string }> = {
+  worklet: { label: 'Worklet', filename: PAINT_WORKLET_FILENAME, type: 'text/javascript' },
+  css: { label: 'CSS', filename: 'superellipse.worklet.css', type: 'text/css' },
 };
 
-const downloadSVG = (state: SuperellipseState, pathData: string, filename: string): void => {
-  try {
-    const svg = generateSVG(state, pathData);
-    const blob = new Blob([svg], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  } catch (error) {
-    const exportError = createSvgExportError(error as Error);
-    logError(exportError);
-    throw exportError;
-  }
+const TAILWIND_PLUGIN_FILENAME = 'superellipse.plugin.cjs';
+
+const TOKEN_FORMATS: Record<TokenFormat, { label: string; filename: string }> = {
+  dtcg: { label: 'W3C DTCG', filename: 'superellipse.tokens.json' },
+  'style-dictionary': { label: 'Style Dictionary', filename: 'superellipse.style-dictionary.json' },
 };
 
 // ============================================================================
@@ -135,13 +148,13 @@ const CopyButton: React.FC<CopyButtonProps> = ({
 
 interface CodeBlockProps {
   code: string;
-  language: 'css' | 'json';
+  language: 'css' | 'json' | 'tsx' | 'vue' | 'svelte' | 'js';
   isVisible: boolean;
   id: string;
 }
 
 const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, isVisible, id }) => {
-  const colorClass = language === 'css' ? 'text-green-400' : 'text-blue-400';
+  const colorClass = language === 'css' ? 'text-green-400' : language === 'json' ? 'text-blue-400' : 'text-sky-300';
   
   if (!isVisible) return null;
   
@@ -171,27 +184,165 @@ const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, isVisible, id })
 export const ExportTab: React.FC<ExportTabProps> = ({ state, pathData }) => {
   const [showCSS, setShowCSS] = useState(false);
   const [showJSON, setShowJSON] = useState(false);
+  const [showComponent, setShowComponent] = useState(false);
+  const [componentTarget, setComponentTarget] = useState<ComponentTarget>('react');
+  const [clipMode, setClipMode] = useState<ClipMode>('path');
+  const [fixedCorners, setFixedCorners] = useState(false);
+  const [colorSpace, setColorSpace] = useState<ExportColorSpace>('oklch');
+  const [showWorklet, setShowWorklet] = useState(false);
+  const [workletFile, setWorkletFile] = useState<WorkletFile>('worklet');
+  const [showBatch, setShowBatch] = useState(false);
+  const [batchGroups, setBatchGroups] = useState<RasterGroup[]>(['scale']);
+  const [batchFormats, setBatchFormats] = useState<RasterFormat[]>(['png']);
+  const [filenamePattern, setFilenamePattern] = useState(DEFAULT_FILENAME_PATTERN);
+  const [supportedFormats, setSupportedFormats] = useState<Record<RasterFormat, boolean> | null>(null);
+  const [batchProgress, setBatchProgress] = useState<number | null>(null);
+  const [showTailwind, setShowTailwind] = useState(false);
+  const [showTokens, setShowTokens] = useState(false);
+  const [tokenFormat, setTokenFormat] = useState<TokenFormat>('dtcg');
   const [downloadingPNG, setDownloadingPNG] = useState(false);
 
   // Memoized code generation
-  const cssCode = useMemo(() => generateCSS(state, pathData), [state, pathData]);
-  const jsonCode = useMemo(() => JSON.stringify(state, null, 2), [state]);
+  const cssCode = useMemo(
+    () => generateCSS(state, pathData, { clipMode, fixedCorners, colorSpace }),
+    [state, pathData, clipMode, fixedCorners, colorSpace]
+  );
+  const jsonCode = useMemo(() => JSON.stringify(serializeState(state), null, 2), [state]);
+  const componentCode = useMemo(() => {
+    switch (componentTarget) {
+      case 'vue':
+        return generateVueComponent(state, pathData);
+      case 'svelte':
+        return generateSvelteComponent(state, pathData);
+      case 'element':
+        return generateCustomElement(state);
+      default:
+        return generateReactComponent(state, pathData);
+    }
+  }, [componentTarget, state, pathData]);
+
+  // Encoder support is probed once, when the batch section first opens
+  useEffect(() => {
+    if (!showBatch || supportedFormats) return;
+    let cancelled = false;
+    getSupportedRasterFormats().then(formats => {
+      if (!cancelled) setSupportedFormats(formats);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showBatch, supportedFormats]);
+
+  const batchPlan = useMemo(() => {
+    if (!showBatch) return { files: [], error: null };
+    try {
+      const targets = (Object.keys(RASTER_GROUPS) as RasterGroup[])
+        .filter(group => batchGroups.includes(group))
+        .flatMap(group => RASTER_GROUPS[group].targets);
+      const formats = (Object.keys(RASTER_FORMATS) as RasterFormat[])
+        .filter(format => batchFormats.includes(format) && supportedFormats?.[format] !== false);
+      const size = getSVGSize(generateSVG(state, pathData));
+      return { files: getRasterFiles(targets, formats, size, filenamePattern), error: null };
+    } catch (err) {
+      return { files: [], error: toUserMessage(err).message + (err instanceof Error ? `: ${err.message}` : '') };
+    }
+  }, [showBatch, batchGroups, batchFormats, supportedFormats, filenamePattern, state, pathData]);
+
+  const toggleItem = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter(entry => entry !== item) : [...list, item];
+
+  const handleDownloadBatch = useCallback(async () => {
+    setBatchProgress(0);
+    try {
+      await downloadRasterZip(state, pathData, batchPlan.files, `superellipse-${Date.now()}.zip`, setBatchProgress);
+      toast.success('Images downloaded', {
+        description: `${batchPlan.files.length} files bundled into one zip`,
+        duration: 3000,
+      });
+    } catch (err) {
+      logError(err, { files: batchPlan.files.length });
+      const userMessage = toUserMessage(err);
+      toast.error(userMessage.message, {
+        description: userMessage.hint,
+        duration: 5000,
+      });
+    } finally {
+      setBatchProgress(null);
+    }
+  }, [state, pathData, batchPlan]);
+
+  // Shapes the worklet cannot draw only export the CSS, with a static mask
+  const workletSupported = supportsPaintWorklet(state);
+  const activeWorkletFile: WorkletFile = workletSupported ? workletFile : 'css';
+  const workletCode = useMemo(
+    () => (activeWorkletFile === 'css' ? generatePaintWorkletCSS(state, pathData) : generatePaintWorklet(state)),
+    [activeWorkletFile, state, pathData]
+  );
+
+  const handleDownloadWorklet = useCallback(() => {
+    const { filename, type } = WORKLET_FILES[activeWorkletFile];
+    downloadTextFile(workletCode, filename, type);
+    toast.success('Paint worklet downloaded', {
+      description: `${filename} has been saved`,
+      duration: 3000,
+    });
+  }, [workletCode, activeWorkletFile]);
+
+  // Saved presets become Tailwind classes and tokens alongside the current shape
+  const { presets: storedPresets } = usePresets();
+  const tailwindCode = useMemo(() => generateTailwindPlugin(state, storedPresets), [state, storedPresets]);
+  const tailwindClasses = useMemo(
+    () => (showTailwind ? getTailwindClasses(state, storedPresets) : []),
+    [showTailwind, state, storedPresets]
+  );
+  const tokensCode = useMemo(
+    () => JSON.stringify(generateDesignTokens(state, storedPresets, tokenFormat), null, 2),
+    [state, storedPresets, tokenFormat]
+  );
+
+  const handleDownloadTokens = useCallback(() => {
+    const { filename } = TOKEN_FORMATS[tokenFormat];
+    downloadTextFile(tokensCode, filename, 'application/json');
+    toast.success('Design tokens downloaded', {
+      description: `${filename} has been saved`,
+      duration: 3000,
+    });
+  }, [tokensCode, tokenFormat]);
+
+  const handleDownloadTailwind = useCallback(() => {
+    downloadTextFile(tailwindCode, TAILWIND_PLUGIN_FILENAME, 'text/javascript');
+    toast.success('Tailwind plugin downloaded', {
+      description: `${TAILWIND_PLUGIN_FILENAME} has been saved`,
+      duration: 3000,
+    });
+  }, [tailwindCode]);
+
+  const handleDownloadComponent = useCallback(() => {
+    const { filename, type } = COMPONENT_TARGETS[componentTarget];
+    downloadTextFile(componentCode, filename, type);
+    toast.success('Component downloaded', {
+      description: `${filename} has been saved`,
+      duration: 3000,
+    });
+  }, [componentCode, componentTarget]);
 
   const handleDownloadSVG = useCallback(() => {
     try {
-      downloadSVG(state, pathData, `superellipse-${Date.now()}.svg`);
+      downloadSVG(state, pathData, `superellipse-${Date.now()}.svg`, { colorSpace });
       toast.success('SVG downloaded successfully', {
         description: 'Your superellipse has been saved',
         duration: 3000,
       });
     } catch (error) {
-      const userMessage = toUserMessage(error);
+      const exportError = createSvgExportError(error as Error);
+      logError(exportError);
+      const userMessage = toUserMessage(exportError);
       toast.error(userMessage.message, {
         description: userMessage.hint,
         duration: 5000,
       });
     }
-  }, [state, pathData]);
+  }, [state, pathData, colorSpace]);
 
   const handleDownloadPNG = useCallback(async () => {
     setDownloadingPNG(true);
@@ -210,8 +361,9 @@ export const ExportTab: React.FC<ExportTabProps> = ({ state, pathData }) => {
 
       img.onload = () => {
         try {
-          canvas.width = state.width * 2; // 2x for better quality
-          canvas.height = state.height * 2;
+          // Outside strokes make the SVG larger than the shape
+          canvas.width = img.width * 2; // 2x for better quality
+          canvas.height = img.height * 2;
           ctx.scale(2, 2);
           ctx.drawImage(img, 0, 0);
           
@@ -318,6 +470,102 @@ export const ExportTab: React.FC<ExportTabProps> = ({ state, pathData }) => {
         {downloadingPNG ? 'Generating PNG image, please wait' : ''}
       </div>
 
+      {/* Batch Raster Export */}
+      <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowBatch(!showBatch)}
+            aria-expanded={showBatch}
+            aria-controls="batch-export-panel"
+            className="flex items-center gap-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded"
+          >
+            <Images className="w-4 h-4" aria-hidden="true" />
+            Batch Images
+          </button>
+          {showBatch && (
+            <button
+              onClick={handleDownloadBatch}
+              disabled={batchProgress !== null || batchPlan.files.length === 0 || batchPlan.error !== null}
+              aria-busy={batchProgress !== null}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <Download className="w-3.5 h-3.5" aria-hidden="true" />
+              {batchProgress !== null ? `${batchProgress}/${batchPlan.files.length}` : 'zip'}
+            </button>
+          )}
+        </div>
+
+        {showBatch && (
+          <div id="batch-export-panel" className="space-y-2">
+            <div className="grid grid-cols-4 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="group" aria-label="Image sizes">
+              {(Object.keys(RASTER_GROUPS) as RasterGroup[]).map(group => (
+                <button
+                  key={group}
+                  aria-pressed={batchGroups.includes(group)}
+                  onClick={() => setBatchGroups(toggleItem(batchGroups, group))}
+                  className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+                    batchGroups.includes(group)
+                      ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                      : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                  }`}
+                >
+                  {RASTER_GROUPS[group].label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="group" aria-label="Image formats">
+              {(Object.keys(RASTER_FORMATS) as RasterFormat[]).map(format => {
+                const unsupported = supportedFormats !== null && !supportedFormats[format];
+                return (
+                  <button
+                    key={format}
+                    aria-pressed={batchFormats.includes(format)}
+                    disabled={unsupported}
+                    title={unsupported ? `This browser cannot encode ${RASTER_FORMATS[format].label}` : undefined}
+                    onClick={() => setBatchFormats(toggleItem(batchFormats, format))}
+                    className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      batchFormats.includes(format) && !unsupported
+                        ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                        : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                    }`}
+                  >
+                    {RASTER_FORMATS[format].label}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="batch-filename-pattern" className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                File names: {'{name} {group} {label} {width} {height} {format} {ext}'}, / for folders
+              </label>
+              <input
+                id="batch-filename-pattern"
+                type="text"
+                value={filenamePattern}
+                onChange={e => setFilenamePattern(e.target.value)}
+                aria-invalid={batchPlan.error !== null}
+                aria-describedby="batch-export-summary"
+                className="w-full px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-md text-xs font-mono text-zinc-900 dark:text-white placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+
+            <p id="batch-export-summary" className={`text-[10px] ${batchPlan.error ? 'text-red-600 dark:text-red-400' : 'text-zinc-500 dark:text-zinc-400'}`}>
+              {batchPlan.error
+                ?? (batchPlan.files.length === 0
+                  ? 'Pick at least one size and format'
+                  : `${batchPlan.files.length} files, e.g. ${batchPlan.files[0].filename} (${batchPlan.files[0].width}×${batchPlan.files[0].height})`)}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Live region for batch progress */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {batchProgress !== null ? `Rendering image ${batchProgress} of ${batchPlan.files.length}` : ''}
+      </div>
+
       {/* CSS Export */}
       <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
         <div className="flex items-center justify-between">
@@ -333,6 +581,70 @@ export const ExportTab: React.FC<ExportTabProps> = ({ state, pathData }) => {
           <CopyButton content={cssCode} label="Copy CSS" />
         </div>
 
+        <div className="grid grid-cols-3 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="CSS clipping">
+          {(Object.keys(CLIP_MODES) as ClipMode[]).map(mode => (
+            <button
+              key={mode}
+              role="radio"
+              aria-checked={clipMode === mode}
+              title={CLIP_MODES[mode].description}
+              onClick={() => setClipMode(mode)}
+              className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+                clipMode === mode
+                  ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                  : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+              }`}
+            >
+              {CLIP_MODES[mode].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Glow color space for CSS and SVG">
+          {(Object.keys(COLOR_SPACES) as ExportColorSpace[]).map(space => (
+            <button
+              key={space}
+              role="radio"
+              aria-checked={colorSpace === space}
+              title={COLOR_SPACES[space].description}
+              onClick={() => setColorSpace(space)}
+              className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+                colorSpace === space
+                  ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                  : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+              }`}
+            >
+              {COLOR_SPACES[space].label}
+            </button>
+          ))}
+        </div>
+
+        {clipMode === 'mask' && (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+              Keep corner curvature at its px size, stretch the straight sides
+            </p>
+            <button
+              onClick={() => setFixedCorners(!fixedCorners)}
+              role="switch"
+              aria-checked={fixedCorners}
+              aria-label="Keep corner curvature constant"
+              className={`relative shrink-0 w-8 h-5 rounded-full transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+                fixedCorners ? 'bg-indigo-500' : 'bg-zinc-200 dark:bg-zinc-700'
+              }`}
+            >
+              <span
+                className="block w-3 h-3 rounded-full bg-white shadow-sm transition-transform duration-200"
+                style={{
+                  transform: fixedCorners ? 'translateX(0.75rem)' : 'translateX(0)',
+                  margin: '0.25rem',
+                }}
+                aria-hidden="true"
+              />
+            </button>
+          </div>
+        )}
+
         <CodeBlock 
           code={cssCode}
           language="css"
@@ -341,6 +653,226 @@ export const ExportTab: React.FC<ExportTabProps> = ({ state, pathData }) => {
         />
       </div>
 
+      {/* Component Export */}
+      <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowComponent(!showComponent)}
+            aria-expanded={showComponent}
+            aria-controls="component-code-block"
+            className="flex items-center gap-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded"
+          >
+            <Code className="w-4 h-4" aria-hidden="true" />
+            Component
+          </button>
+          <div className="flex items-center gap-1.5">
+            <CopyButton content={componentCode} label="Copy" />
+            <button
+              onClick={handleDownloadComponent}
+              aria-label={`Download ${COMPONENT_TARGETS[componentTarget].filename}`}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <Download className="w-3.5 h-3.5" aria-hidden="true" />
+              {COMPONENT_TARGETS[componentTarget].filename.split('.').pop()}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Component framework">
+          {(Object.keys(COMPONENT_TARGETS) as ComponentTarget[]).map(target => (
+            <button
+              key={target}
+              role="radio"
+              aria-checked={componentTarget === target}
+              onClick={() => setComponentTarget(target)}
+              className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+                componentTarget === target
+                  ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                  : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+              }`}
+            >
+              {COMPONENT_TARGETS[target].label}
+            </button>
+          ))}
+        </div>
+
+        {componentTarget === 'element' && !hasRuntimeOutline(state) && (
+          <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+            This shape can't be redrawn at runtime: other sizes stretch the current outline
+          </p>
+        )}
+
+        <CodeBlock 
+          code={componentCode}
+          language={componentTarget === 'react' ? 'tsx' : componentTarget === 'element' ? 'js' : componentTarget}
+          isVisible={showComponent}
+          id="component-code-block"
+        />
+      </div>
+
+      {/* Paint Worklet Export */}
+      <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowWorklet(!showWorklet)}
+            aria-expanded={showWorklet}
+            aria-controls="worklet-code-block"
+            className="flex items-center gap-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded"
+          >
+            <Paintbrush className="w-4 h-4" aria-hidden="true" />
+            Paint Worklet
+          </button>
+          <div className="flex items-center gap-1.5">
+            <CopyButton content={workletCode} label="Copy" />
+            <button
+              onClick={handleDownloadWorklet}
+              aria-label={`Download ${WORKLET_FILES[activeWorkletFile].filename}`}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <Download className="w-3.5 h-3.5" aria-hidden="true" />
+              {WORKLET_FILES[activeWorkletFile].filename.split('.').pop()}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Paint worklet file">
+          {(Object.keys(WORKLET_FILES) as WorkletFile[]).map(file => (
+            <button
+              key={file}
+              role="radio"
+              aria-checked={activeWorkletFile === file}
+              onClick={() => setWorkletFile(file)}
+              disabled={file === 'worklet' && !workletSupported}
+              className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors disabled:opacity-50 ${
+                activeWorkletFile === file
+                  ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                  : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+              }`}
+            >
+              {WORKLET_FILES[file].label}
+            </button>
+          ))}
+        </div>
+
+        {!workletSupported && (
+          <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+            The worklet only draws exponent superellipses: this shape exports as a static CSS mask
+          </p>
+        )}
+
+        <CodeBlock 
+          code={workletCode}
+          language={activeWorkletFile === 'css' ? 'css' : 'js'}
+          isVisible={showWorklet}
+          id="worklet-code-block"
+        />
+      </div>
+
+      {/* Tailwind Plugin Export */}
+      <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowTailwind(!showTailwind)}
+            aria-expanded={showTailwind}
+            aria-controls="tailwind-code-block"
+            className="flex items-center gap-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded"
+          >
+            <Wind className="w-4 h-4" aria-hidden="true" />
+            Tailwind Plugin
+          </button>
+          <div className="flex items-center gap-1.5">
+            <CopyButton content={tailwindCode} label="Copy" />
+            <button
+              onClick={handleDownloadTailwind}
+              aria-label={`Download ${TAILWIND_PLUGIN_FILENAME}`}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <Download className="w-3.5 h-3.5" aria-hidden="true" />
+              cjs
+            </button>
+          </div>
+        </div>
+
+        {showTailwind && (
+          <ul className="grid grid-cols-2 gap-2" aria-label="Tailwind classes">
+            {tailwindClasses.map(cls => (
+              <li
+                key={cls.className}
+                className="flex items-center gap-2 p-1.5 rounded-md bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800"
+              >
+                <div
+                  className="w-8 h-8 shrink-0 bg-indigo-500"
+                  style={cls.style as React.CSSProperties}
+                  aria-hidden="true"
+                />
+                <div className="min-w-0">
+                  <code className="block text-[10px] font-mono text-zinc-900 dark:text-zinc-100 truncate">{cls.className}</code>
+                  <span className="block text-[10px] text-zinc-500 dark:text-zinc-400 truncate">{cls.description}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <CodeBlock 
+          code={tailwindCode}
+          language="js"
+          isVisible={showTailwind}
+          id="tailwind-code-block"
+        />
+      </div>
+
+      {/* Design Tokens Export */}
+      <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowTokens(!showTokens)}
+            aria-expanded={showTokens}
+            aria-controls="tokens-code-block"
+            className="flex items-center gap-2 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded"
+          >
+            <Braces className="w-4 h-4" aria-hidden="true" />
+            Design Tokens
+          </button>
+          <div className="flex items-center gap-1.5">
+            <CopyButton content={tokensCode} label="Copy" />
+            <button
+              onClick={handleDownloadTokens}
+              aria-label={`Download ${TOKEN_FORMATS[tokenFormat].filename}`}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <Download className="w-3.5 h-3.5" aria-hidden="true" />
+              json
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg" role="radiogroup" aria-label="Token format">
+          {(Object.keys(TOKEN_FORMATS) as TokenFormat[]).map(format => (
+            <button
+              key={format}
+              role="radio"
+              aria-checked={tokenFormat === format}
+              onClick={() => setTokenFormat(format)}
+              className={`px-2 py-1.5 rounded-md text-[10px] font-medium transition-colors ${
+                tokenFormat === format
+                  ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm'
+                  : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+              }`}
+            >
+              {TOKEN_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+
+        <CodeBlock 
+          code={tokensCode}
+          language="json"
+          isVisible={showTokens}
+          id="tokens-code-block"
+        />
+      </div>
+
       {/* JSON Export */}
       <div className="space-y-2 pt-2 border-t border-zinc-200 dark:border-zinc-800">
         <div className="flex items-center justify-between">
@@ -370,7 +902,13 @@ export const ExportTab: React.FC<ExportTabProps> = ({ state, pathData }) => {
         <ul className="text-[10px] text-amber-700 dark:text-amber-300 space-y-1 leading-relaxed">
           <li><strong>SVG:</strong> Scalable vector graphics for web and design</li>
           <li><strong>PNG:</strong> Raster image format with transparency</li>
-          <li><strong>CSS:</strong> Ready-to-use stylesheet code</li>
+          <li><strong>Batch Images:</strong> 1x/2x/3x, iOS, Android and favicon sizes as PNG, WebP or AVIF in one zip</li>
+          <li><strong>CSS:</strong> Ready-to-use stylesheet code, as a fixed path or a mask or clip path that scales with the element, with the glow in sRGB, Display P3 or OKLCH</li>
+          <li><strong>Component:</strong> React, Vue or Svelte component with size props and clipped children</li>
+          <li><strong>Web Component:</strong> <code>&lt;super-ellipse&gt;</code> that redraws from its width, height and exponent attributes</li>
+          <li><strong>Paint Worklet:</strong> <code>paint(superellipse)</code> mask driven by <code>--se-exp</code>, <code>--se-color</code> and per-corner properties, with a static fallback</li>
+          <li><strong>Tailwind:</strong> Plugin with <code>squircle-*</code> utilities, glow colors and your saved presets</li>
+          <li><strong>Design Tokens:</strong> W3C DTCG or Style Dictionary tokens for the current shape and all presets, importable from the Presets tab</li>
           <li><strong>JSON:</strong> Configuration for sharing and backup</li>
         </ul>
       </div>
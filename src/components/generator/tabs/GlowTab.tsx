@@ -1,8 +1,9 @@
-import React from 'react';
-import { Shuffle, Sun, Moon } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { Shuffle, Sun, Moon, AlertCircle } from 'lucide-react';
 import { SuperellipseState } from '../../../hooks/useSuperellipse';
 import { CustomSlider } from '../CustomSlider';
 import { HexColorPicker } from '../HexColorPicker';
+import { getMaxChroma } from '../../../utils/oklch';
 
 interface GlowTabProps {
   state: SuperellipseState;
@@ -15,6 +16,15 @@ interface GlowTabProps {
 export const GlowTab: React.FC<GlowTabProps> = ({ state, updateState, onRandomize, theme = 'dark', onThemeChange }) => {
   const color = `oklch(${state.lightness}% ${state.chroma} ${state.hue})`;
 
+  // Chroma past these limits shows differently on sRGB or P3 screens and in the hex color
+  const gamutLimits = useMemo(() => ({
+    srgb: getMaxChroma(state.lightness / 100, state.hue, 'srgb'),
+    p3: getMaxChroma(state.lightness / 100, state.hue, 'display-p3'),
+  }), [state.lightness, state.hue]);
+  const outsideSrgb = state.chroma - gamutLimits.srgb > 0.0005;
+  const outsideP3 = state.chroma - gamutLimits.p3 > 0.0005;
+  const fitLimit = outsideP3 ? gamutLimits.p3 : gamutLimits.srgb;
+
   const handleHexColorChange = (hue: number, chroma: number, lightness: number) => {
     updateState({ hue, chroma, lightness });
   };
@@ -93,7 +103,7 @@ export const GlowTab: React.FC<GlowTabProps> = ({ state, updateState, onRandomiz
         <div className="space-y-1.5">
           <div className="flex justify-between text-[10px] text-zinc-500">
             <label htmlFor="hue-slider">Hue</label>
-            <span aria-live="polite">{state.hue}°</span>
+            <span aria-live="polite">{Math.round(state.hue)}°</span>
           </div>
           <div className="relative h-4 rounded-full overflow-hidden">
             <div 
@@ -113,7 +123,7 @@ export const GlowTab: React.FC<GlowTabProps> = ({ state, updateState, onRandomiz
               aria-valuemin={0}
               aria-valuemax={360}
               aria-valuenow={state.hue}
-              aria-valuetext={`${state.hue} degrees`}
+              aria-valuetext={`${Math.round(state.hue)} degrees`}
             />
             <div
               className="absolute top-0 h-full border-r-2 border-white shadow-sm pointer-events-none"
@@ -149,7 +159,37 @@ export const GlowTab: React.FC<GlowTabProps> = ({ state, updateState, onRandomiz
               style={{ width: `${(state.chroma / 0.4) * 100}%` }}
               aria-hidden="true"
             />
+            {/* Gamut boundaries at the current lightness and hue */}
+            <div
+              className="absolute top-0 h-full w-0.5 bg-zinc-900/60 dark:bg-white/70 pointer-events-none"
+              style={{ left: `${(gamutLimits.srgb / 0.4) * 100}%` }}
+              aria-hidden="true"
+            />
+            <div
+              className="absolute top-0 h-full border-l-2 border-dashed border-zinc-900/60 dark:border-white/70 pointer-events-none"
+              style={{ left: `${(gamutLimits.p3 / 0.4) * 100}%` }}
+              aria-hidden="true"
+            />
+          </div>
+          <div className="flex gap-3 text-[10px] text-zinc-400 dark:text-zinc-500">
+            <span>sRGB ≤ {gamutLimits.srgb.toFixed(3)}</span>
+            <span>Display P3 ≤ {gamutLimits.p3.toFixed(3)}</span>
           </div>
+          {outsideSrgb && (
+            <div className="flex items-center justify-between gap-2 text-[10px] text-amber-600 dark:text-amber-400" role="status">
+              <span className="flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" aria-hidden="true" />
+                {outsideP3 ? 'Outside Display P3, screens show the nearest color' : 'Outside sRGB, hex shows the nearest color'}
+              </span>
+              <button
+                onClick={() => updateState({ chroma: Math.floor(fitLimit * 1000) / 1000 })}
+                className="px-2 py-0.5 rounded-md bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label={`Reduce chroma to the ${outsideP3 ? 'Display P3' : 'sRGB'} limit of ${fitLimit.toFixed(3)}`}
+              >
+                {outsideP3 ? 'Fit to P3' : 'Fit to sRGB'}
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="space-y-1.5">
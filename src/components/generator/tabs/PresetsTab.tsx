@@ -1,103 +1,26 @@
 import { useState, useMemo, useCallback } from 'react';
-import { Save, FolderOpen, Trash2, Download, Upload, Check, Search, Copy, AlertCircle, X } from 'lucide-react';
+import { Save, FolderOpen, Trash2, Download, Upload, Check, Search, Copy, AlertCircle, X, Link } from 'lucide-react';
+import { SuperellipseState } from '../../../hooks/useSuperellipse';
+import { MorphPanel } from '../MorphPanel';
+import { usePresets } from '../../../hooks/usePresets';
+import {
+  parseSuperellipseState,
+  serializeState,
+  encodeStateForUrl,
+  URL_STATE_PARAM,
+} from '@/lib/stateSchema';
+import { isDesignTokensFile, parseDesignTokens } from '@/utils/designTokens';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface SuperellipseState {
-  width: number;
-  height: number;
-  exp: number;
-  gradientStops: Array<{ color: string; position: number }>;
-  [key: string]: any;
-}
-
-interface Preset {
-  id: string;
-  name: string;
-  state: SuperellipseState;
-  createdAt: number;
-}
-
 interface PresetsTabProps {
   currentState: SuperellipseState;
   onLoadPreset: (state: SuperellipseState) => void;
+  onPreviewState?: (state: SuperellipseState | null) => void;
 }
 
-// ============================================================================
-// VALIDATION
-// ============================================================================
-
-const isValidSuperellipseState = (obj: any): obj is SuperellipseState => {
-  if (typeof obj !== 'object' || obj === null) return false;
-  if (typeof obj.width !== 'number' || obj.width <= 0 || obj.width > 10000) return false;
-  if (typeof obj.height !== 'number' || obj.height <= 0 || obj.height > 10000) return false;
-  if (typeof obj.exp !== 'number' || obj.exp < 0.5 || obj.exp > 10) return false;
-  if (!Array.isArray(obj.gradientStops)) return false;
-  
-  for (const stop of obj.gradientStops) {
-    if (typeof stop.color !== 'string' || typeof stop.position !== 'number') return false;
-    if (stop.position < 0 || stop.position > 100) return false;
-  }
-  
-  return true;
-};
-
-// ============================================================================
-// HOOKS (Mock implementation)
-// ============================================================================
-
-const usePresets = () => {
-  const [presets, setPresets] = useState<Preset[]>(() => {
-    try {
-      const stored = localStorage.getItem('superellipse-presets');
-      return stored ? JSON.parse(stored) : [];
-    } catch {
-      return [];
-    }
-  });
-
-  const savePreset = useCallback((name: string, state: SuperellipseState) => {
-    const newPreset: Preset = {
-      id: `preset-${Date.now()}-${Math.random()}`,
-      name,
-      state,
-      createdAt: Date.now(),
-    };
-    
-    try {
-      const updated = [...presets, newPreset];
-      localStorage.setItem('superellipse-presets', JSON.stringify(updated));
-      setPresets(updated);
-      return true;
-    } catch (error) {
-      console.error('Failed to save preset:', error);
-      return false;
-    }
-  }, [presets]);
-
-  const loadPreset = useCallback((id: string): SuperellipseState | null => {
-    const preset = presets.find(p => p.id === id);
-    return preset ? preset.state : null;
-  }, [presets]);
-
-  const deletePreset = useCallback((id: string) => {
-    const updated = presets.filter(p => p.id !== id);
-    localStorage.setItem('superellipse-presets', JSON.stringify(updated));
-    setPresets(updated);
-  }, [presets]);
-
-  const duplicatePreset = useCallback((id: string) => {
-    const preset = presets.find(p => p.id === id);
-    if (!preset) return;
-    
-    savePreset(`${preset.name} (copy)`, preset.state);
-  }, [presets, savePreset]);
-
-  return { presets, savePreset, loadPreset, deletePreset, duplicatePreset };
-};
-
 // ============================================================================
 // COMPONENTS
 // ============================================================================
@@ -147,8 +70,8 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
 // MAIN COMPONENT
 // ============================================================================
 
-export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
-  const { presets, savePreset, loadPreset, deletePreset, duplicatePreset } = usePresets();
+export const PresetsTab = ({ currentState, onLoadPreset, onPreviewState }: PresetsTabProps) => {
+  const { presets, savePreset, loadPreset, deletePreset, duplicatePreset, importPresets } = usePresets();
   
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [presetName, setPresetName] = useState('');
@@ -156,6 +79,7 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
   const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; presetId: string; presetName: string }>({
     isOpen: false,
     presetId: '',
@@ -202,9 +126,9 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
   }, [presetName, currentState, presets, savePreset]);
 
   const handleLoadPreset = useCallback((id: string) => {
-    const state = loadPreset(id);
-    if (state && isValidSuperellipseState(state)) {
-      onLoadPreset(state);
+    const result = parseSuperellipseState(loadPreset(id));
+    if (result.success) {
+      onLoadPreset(result.data);
       setShowPresetList(false);
     }
   }, [loadPreset, onLoadPreset]);
@@ -215,7 +139,7 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
   }, [deleteDialog, deletePreset]);
 
   const handleExportJSON = useCallback(() => {
-    const json = JSON.stringify(currentState, null, 2);
+    const json = JSON.stringify(serializeState(currentState), null, 2);
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -234,13 +158,27 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const json = e.target?.result as string;
-        const state = JSON.parse(json);
+        const data = JSON.parse(e.target?.result as string);
+
+        // Tokens files hold several shapes, so they become presets
+        if (isDesignTokensFile(data)) {
+          const tokens = parseDesignTokens(data);
+          if (!tokens.success) {
+            alert(`${tokens.error.message}. Please check the tokens file.`);
+          } else if (importPresets(tokens.data)) {
+            setShowPresetList(true);
+          } else {
+            alert('Failed to import presets. Storage might be full.');
+          }
+          return;
+        }
+
+        const result = parseSuperellipseState(data);
         
-        if (isValidSuperellipseState(state)) {
-          onLoadPreset(state);
+        if (result.success) {
+          onLoadPreset(result.data);
         } else {
-          alert('Invalid configuration file. Please check the file format.');
+          alert(`${result.error.message}. Please check the file format.`);
         }
       } catch {
         alert('Failed to import configuration. Invalid JSON file.');
@@ -248,7 +186,20 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
     };
     reader.readAsText(file);
     event.target.value = '';
-  }, [onLoadPreset]);
+  }, [onLoadPreset, importPresets]);
+
+  const handleCopyLink = useCallback(async () => {
+    const url = new URL(window.location.href);
+    url.hash = `${URL_STATE_PARAM}=${encodeStateForUrl(currentState)}`;
+
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  }, [currentState]);
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString(navigator.language || 'en-US', {
@@ -308,6 +259,14 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
         </label>
       </div>
 
+      <button
+        onClick={handleCopyLink}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+      >
+        {linkCopied ? <Check className="w-4 h-4 text-green-500" /> : <Link className="w-4 h-4" />}
+        {linkCopied ? 'Link copied' : 'Copy share link'}
+      </button>
+
       {/* Save Dialog */}
       {showSaveDialog && (
         <div className="p-3 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg space-y-3 animate-fade-in">
@@ -447,6 +406,9 @@ export const PresetsTab = ({ currentState, onLoadPreset }: PresetsTabProps) => {
         </div>
       )}
 
+      {/* Morph between two presets */}
+      {onPreviewState && <MorphPanel currentState={currentState} onFrame={onPreviewState} />}
+
       {/* Info */}
       <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
         <p className="text-[10px] text-blue-700 dark:text-blue-300 leading-relaxed">
@@ -1,9 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Lock, Unlock, ChevronDown, ChevronUp } from 'lucide-react';
-import { SuperellipseState, CornerExponents } from '../../../hooks/useSuperellipse';
+import { SuperellipseState, CornerExponents, PREVIEW_PATH_OPTIONS } from '../../../hooks/useSuperellipse';
 import { CornerControls } from '../CornerControls';
 import { PathPreview } from '../PathPreview';
-import { getSuperellipsePath, getAsymmetricSuperellipsePath } from '../../../utils/math';
+import { getStatePath, getShapeMetrics, CornerRadii, ShapeModel, SuperformulaParams } from '../../../utils/math';
 
 // ============================================================================
 // TYPES
@@ -23,6 +23,21 @@ const MAX_DIMENSION = 2000;
 const MIN_EXPONENT = 0.5;
 const MAX_EXPONENT = 10;
 
+const SHAPE_MODELS: { value: ShapeModel; label: string }[] = [
+  { value: 'exponent', label: 'Exponent' },
+  { value: 'smooth-corners', label: 'Radius + Smoothing' },
+  { value: 'superformula', label: 'Superformula' },
+];
+
+const SUPERFORMULA_PRESETS: { label: string; params: SuperformulaParams }[] = [
+  { label: 'Star', params: { m: 5, n1: 0.3, n2: 0.3, n3: 0.3 } },
+  { label: 'Flower', params: { m: 6, n1: 1, n2: 7, n3: 8 } },
+  { label: 'Blob', params: { m: 3, n1: 4.5, n2: 10, n3: 10 } },
+  { label: 'Gear', params: { m: 12, n1: 15, n2: 20, n3: 3 } },
+  { label: 'Cushion', params: { m: 4, n1: 12, n2: 15, n3: 15 } },
+  { label: 'Circle', params: { m: 0, n1: 1, n2: 1, n3: 1 } },
+];
+
 const SIZE_PRESETS = [
   { label: 'Tiny', w: 64, h: 64, category: 'icon' },
   { label: 'Small', w: 120, h: 120, category: 'icon' },
@@ -59,6 +74,13 @@ const getExponentDescription = (exp: number): string => {
   return 'Nearly perfect rectangle';
 };
 
+const getSmoothingDescription = (smoothing: number): string => {
+  if (smoothing === 0) return 'Plain rounded rectangle';
+  if (smoothing < 0.4) return 'Slightly softened corners';
+  if (smoothing < 0.7) return 'iOS-style continuous corners';
+  return 'Maximum smoothing';
+};
+
 // ============================================================================
 // COMPONENTS
 // ============================================================================
@@ -219,12 +241,63 @@ export const ShapeTab: React.FC<ShapeTabProps> = ({ state, updateState }) => {
   }, [state.width, state.height]);
 
   // Compute path data for preview
-  const pathData = useMemo(() => {
-    if (state.useAsymmetricCorners && state.cornerExponents) {
-      return getAsymmetricSuperellipsePath(state.width, state.height, state.cornerExponents);
-    }
-    return getSuperellipsePath(state.width, state.height, state.exp);
-  }, [state.width, state.height, state.exp, state.useAsymmetricCorners, state.cornerExponents]);
+  const pathData = useMemo(() => getStatePath(
+    {
+      width: state.width,
+      height: state.height,
+      exp: state.exp,
+      smoothing: state.smoothing,
+      shapeModel: state.shapeModel,
+      cornerRadius: state.cornerRadius,
+      cornerSmoothing: state.cornerSmoothing,
+      superformula: state.superformula,
+      useAsymmetricCorners: state.useAsymmetricCorners,
+      cornerExponents: state.cornerExponents,
+      cornerBlend: state.cornerBlend,
+      useCornerRadii: state.useCornerRadii,
+      cornerRadii: state.cornerRadii,
+    },
+    PREVIEW_PATH_OPTIONS
+  ), [
+    state.width,
+    state.height,
+    state.exp,
+    state.smoothing,
+    state.shapeModel,
+    state.cornerRadius,
+    state.cornerSmoothing,
+    state.superformula,
+    state.useAsymmetricCorners,
+    state.cornerExponents,
+    state.cornerBlend,
+    state.useCornerRadii,
+    state.cornerRadii,
+  ]);
+
+  // Area, perimeter and fill ratio for matching the visual weight of icons
+  const metrics = useMemo(() => getShapeMetrics({
+    width: state.width,
+    height: state.height,
+    exp: state.exp,
+    smoothing: state.smoothing,
+    shapeModel: state.shapeModel,
+    useAsymmetricCorners: state.useAsymmetricCorners,
+    cornerExponents: state.cornerExponents,
+    cornerBlend: state.cornerBlend,
+    useCornerRadii: state.useCornerRadii,
+    cornerRadii: state.cornerRadii,
+  }), [
+    state.width,
+    state.height,
+    state.exp,
+    state.smoothing,
+    state.shapeModel,
+    state.useAsymmetricCorners,
+    state.cornerExponents,
+    state.cornerBlend,
+    state.useCornerRadii,
+    state.cornerRadii,
+  ]);
 
   // Debounced dimension update
   const updateDimensions = useCallback((width: number, height: number) => {
@@ -275,7 +348,25 @@ export const ShapeTab: React.FC<ShapeTabProps> = ({ state, updateState }) => {
     });
   }, [state.cornerExponents, updateState]);
 
+  const handleCornerRadiusChange = useCallback((corner: keyof CornerRadii, value: number) => {
+    updateState({
+      cornerRadii: {
+        ...state.cornerRadii,
+        [corner]: value,
+      },
+    });
+  }, [state.cornerRadii, updateState]);
+
   const exponentDescription = useMemo(() => getExponentDescription(state.exp), [state.exp]);
+  const smoothingDescription = useMemo(() => getSmoothingDescription(state.cornerSmoothing), [state.cornerSmoothing]);
+  const maxCornerRadius = Math.floor(Math.min(state.width, state.height) / 2);
+  const isSmoothCorners = state.shapeModel === 'smooth-corners';
+  const isSuperformula = state.shapeModel === 'superformula';
+  const isExponent = !isSmoothCorners && !isSuperformula;
+
+  const updateSuperformula = useCallback((updates: Partial<SuperformulaParams>) => {
+    updateState({ superformula: { ...state.superformula, ...updates } });
+  }, [state.superformula, updateState]);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -347,42 +438,157 @@ export const ShapeTab: React.FC<ShapeTabProps> = ({ state, updateState }) => {
       {/* Curvature */}
       <CollapsibleSection title="Curvature" defaultOpen={true}>
         <div className="space-y-3">
-          <CustomSlider
-            label="Exponent (n)"
-            value={state.exp}
-            min={MIN_EXPONENT}
-            max={MAX_EXPONENT}
-            step={0.1}
-            onChange={(val) => updateState({ exp: val })}
-            description={exponentDescription}
-          />
-          <div className="p-2 bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-100 dark:border-zinc-800">
-            <p className="text-[10px] text-zinc-600 dark:text-zinc-400 leading-relaxed">
-              <strong>n=2:</strong> Perfect ellipse
-              <br />
-              <strong>n≈4:</strong> iOS-style squircle
-              <br />
-              <strong>Higher values:</strong> More rectangular
-            </p>
+          <div className="grid grid-cols-3 gap-2" role="group" aria-label="Shape model">
+            {SHAPE_MODELS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => updateState({ shapeModel: value })}
+                className={`px-2 py-2 text-[11px] font-medium rounded-lg transition-all ${
+                  state.shapeModel === value
+                    ? 'bg-indigo-500 text-white shadow-md'
+                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                }`}
+                aria-pressed={state.shapeModel === value}
+              >
+                {label}
+              </button>
+            ))}
           </div>
+
+          {isSuperformula && (
+            <>
+              <CustomSlider
+                label="Symmetry (m)"
+                value={state.superformula.m}
+                min={0}
+                max={20}
+                step={1}
+                onChange={(val) => updateSuperformula({ m: val })}
+                description="Number of lobes or points"
+              />
+              <CustomSlider
+                label="Pinch (n1)"
+                value={state.superformula.n1}
+                min={0.1}
+                max={20}
+                step={0.1}
+                onChange={(val) => updateSuperformula({ n1: val })}
+                description="Low values give spiky stars, high values bloat the shape"
+              />
+              <CustomSlider
+                label="n2"
+                value={state.superformula.n2}
+                min={0}
+                max={20}
+                step={0.1}
+                onChange={(val) => updateSuperformula({ n2: val })}
+              />
+              <CustomSlider
+                label="n3"
+                value={state.superformula.n3}
+                min={0}
+                max={20}
+                step={0.1}
+                onChange={(val) => updateSuperformula({ n3: val })}
+              />
+              <div className="grid grid-cols-3 gap-2">
+                {SUPERFORMULA_PRESETS.map(({ label, params }) => (
+                  <button
+                    key={label}
+                    onClick={() => updateState({ superformula: params })}
+                    className="px-2 py-1.5 text-[10px] font-medium bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {isSmoothCorners && (
+            <>
+              <CustomSlider
+                label="Corner Radius (px)"
+                value={Math.min(state.cornerRadius, maxCornerRadius)}
+                min={0}
+                max={maxCornerRadius}
+                step={1}
+                onChange={(val) => updateState({ cornerRadius: val })}
+              />
+              <CustomSlider
+                label="Smoothing (%)"
+                value={Math.round(state.cornerSmoothing * 100)}
+                min={0}
+                max={100}
+                step={1}
+                onChange={(val) => updateState({ cornerSmoothing: val / 100 })}
+                description={smoothingDescription}
+              />
+              <div className="p-2 bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-100 dark:border-zinc-800">
+                <p className="text-[10px] text-zinc-600 dark:text-zinc-400 leading-relaxed">
+                  <strong>0%:</strong> Circular arcs, like border-radius
+                  <br />
+                  <strong>60%:</strong> iOS continuous corners
+                  <br />
+                  Matches Figma&apos;s corner smoothing spec
+                </p>
+              </div>
+            </>
+          )}
+
+          {isExponent && (
+            <>
+              <CustomSlider
+                label="Exponent (n)"
+                value={state.exp}
+                min={MIN_EXPONENT}
+                max={MAX_EXPONENT}
+                step={0.1}
+                onChange={(val) => updateState({ exp: val })}
+                description={exponentDescription}
+              />
+              <div className="p-2 bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-100 dark:border-zinc-800">
+                <p className="text-[10px] text-zinc-600 dark:text-zinc-400 leading-relaxed">
+                  <strong>n=2:</strong> Perfect ellipse
+                  <br />
+                  <strong>n≈4:</strong> iOS-style squircle
+                  <br />
+                  <strong>Higher values:</strong> More rectangular
+                </p>
+              </div>
+            </>
+          )}
         </div>
       </CollapsibleSection>
 
       <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
 
-      {/* Asymmetric Corners */}
-      <CollapsibleSection title="Corner Control" defaultOpen={false}>
-        <CornerControls
-          useAsymmetric={state.useAsymmetricCorners || false}
-          uniformExp={state.exp}
-          cornerExponents={state.cornerExponents || { topLeft: 4, topRight: 4, bottomLeft: 4, bottomRight: 4 }}
-          onToggleAsymmetric={(val) => updateState({ useAsymmetricCorners: val })}
-          onUniformChange={(val) => updateState({ exp: val })}
-          onCornerChange={handleCornerChange}
-        />
-      </CollapsibleSection>
-
-      <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
+      {/* Asymmetric Corners (exponent model only) */}
+      {isExponent && (
+        <>
+          <CollapsibleSection title="Corner Control" defaultOpen={false}>
+            <CornerControls
+              useAsymmetric={state.useAsymmetricCorners || false}
+              uniformExp={state.exp}
+              cornerExponents={state.cornerExponents || { topLeft: 4, topRight: 4, bottomLeft: 4, bottomRight: 4 }}
+              smoothing={state.smoothing}
+              cornerBlend={state.cornerBlend}
+              useCornerRadii={state.useCornerRadii}
+              cornerRadii={state.cornerRadii}
+              maxCornerRadius={Math.min(state.width, state.height)}
+              onToggleAsymmetric={(val) => updateState({ useAsymmetricCorners: val })}
+              onUniformChange={(val) => updateState({ exp: val })}
+              onCornerChange={handleCornerChange}
+              onSmoothingChange={(val) => updateState({ smoothing: val })}
+              onCornerBlendChange={(val) => updateState({ cornerBlend: val })}
+              onToggleCornerRadii={(val) => updateState({ useCornerRadii: val })}
+              onCornerRadiusChange={handleCornerRadiusChange}
+            />
+          </CollapsibleSection>
+
+          <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
+        </>
+      )}
 
       {/* Path Preview */}
       <CollapsibleSection title="Path Preview" defaultOpen={true}>
@@ -392,8 +598,39 @@ export const ShapeTab: React.FC<ShapeTabProps> = ({ state, updateState }) => {
           exp={state.exp}
           useAsymmetric={state.useAsymmetricCorners || false}
           cornerExponents={state.cornerExponents || { topLeft: 4, topRight: 4, bottomLeft: 4, bottomRight: 4 }}
+          cornerRadii={state.useAsymmetricCorners && state.useCornerRadii ? state.cornerRadii : undefined}
           pathData={pathData}
+          showCornerPoints={isExponent}
         />
+        {metrics ? (
+          <div className="grid grid-cols-3 gap-2" aria-label="Shape measurements">
+            <div className="p-2 bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-100 dark:border-zinc-800">
+              <p className="text-[10px] text-zinc-500">Area</p>
+              <p className="text-xs font-mono text-zinc-800 dark:text-zinc-200">
+                {Math.round(metrics.area).toLocaleString()} px²
+              </p>
+            </div>
+            <div className="p-2 bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-100 dark:border-zinc-800">
+              <p className="text-[10px] text-zinc-500">Perimeter</p>
+              <p className="text-xs font-mono text-zinc-800 dark:text-zinc-200">
+                {metrics.perimeter.toFixed(1)} px
+              </p>
+            </div>
+            <div
+              className="p-2 bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-100 dark:border-zinc-800"
+              title="Share of the bounding box covered by the shape"
+            >
+              <p className="text-[10px] text-zinc-500">Fill ratio</p>
+              <p className="text-xs font-mono text-zinc-800 dark:text-zinc-200">
+                {(metrics.fillRatio * 100).toFixed(1)}%
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-[10px] text-zinc-500 px-1">
+            Area and perimeter are available for exponent-based shapes.
+          </p>
+        )}
       </CollapsibleSection>
 
       <div className="h-px bg-zinc-100 dark:bg-zinc-800" />
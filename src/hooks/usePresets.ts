@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { SuperellipseState } from './useSuperellipse';
 import { 
   createStorageError, 
@@ -7,6 +7,7 @@ import {
   StorageError,
   ErrorCode 
 } from '@/lib/errors';
+import { parseSuperellipseState } from '@/lib/stateSchema';
 
 export type Preset = {
   id: string;
@@ -20,10 +21,68 @@ const STORAGE_KEY = 'superellipse-presets';
 // In-memory fallback for when localStorage is unavailable
 let memoryStorage: Preset[] = [];
 
+// Mounted hooks, handed every written list so they all show the same presets
+const listeners = new Set<(presets: Preset[]) => void>();
+
+/**
+ * Preset to add: a name and a state, as saved or imported
+ */
+export interface PresetInput {
+  name: string;
+  state: SuperellipseState;
+}
+
+/**
+ * Stored preset list: presets that validate, with migrated states, and the
+ * raw entries that do not
+ */
+export interface StoredPresets {
+  presets: Preset[];
+  invalid: unknown[];
+}
+
+/**
+ * Read saved presets from localStorage, migrating their states. Entries that
+ * no longer validate are kept aside as they are, so writing the list back
+ * never deletes them.
+ * @throws Error when the stored data is not a preset list
+ */
+export function readStoredPresetList(): StoredPresets {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return { presets: [], invalid: [] };
+
+  const parsed = JSON.parse(stored);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid preset data structure');
+  }
+
+  const list: StoredPresets = { presets: [], invalid: [] };
+  parsed.forEach((preset: Preset) => {
+    const result = parseSuperellipseState(preset?.state);
+    if (result.success) {
+      list.presets.push({ ...preset, state: result.data });
+    } else {
+      logError(result.error, { presetId: preset?.id });
+      list.invalid.push(preset);
+    }
+  });
+  return list;
+}
+
+/**
+ * Write the preset list, followed by the untouched entries that failed validation
+ * @throws Error when localStorage refuses the write
+ */
+export function writeStoredPresets(presets: Preset[], invalid: unknown[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...presets, ...invalid]));
+}
+
 export function usePresets() {
   const [presets, setPresets] = useState<Preset[]>([]);
   const [error, setError] = useState<StorageError | null>(null);
   const [storageAvailable, setStorageAvailable] = useState<boolean>(true);
+  // Stored entries that fail validation, written back with every save
+  const invalidRef = useRef<unknown[]>([]);
 
   // Check storage availability on mount
   useEffect(() => {
@@ -49,18 +108,10 @@ export function usePresets() {
         return;
       }
 
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        
-        // Validate preset data structure
-        if (Array.isArray(parsed)) {
-          setPresets(parsed);
-          memoryStorage = parsed; // Sync with memory storage
-        } else {
-          throw new Error('Invalid preset data structure');
-        }
-      }
+      const { presets: stored, invalid } = readStoredPresetList();
+      invalidRef.current = invalid;
+      setPresets(stored);
+      memoryStorage = stored; // Sync with memory storage
     } catch (err) {
       const storageError = createStorageError('load', err as Error);
       setError(storageError);
@@ -71,79 +122,64 @@ export function usePresets() {
     }
   }, [storageAvailable]);
 
-  // Save presets to storage
+  // Follow writes made through any mounted hook
   useEffect(() => {
-    if (presets.length === 0 && !storageAvailable) {
-      // Don't try to save empty presets on initial load
-      return;
-    }
+    listeners.add(setPresets);
+    return () => {
+      listeners.delete(setPresets);
+    };
+  }, []);
 
+  // Write a new list, keeping the stored entries that fail validation
+  const commit = useCallback((next: Preset[], operation: string): boolean => {
     try {
-      if (!storageAvailable) {
-        // Use in-memory fallback
-        memoryStorage = presets;
-        return;
-      }
-
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
-      memoryStorage = presets; // Keep memory storage in sync
-      
-      // Clear error if save succeeds
-      if (error) {
+      if (storageAvailable) {
+        writeStoredPresets(next, invalidRef.current);
         setError(null);
       }
+      memoryStorage = next;
+      listeners.forEach(listener => listener(next));
+      return true;
     } catch (err) {
-      const storageError = createStorageError('save', err as Error);
+      const storageError = createStorageError(operation, err as Error);
       setError(storageError);
       logError(storageError);
-      
-      // Fallback to memory storage
-      memoryStorage = presets;
+      return false;
     }
-  }, [presets, storageAvailable, error]);
+  }, [storageAvailable]);
 
-  const savePreset = useCallback((name: string, state: SuperellipseState): Preset | null => {
-    try {
-      const preset: Preset = {
-        id: `preset-${Date.now()}`,
-        name,
-        state,
-        createdAt: Date.now(),
-      };
-      
-      setPresets(prev => [...prev, preset]);
-      return preset;
-    } catch (err) {
-      const storageError = createStorageError('savePreset', err as Error);
-      setError(storageError);
-      logError(storageError);
-      return null;
-    }
-  }, []);
+  const addPresets = useCallback((inputs: PresetInput[], operation: string): Preset[] | null => {
+    const now = Date.now();
+    const added = inputs.map((input, index): Preset => ({
+      id: `preset-${now}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+      name: input.name,
+      state: input.state,
+      createdAt: now,
+    }));
+    return commit([...presets, ...added], operation) ? added : null;
+  }, [presets, commit]);
+
+  const savePreset = useCallback((name: string, state: SuperellipseState): Preset | null => (
+    addPresets([{ name, state }], 'savePreset')?.[0] ?? null
+  ), [addPresets]);
+
+  const importPresets = useCallback((inputs: PresetInput[]): boolean => (
+    addPresets(inputs, 'importPresets') !== null
+  ), [addPresets]);
+
+  const duplicatePreset = useCallback((id: string): Preset | null => {
+    const preset = presets.find(p => p.id === id);
+    return preset ? savePreset(`${preset.name} (copy)`, preset.state) : null;
+  }, [presets, savePreset]);
 
   const loadPreset = useCallback((id: string): SuperellipseState | null => {
-    try {
-      const preset = presets.find(p => p.id === id);
-      return preset ? preset.state : null;
-    } catch (err) {
-      const storageError = createStorageError('loadPreset', err as Error);
-      setError(storageError);
-      logError(storageError);
-      return null;
-    }
+    const preset = presets.find(p => p.id === id);
+    return preset ? preset.state : null;
   }, [presets]);
 
-  const deletePreset = useCallback((id: string): boolean => {
-    try {
-      setPresets(prev => prev.filter(p => p.id !== id));
-      return true;
-    } catch (err) {
-      const storageError = createStorageError('deletePreset', err as Error);
-      setError(storageError);
-      logError(storageError);
-      return false;
-    }
-  }, []);
+  const deletePreset = useCallback((id: string): boolean => (
+    commit(presets.filter(p => p.id !== id), 'deletePreset')
+  ), [presets, commit]);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -154,6 +190,8 @@ export function usePresets() {
     savePreset,
     loadPreset,
     deletePreset,
+    duplicatePreset,
+    importPresets,
     error,
     clearError,
     storageAvailable,
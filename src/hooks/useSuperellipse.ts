@@ -1,144 +1,99 @@
 import { useState, useMemo } from 'react';
-import { getSuperellipsePath, getAsymmetricSuperellipsePath } from '../utils/math';
+import { getStatePath, PathOptions } from '../utils/math';
+import {
+  DEFAULT_STATE,
+  URL_STATE_PARAM,
+  decodeStateFromUrl,
+  type SuperellipseState,
+  type GradientStop,
+} from '@/lib/stateSchema';
+import { logError } from '@/lib/errors';
+import { getMaxChroma, oklchToHex } from '../utils/oklch';
 
-export type GradientStop = {
-  color: string;
-  position: number;
-};
+export type { SuperellipseState, GradientStop, CornerExponents } from '@/lib/stateSchema';
 
-export interface CornerExponents {
-  topLeft: number;
-  topRight: number;
-  bottomRight: number;
-  bottomLeft: number;
-}
+// Curvature-aware sampling keeps corners smooth at any size without a huge point count
+export const PREVIEW_PATH_OPTIONS: PathOptions = {
+  sampling: 'adaptive',
+  maxChordError: 0.25,
+};
 
-export interface SuperellipseState {
-  // Dimensions
-  width: number;
-  height: number;
-  exp: number;
-  smoothing: number;
-  
-  // Asymmetric corners
-  useAsymmetricCorners: boolean;
-  cornerExponents: CornerExponents;
-  
-  // Colors
-  colorMode: 'solid' | 'linear' | 'radial' | 'conic';
-  solidColor: string;
-  solidOpacity: number;
-  gradientStops: GradientStop[];
-  gradientAngle: number;
-  
-  // Glow (OKLCH)
-  enabled: boolean;
-  hue: number;
-  chroma: number;
-  lightness: number;
-  glowMaskSize: number;
-  glowScale: number;
-  glowPositionX: number;
-  glowPositionY: number;
-  glowOpacity: number;
-  glowBlur: number;
-  glowSpread: number;
-  
-  // Effects
-  blur: number;
-  backdropBlur: number;
-  noiseEnabled: boolean;
-  noiseIntensity: number;
-  
-  // Border/Stroke
-  borderEnabled: boolean;
-  strokeColor: string;
-  strokeWidth: number;
-  strokePosition: 'inside' | 'center' | 'outside';
-  strokeStyle: 'solid' | 'dashed' | 'dotted';
-  strokeOpacity: number;
-  
-  // Shadow
-  shadowDistance: number;
-  shadowIntensity: number;
-}
+/**
+ * Read a shared configuration from the `#state=` URL hash, ignoring it
+ * when it does not validate
+ */
+function getInitialState(): SuperellipseState {
+  if (typeof window === 'undefined') return DEFAULT_STATE;
 
-const DEFAULT_STATE: SuperellipseState = {
-  width: 320,
-  height: 400,
-  exp: 4.0,
-  smoothing: 0.5,
-  
-  useAsymmetricCorners: false,
-  cornerExponents: {
-    topLeft: 4.0,
-    topRight: 4.0,
-    bottomRight: 4.0,
-    bottomLeft: 4.0,
-  },
-  
-  colorMode: 'solid',
-  solidColor: '#FF9F00',
-  solidOpacity: 100,
-  gradientStops: [
-    { color: '#6366F1', position: 0 },
-    { color: '#A855F7', position: 50 },
-    { color: '#EC4899', position: 100 },
-  ],
-  gradientAngle: 135,
-  
-  enabled: true,
-  hue: 40,
-  chroma: 0.18,
-  lightness: 78,
-  glowMaskSize: 0.3,
-  glowScale: 0.9,
-  glowPositionX: -590,
-  glowPositionY: -1070,
-  glowOpacity: 100,
-  glowBlur: 120,
-  glowSpread: 40,
-  
-  blur: 0,
-  backdropBlur: 0,
-  noiseEnabled: true,
-  noiseIntensity: 35,
-  
-  borderEnabled: false,
-  strokeColor: '#FFFFFF',
-  strokeWidth: 2,
-  strokePosition: 'inside',
-  strokeStyle: 'solid',
-  strokeOpacity: 100,
-  
-  shadowDistance: 10,
-  shadowIntensity: 30,
-};
+  const encoded = new URLSearchParams(window.location.hash.slice(1)).get(URL_STATE_PARAM);
+  if (!encoded) return DEFAULT_STATE;
 
-function hslToHex(h: number, s: number, l: number): string {
-  l /= 100;
-  const a = (s * Math.min(l, 1 - l)) / 100;
-  const f = (n: number) => {
-    const k = (n + h / 30) % 12;
-    const color = l - a * Math.max(Math.min(k - 3, 9 - k, 1), -1);
-    return Math.round(255 * color).toString(16).padStart(2, '0');
-  };
-  return `#${f(0)}${f(8)}${f(4)}`.toUpperCase();
+  const result = decodeStateFromUrl(encoded);
+  if (!result.success) {
+    logError(result.error, { source: 'url-hash' });
+    return DEFAULT_STATE;
+  }
+  return result.data;
 }
 
 export function useSuperellipse() {
-  const [state, setState] = useState<SuperellipseState>(DEFAULT_STATE);
+  const [state, setState] = useState<SuperellipseState>(getInitialState);
+  // Shown in the preview instead of the state, e.g. while a morph plays
+  const [previewOverride, setPreviewOverride] = useState<SuperellipseState | null>(null);
+
+  const {
+    width,
+    height,
+    exp,
+    smoothing,
+    shapeModel,
+    cornerRadius,
+    cornerSmoothing,
+    superformula,
+    useAsymmetricCorners,
+    cornerExponents,
+    cornerBlend,
+    useCornerRadii,
+    cornerRadii,
+  } = state;
+
+  const pathData = useMemo(() => getStatePath(
+    {
+      width,
+      height,
+      exp,
+      smoothing,
+      shapeModel,
+      cornerRadius,
+      cornerSmoothing,
+      superformula,
+      useAsymmetricCorners,
+      cornerExponents,
+      cornerBlend,
+      useCornerRadii,
+      cornerRadii,
+    },
+    PREVIEW_PATH_OPTIONS
+  ), [
+    width,
+    height,
+    exp,
+    smoothing,
+    shapeModel,
+    cornerRadius,
+    cornerSmoothing,
+    superformula,
+    useAsymmetricCorners,
+    cornerExponents,
+    cornerBlend,
+    useCornerRadii,
+    cornerRadii,
+  ]);
 
-  const pathData = useMemo(() => {
-    if (state.useAsymmetricCorners) {
-      return getAsymmetricSuperellipsePath(
-        state.width, 
-        state.height, 
-        state.cornerExponents
-      );
-    }
-    return getSuperellipsePath(state.width, state.height, state.exp);
-  }, [state.width, state.height, state.exp, state.useAsymmetricCorners, state.cornerExponents]);
+  const previewPathData = useMemo(
+    () => (previewOverride ? getStatePath(previewOverride, PREVIEW_PATH_OPTIONS) : pathData),
+    [previewOverride, pathData]
+  );
 
   const updateState = (updates: Partial<SuperellipseState>) => {
     setState(prev => ({ ...prev, ...updates }));
@@ -161,9 +116,11 @@ export function useSuperellipse() {
   const randomizeGlow = () => {
     const randomH = Math.floor(Math.random() * 360);
     const randomL = 60 + Math.random() * 30;
-    const randomC = 0.1 + Math.random() * 0.2;
+    // Stay inside sRGB so the preview and the hex fill show the same color
+    const maxC = getMaxChroma(randomL / 100, randomH);
+    const randomC = Math.min(maxC, 0.1 + Math.random() * 0.2);
     
-    const hex = hslToHex(randomH, 80, 60);
+    const hex = oklchToHex({ l: randomL / 100, c: randomC, h: randomH }).toUpperCase();
     
     updateState({
       hue: randomH,
@@ -183,6 +140,9 @@ export function useSuperellipse() {
     resetState,
     loadState,
     randomizeGlow,
-    pathData 
+    pathData,
+    previewState: previewOverride ?? state,
+    previewPathData,
+    setPreviewOverride,
   };
 }
@@ -12,6 +12,8 @@ export enum ErrorCode {
   E_INVALID_DIMENSIONS = 'E_INVALID_DIMENSIONS',
   E_INVALID_EXPONENT = 'E_INVALID_EXPONENT',
   E_INVALID_GRADIENT = 'E_INVALID_GRADIENT',
+  E_INVALID_FILENAME_PATTERN = 'E_INVALID_FILENAME_PATTERN',
+  E_INVALID_IMAGE = 'E_INVALID_IMAGE',
   
   // Export errors
   E_EXPORT_FAILED = 'E_EXPORT_FAILED',
@@ -19,6 +21,7 @@ export enum ErrorCode {
   E_PNG_GENERATION_FAILED = 'E_PNG_GENERATION_FAILED',
   E_CANVAS_NOT_SUPPORTED = 'E_CANVAS_NOT_SUPPORTED',
   E_BLOB_CREATION_FAILED = 'E_BLOB_CREATION_FAILED',
+  E_IMAGE_FORMAT_NOT_SUPPORTED = 'E_IMAGE_FORMAT_NOT_SUPPORTED',
   
   // Storage errors
   E_STORAGE_FAILED = 'E_STORAGE_FAILED',
@@ -132,6 +135,14 @@ const ERROR_MESSAGES: Record<ErrorCode, { message: string; hint?: string }> = {
     message: 'Invalid gradient configuration',
     hint: 'Check your gradient stops and positions',
   },
+  [ErrorCode.E_INVALID_FILENAME_PATTERN]: {
+    message: 'Invalid file name pattern',
+    hint: 'Use tokens like {name}, {label} and {ext}',
+  },
+  [ErrorCode.E_INVALID_IMAGE]: {
+    message: 'Could not read colors from this image',
+    hint: 'Use a PNG, JPEG, WebP or GIF with some opaque pixels',
+  },
 
   // Export errors
   [ErrorCode.E_EXPORT_FAILED]: {
@@ -154,6 +165,10 @@ const ERROR_MESSAGES: Record<ErrorCode, { message: string; hint?: string }> = {
     message: 'Failed to create download file',
     hint: 'Try again or clear browser cache',
   },
+  [ErrorCode.E_IMAGE_FORMAT_NOT_SUPPORTED]: {
+    message: 'Your browser can\'t encode this image format',
+    hint: 'Use PNG, or try another browser for WebP and AVIF',
+  },
 
   // Storage errors
   [ErrorCode.E_STORAGE_FAILED]: {
@@ -295,6 +310,18 @@ export function createInvalidRgbError(r: number, g: number, b: number): Validati
   );
 }
 
+/**
+ * Create a validation error for a configuration that fails the state schema
+ */
+export function createInvalidStateError(details: string, originalError?: Error): ValidationError {
+  return new ValidationError(
+    `Invalid configuration: ${details}`,
+    ErrorCode.E_INVALID_PRESET_DATA,
+    originalError,
+    { details }
+  );
+}
+
 /**
  * Create an export error for PNG generation failure
  */
@@ -317,6 +344,43 @@ export function createSvgExportError(originalError?: Error): ExportError {
   );
 }
 
+/**
+ * Create an export error for a raster format the browser cannot encode
+ */
+export function createImageFormatError(format: string): ExportError {
+  return new ExportError(
+    `Image format not supported: ${format}`,
+    ErrorCode.E_IMAGE_FORMAT_NOT_SUPPORTED,
+    undefined,
+    { format }
+  );
+}
+
+/**
+ * Create a validation error for an export file name pattern
+ */
+export function createInvalidFilenamePatternError(pattern: string, details: string): ValidationError {
+  return new ValidationError(
+    `Invalid file name pattern "${pattern}": ${details}`,
+    ErrorCode.E_INVALID_FILENAME_PATTERN,
+    undefined,
+    { pattern, details }
+  );
+}
+
+/**
+ * Create a validation error for an image that cannot be decoded or has no
+ * opaque pixels to take colors from
+ */
+export function createInvalidImageError(filename: string, originalError?: Error): ValidationError {
+  return new ValidationError(
+    `Invalid image: ${filename}`,
+    ErrorCode.E_INVALID_IMAGE,
+    originalError,
+    { filename }
+  );
+}
+
 /**
  * Create a storage error for localStorage failures
  */
@@ -0,0 +1,253 @@
+// ============================================================================
+// SUPERELLIPSE STATE SCHEMA
+// ============================================================================
+
+import { z } from 'zod';
+import { createInvalidStateError, ValidationError } from './errors';
+
+/**
+ * Current version of the serialized state. Bump it and add a migration
+ * whenever a stored field changes meaning or shape.
+ */
+export const STATE_VERSION = 2;
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const unit = z.number().min(0).max(1);
+const percent = z.number().min(0).max(100);
+const exponent = z.number().min(0.5).max(10);
+
+export const GradientStopSchema = z.object({
+  color: z.string(),
+  position: percent,
+});
+
+export const CornerExponentsSchema = z.object({
+  topLeft: exponent,
+  topRight: exponent,
+  bottomRight: exponent,
+  bottomLeft: exponent,
+});
+
+export const CornerRadiiSchema = z.object({
+  topLeft: z.number().min(0),
+  topRight: z.number().min(0),
+  bottomRight: z.number().min(0),
+  bottomLeft: z.number().min(0),
+});
+
+export const SuperformulaSchema = z.object({
+  m: z.number().min(0),
+  n1: z.number().positive(),
+  n2: z.number().min(0),
+  n3: z.number().min(0),
+});
+
+export const ShapeModelSchema = z.enum(['exponent', 'smooth-corners', 'superformula']);
+export const CornerBlendCurveSchema = z.enum(['linear', 'smoothstep', 'cosine']);
+
+/**
+ * Every field carries its default, so parsing `{}` yields the initial state
+ * and older configurations pick up fields added since they were saved
+ */
+export const SuperellipseStateSchema = z.object({
+  // Dimensions
+  width: z.number().positive().max(10000).default(320),
+  height: z.number().positive().max(10000).default(400),
+  exp: exponent.default(4.0),
+  smoothing: unit.default(0.5),
+
+  // Shape model
+  shapeModel: ShapeModelSchema.default('exponent'),
+  cornerRadius: z.number().min(0).default(64),
+  cornerSmoothing: unit.default(0.6),
+  superformula: SuperformulaSchema.default({ m: 5, n1: 0.3, n2: 0.3, n3: 0.3 }),
+
+  // Asymmetric corners
+  useAsymmetricCorners: z.boolean().default(false),
+  cornerExponents: CornerExponentsSchema.default({
+    topLeft: 4.0,
+    topRight: 4.0,
+    bottomRight: 4.0,
+    bottomLeft: 4.0,
+  }),
+  cornerBlend: CornerBlendCurveSchema.default('smoothstep'),
+  useCornerRadii: z.boolean().default(false),
+  cornerRadii: CornerRadiiSchema.default({
+    topLeft: 80,
+    topRight: 80,
+    bottomRight: 80,
+    bottomLeft: 80,
+  }),
+
+  // Colors
+  colorMode: z.enum(['solid', 'linear', 'radial', 'conic']).default('solid'),
+  solidColor: z.string().default('#FF9F00'),
+  solidOpacity: percent.default(100),
+  gradientStops: z.array(GradientStopSchema).default([
+    { color: '#6366F1', position: 0 },
+    { color: '#A855F7', position: 50 },
+    { color: '#EC4899', position: 100 },
+  ]),
+  gradientAngle: z.number().default(135),
+  gradientCenterX: percent.default(50), // Radial and conic centre, % of the box
+  gradientCenterY: percent.default(50),
+  gradientRadius: z.number().positive().max(200).default(100), // % of the farthest-corner distance
+  gradientFocalX: z.number().min(-100).max(100).default(0), // Radial focal offset, % of the radius
+  gradientFocalY: z.number().min(-100).max(100).default(0),
+
+  // Glow (OKLCH)
+  enabled: z.boolean().default(true),
+  hue: z.number().default(40),
+  chroma: z.number().min(0).default(0.18),
+  lightness: percent.default(78),
+  glowMaskSize: z.number().min(0).default(0.3),
+  glowScale: z.number().positive().default(0.9),
+  glowPositionX: z.number().default(-590),
+  glowPositionY: z.number().default(-1070),
+  glowOpacity: percent.default(100),
+  glowBlur: z.number().min(0).default(120),
+  glowSpread: z.number().min(0).default(40),
+
+  // Effects
+  blur: z.number().min(0).default(0),
+  backdropBlur: z.number().min(0).default(0),
+  noiseEnabled: z.boolean().default(true),
+  noiseIntensity: percent.default(35),
+
+  // Border/Stroke
+  borderEnabled: z.boolean().default(false),
+  strokeColor: z.string().default('#FFFFFF'),
+  strokeWidth: z.number().min(0).default(2),
+  strokePosition: z.enum(['inside', 'center', 'outside']).default('inside'),
+  strokeStyle: z.enum(['solid', 'dashed', 'dotted']).default('solid'),
+  strokeOpacity: percent.default(100),
+
+  // Shadow
+  shadowDistance: z.number().default(10),
+  shadowIntensity: percent.default(30),
+});
+
+export type SuperellipseState = z.infer<typeof SuperellipseStateSchema>;
+export type GradientStop = z.infer<typeof GradientStopSchema>;
+export type CornerExponents = z.infer<typeof CornerExponentsSchema>;
+export type CornerRadii = z.infer<typeof CornerRadiiSchema>;
+export type SuperformulaParams = z.infer<typeof SuperformulaSchema>;
+export type ShapeModel = z.infer<typeof ShapeModelSchema>;
+export type CornerBlendCurve = z.infer<typeof CornerBlendCurveSchema>;
+
+export const DEFAULT_STATE: SuperellipseState = SuperellipseStateSchema.parse({});
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+type RawState = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from. Version 1 is the
+ * unversioned format saved before the schema existed.
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // v1 → v2: per-corner exponents used to default to 4 regardless of the shape
+  1: (state) => {
+    if (state.cornerExponents !== undefined || typeof state.exp !== 'number') return state;
+    const exp = state.exp;
+    return {
+      ...state,
+      cornerExponents: { topLeft: exp, topRight: exp, bottomRight: exp, bottomLeft: exp },
+    };
+  },
+};
+
+/**
+ * Serialized form written to files, presets and URLs
+ */
+export interface SerializedState {
+  version: number;
+  state: SuperellipseState;
+}
+
+export type StateParseResult =
+  | { success: true; data: SuperellipseState }
+  | { success: false; error: ValidationError };
+
+/**
+ * Wrap a state with the current schema version for storage or sharing
+ */
+export function serializeState(state: SuperellipseState): SerializedState {
+  return { version: STATE_VERSION, state };
+}
+
+/**
+ * Validate a stored configuration: either a `{ version, state }` envelope or
+ * a bare, unversioned state. Older versions are migrated step by step and
+ * missing fields are filled with defaults.
+ * @param input - Parsed JSON of unknown shape
+ */
+export function parseSuperellipseState(input: unknown): StateParseResult {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { success: false, error: createInvalidStateError('expected an object') };
+  }
+
+  const envelope = input as RawState;
+  const isEnvelope = typeof envelope.version === 'number' && typeof envelope.state === 'object';
+  let version = isEnvelope ? (envelope.version as number) : 1;
+  let state = (isEnvelope ? envelope.state : envelope) as RawState;
+
+  if (!Number.isInteger(version) || version < 1) {
+    return { success: false, error: createInvalidStateError(`unknown version ${version}`) };
+  }
+  if (version > STATE_VERSION) {
+    return {
+      success: false,
+      error: createInvalidStateError(`saved by a newer version (${version}), this app reads up to ${STATE_VERSION}`),
+    };
+  }
+
+  for (; version < STATE_VERSION; version++) {
+    state = MIGRATIONS[version]?.(state) ?? state;
+  }
+
+  const result = SuperellipseStateSchema.safeParse(state);
+  if (!result.success) {
+    const details = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'state'}: ${issue.message}`)
+      .join('; ');
+    return { success: false, error: createInvalidStateError(details, result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+// ============================================================================
+// URL STATE
+// ============================================================================
+
+export const URL_STATE_PARAM = 'state';
+
+/**
+ * Encode a state as a URL-safe base64 string of its serialized form
+ */
+export function encodeStateForUrl(state: SuperellipseState): string {
+  const json = JSON.stringify(serializeState(state));
+  const bytes = new TextEncoder().encode(json);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode and validate a state produced by {@link encodeStateForUrl}
+ */
+export function decodeStateFromUrl(value: string): StateParseResult {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return parseSuperellipseState(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch (error) {
+    return { success: false, error: createInvalidStateError('malformed URL state', error as Error) };
+  }
+}
@@ -5,7 +5,18 @@ import { ControlPanel } from '../components/generator/ControlPanel';
 import { useSuperellipse } from '../hooks/useSuperellipse';
 
 const Index: React.FC = () => {
-  const { state, updateState, updateGradientStop, resetState, loadState, randomizeGlow, pathData } = useSuperellipse();
+  const {
+    state,
+    updateState,
+    updateGradientStop,
+    resetState,
+    loadState,
+    randomizeGlow,
+    pathData,
+    previewState,
+    previewPathData,
+    setPreviewOverride,
+  } = useSuperellipse();
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
 
   useEffect(() => {
@@ -33,8 +44,8 @@ const Index: React.FC = () => {
       
       <main id="main-content" className="flex-1 flex flex-col lg:flex-row overflow-hidden relative">
         <PreviewArea 
-          state={state} 
-          pathData={pathData} 
+          state={previewState} 
+          pathData={previewPathData} 
           theme={theme} 
           onSpotlightTrigger={randomizeGlow}
         />
@@ -44,6 +55,7 @@ const Index: React.FC = () => {
           updateGradientStop={updateGradientStop}
           resetState={resetState}
           loadState={loadState}
+          onPreviewState={setPreviewOverride}
           randomizeGlow={randomizeGlow}
           pathData={pathData}
           theme={theme}
@@ -8,7 +8,21 @@ import {
   isDarkColor,
   getContrastRatio,
   adjustBrightness,
+  tailwindColors,
 } from '@/utils/colorPalette';
+import {
+  hexToOklch,
+  oklchToHex,
+  oklchToRgb,
+  rgbToOklch,
+  isInGamut,
+  gamutMapOklch,
+  getMaxChroma,
+  deltaEOK,
+  GAMUT_MAPPING_JND,
+  formatOklch,
+  formatDisplayP3,
+} from '@/utils/oklch';
 
 describe('hexToRgb', () => {
   it('should convert valid hex colors to RGB', () => {
@@ -280,3 +294,122 @@ describe('adjustBrightness', () => {
     expect(result).toBe('invalid'); // Returns original if invalid
   });
 });
+
+describe('hexToOklch', () => {
+  it('should match reference OKLCH values for the sRGB primaries', () => {
+    const expectClose = (hex: string, l: number, c: number, h: number) => {
+      const color = hexToOklch(hex);
+      expect(color.l).toBeCloseTo(l, 4);
+      expect(color.c).toBeCloseTo(c, 4);
+      expect(color.h).toBeCloseTo(h, 2);
+    };
+    expectClose('#FF0000', 0.62796, 0.25768, 29.234);
+    expectClose('#00FF00', 0.86644, 0.29483, 142.495);
+    expectClose('#0000FF', 0.45201, 0.31321, 264.052);
+  });
+
+  it('should give greys zero chroma and hue', () => {
+    expect(hexToOklch('#FFFFFF')).toEqual({ l: expect.closeTo(1, 6), c: 0, h: 0 });
+    expect(hexToOklch('#000000')).toEqual({ l: expect.closeTo(0, 6), c: 0, h: 0 });
+    expect(hexToOklch('#808080').c).toBe(0);
+  });
+
+  it('should throw for invalid hex colors', () => {
+    expect(() => hexToOklch('nope')).toThrow('Invalid hex color');
+  });
+});
+
+describe('oklchToHex', () => {
+  it('should round-trip every palette color', () => {
+    for (const { hex } of tailwindColors) {
+      expect(oklchToHex(hexToOklch(hex))).toBe(hex.toLowerCase());
+    }
+  });
+
+  it('should round-trip at the precision the glow sliders keep', () => {
+    for (const { hex } of tailwindColors) {
+      const { l, c, h } = hexToOklch(hex);
+      const rounded = { l: Number((l * 100).toFixed(2)) / 100, c: Number(c.toFixed(4)), h: Number(h.toFixed(2)) };
+      expect(oklchToHex(rounded)).toBe(hex.toLowerCase());
+    }
+  });
+
+  it('should round-trip RGB channels without clipping', () => {
+    const rgb = { r: 0.2, g: 0.55, b: 0.9 };
+    const back = oklchToRgb(rgbToOklch(rgb));
+    expect(back.r).toBeCloseTo(rgb.r, 10);
+    expect(back.g).toBeCloseTo(rgb.g, 10);
+    expect(back.b).toBeCloseTo(rgb.b, 10);
+  });
+
+  it('should map out-of-gamut colors instead of clipping each channel', () => {
+    const vivid = { l: 0.7, c: 0.35, h: 150 };
+    expect(isInGamut(vivid)).toBe(false);
+
+    const mapped = hexToOklch(oklchToHex(vivid));
+    // Lightness and hue hold to within a just-noticeable difference; chroma gives way
+    expect(deltaEOK(mapped, { ...vivid, c: mapped.c })).toBeLessThan(GAMUT_MAPPING_JND);
+    expect(mapped.c).toBeLessThan(vivid.c);
+    expect(mapped.c).toBeCloseTo(getMaxChroma(0.7, 150), 1);
+  });
+
+  it('should clamp lightness at black and white', () => {
+    expect(oklchToHex({ l: 1.2, c: 0.2, h: 40 })).toBe('#ffffff');
+    expect(oklchToHex({ l: 0, c: 0.2, h: 40 })).toBe('#000000');
+  });
+});
+
+describe('gamutMapOklch', () => {
+  it('should leave in-gamut colors alone', () => {
+    const color = hexToOklch('#3b82f6');
+    expect(isInGamut(color)).toBe(true);
+    expect(deltaEOK(rgbToOklch(gamutMapOklch(color)), color)).toBeLessThan(1e-6);
+  });
+
+  it('should land within a just-noticeable difference of the gamut edge', () => {
+    for (let h = 0; h < 360; h += 30) {
+      const color = { l: 0.6, c: 0.4, h };
+      const mapped = rgbToOklch(gamutMapOklch(color));
+      const edge = { l: 0.6, c: getMaxChroma(0.6, h), h };
+      expect(deltaEOK(mapped, edge)).toBeLessThan(GAMUT_MAPPING_JND * 2);
+    }
+  });
+
+  it('should find the largest in-gamut chroma', () => {
+    const max = getMaxChroma(0.7, 150);
+    expect(isInGamut({ l: 0.7, c: max, h: 150 })).toBe(true);
+    expect(isInGamut({ l: 0.7, c: max + 0.001, h: 150 })).toBe(false);
+    expect(getMaxChroma(0.5, 0, 'srgb', 0.05)).toBe(0.05);
+    expect(getMaxChroma(1, 0)).toBe(0);
+  });
+});
+
+describe('Display P3', () => {
+  it('should contain sRGB and reach further', () => {
+    for (let h = 0; h < 360; h += 45) {
+      const srgb = getMaxChroma(0.7, h, 'srgb');
+      expect(isInGamut({ l: 0.7, c: srgb, h }, 'display-p3')).toBe(true);
+      expect(getMaxChroma(0.7, h, 'display-p3')).toBeGreaterThan(srgb);
+    }
+  });
+
+  it('should write sRGB colors with their P3 coordinates', () => {
+    // sRGB red is well inside P3
+    expect(formatDisplayP3(hexToOklch('#FF0000'))).toBe('color(display-p3 0.9175 0.2003 0.1386)');
+    expect(formatDisplayP3(hexToOklch('#FFFFFF'))).toBe('color(display-p3 1 1 1)');
+  });
+
+  it('should gamut map into P3 rather than sRGB', () => {
+    const color = { l: 0.7, c: 0.25, h: 150 };
+    expect(isInGamut(color)).toBe(false);
+    expect(isInGamut(color, 'display-p3')).toBe(true);
+    const { r, g, b } = gamutMapOklch(color, 'display-p3');
+    const back = rgbToOklch({ r, g, b }, 'display-p3');
+    expect(deltaEOK(back, color)).toBeLessThan(1e-6);
+  });
+
+  it('should format CSS oklch()', () => {
+    expect(formatOklch({ l: 0.78, c: 0.18, h: 40 })).toBe('oklch(78% 0.18 40)');
+    expect(formatOklch({ l: 0.123456, c: 0.0456789, h: 123.456 })).toBe('oklch(12.35% 0.0457 123.46)');
+  });
+});
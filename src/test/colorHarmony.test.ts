@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { generateHarmony, mergeLockedStops, HARMONY_SCHEMES, HarmonyScheme } from '@/utils/colorHarmony';
+import { hexToOklch, isInGamut } from '@/utils/oklch';
+
+/**
+ * Signed hue difference in degrees, -180 to 180
+ */
+const hueDelta = (from: number, to: number) => ((((to - from) % 360) + 540) % 360) - 180;
+
+// Mid lightness and chroma, so every scheme hue fits in sRGB
+const BASE = '#3B82F6';
+
+describe('generateHarmony', () => {
+  it('should turn the base hue by each scheme offset in OKLCH', () => {
+    const base = hexToOklch(BASE);
+    for (const scheme of Object.keys(HARMONY_SCHEMES) as HarmonyScheme[]) {
+      const { stops } = generateHarmony(BASE, scheme);
+      expect(stops).toHaveLength(HARMONY_SCHEMES[scheme].offsets.length);
+      stops.forEach((stop, i) => {
+        const color = hexToOklch(stop.color);
+        expect(Math.abs(hueDelta(base.h + HARMONY_SCHEMES[scheme].offsets[i], color.h))).toBeLessThan(8);
+        expect(color.l).toBeCloseTo(base.l, 1);
+      });
+    }
+  });
+
+  it('should space stops evenly and keep the base color first', () => {
+    const { stops } = generateHarmony(BASE, 'tetradic');
+    expect(stops.map(stop => stop.position)).toEqual([0, 33, 67, 100]);
+    expect(stops[0].color).toBe(BASE);
+    expect(generateHarmony(BASE, 'complementary').stops.map(stop => stop.position)).toEqual([0, 100]);
+  });
+
+  it('should give the glow the accent hue inside sRGB', () => {
+    const base = hexToOklch(BASE);
+    const { glow } = generateHarmony(BASE, 'triadic');
+    expect(hueDelta(base.h + 120, glow.hue)).toBeCloseTo(0, 1);
+    expect(glow.lightness).toBe(78);
+    expect(isInGamut({ l: glow.lightness / 100, c: glow.chroma, h: glow.hue })).toBe(true);
+  });
+
+  it('should give greys enough chroma to show the scheme', () => {
+    const { stops } = generateHarmony('#808080', 'complementary');
+    expect(new Set(stops.map(stop => stop.color)).size).toBe(2);
+    expect(hexToOklch(stops[1].color).c).toBeGreaterThan(0.05);
+  });
+
+  it('should vary colors only when regenerating', () => {
+    expect(generateHarmony(BASE, 'analogous')).toEqual(generateHarmony(BASE, 'analogous'));
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const varied = generateHarmony(BASE, 'analogous', { jitter: 1, random });
+    expect(varied.stops).not.toEqual(generateHarmony(BASE, 'analogous').stops);
+    expect(varied.stops.map(stop => stop.position)).toEqual([0, 50, 100]);
+  });
+});
+
+describe('mergeLockedStops', () => {
+  const previous = [
+    { color: '#111111', position: 0 },
+    { color: '#222222', position: 50 },
+    { color: '#333333', position: 100 },
+  ];
+  const next = [
+    { color: '#AAAAAA', position: 0 },
+    { color: '#BBBBBB', position: 33 },
+    { color: '#CCCCCC', position: 67 },
+    { color: '#DDDDDD', position: 100 },
+  ];
+
+  it('should keep locked colors and take the new positions', () => {
+    expect(mergeLockedStops(previous, next, [false, true, false, true])).toEqual([
+      { color: '#AAAAAA', position: 0 },
+      { color: '#222222', position: 33 },
+      { color: '#CCCCCC', position: 67 },
+      { color: '#DDDDDD', position: 100 },
+    ]);
+    expect(mergeLockedStops(previous, next, [])).toEqual(next);
+  });
+});
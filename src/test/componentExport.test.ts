@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import {
+  generateReactComponent,
+  generateVueComponent,
+  generateSvelteComponent,
+  generateCustomElement,
+} from '@/utils/componentExport';
+import { getStatePath, getSuperellipsePath, SuperellipseState } from '@/utils/math';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const baseState: SuperellipseState = {
+  ...DEFAULT_STATE,
+  width: 120,
+  height: 80,
+  exp: 4,
+  enabled: false,
+  strokePosition: 'center',
+};
+
+const pathData = getSuperellipsePath(120, 80, 4, { steps: 16 });
+
+/**
+ * Syntax errors reported when compiling the generated TSX
+ */
+function getSyntaxErrors(code: string): string[] {
+  const output = ts.transpileModule(code, {
+    fileName: 'Superellipse.tsx',
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.ReactJSX, target: ts.ScriptTarget.ES2020 },
+  });
+  return (output.diagnostics ?? []).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+// ============================================================================
+// REACT COMPONENT
+// ============================================================================
+
+describe('generateReactComponent', () => {
+  it('should compile for every color mode and layer', () => {
+    for (const colorMode of ['solid', 'linear', 'radial', 'conic'] as const) {
+      const state = {
+        ...baseState,
+        colorMode,
+        enabled: true,
+        blur: 2,
+        borderEnabled: true,
+        strokePosition: 'inside' as const,
+        strokeStyle: 'dashed' as const,
+        gradientFocalX: 30,
+      };
+      expect(getSyntaxErrors(generateReactComponent(state, pathData))).toEqual([]);
+    }
+  });
+
+  it('should cut inside strokes for models without an offset outline', () => {
+    const smooth = { ...baseState, shapeModel: 'smooth-corners' as const, borderEnabled: true, strokeWidth: 3, strokePosition: 'inside' as const };
+    const code = generateReactComponent(smooth, pathData);
+    expect(code).toMatch(/<path d=\{PATH\} fill="none" [^>]*strokeWidth=\{6\}[^>]*clipPath=\{`url\(#\$\{uid\}-clip\)`\} \/>/);
+  });
+
+  it('should keep the outline in one constant with size props', () => {
+    const code = generateReactComponent(baseState, pathData);
+    expect(code).toContain(`const PATH = '${pathData}';`);
+    expect(code).toContain('const WIDTH = 120;');
+    expect(code).toContain('const HEIGHT = 80;');
+    expect(code).toContain('export function Superellipse({ width = WIDTH, height = HEIGHT, className, style, children }: SuperellipseProps)');
+    expect(code).toContain('<path d={PATH} fill="#FF9F00" />');
+    expect(code).toContain('export default Superellipse;');
+  });
+
+  it('should clip children to the outline at any size', () => {
+    const code = generateReactComponent(baseState, pathData);
+    expect(code).toContain('<clipPath id={`${uid}-content`} clipPathUnits="objectBoundingBox">');
+    expect(code).toContain('transform="scale(0.00833333 0.0125)"');
+    expect(code).toContain('clipPath: `url(#${uid}-content)`');
+    expect(code).toContain('{children}');
+  });
+
+  it('should add gradient, glow and stroke layers with instance ids', () => {
+    const code = generateReactComponent({
+      ...baseState,
+      colorMode: 'linear',
+      enabled: true,
+      borderEnabled: true,
+    }, pathData);
+    expect(code).toContain('<linearGradient id={`${uid}-gradient`} gradientUnits="userSpaceOnUse"');
+    expect(code).toContain('<stop offset="50%" stopColor="#A855F7" />');
+    expect(code).toContain('fill={`url(#${uid}-gradient)`}');
+    expect(code).toContain('<g clipPath={`url(#${uid}-clip)`}>');
+    expect(code).toContain("style={{ mixBlendMode: 'screen' }}");
+    expect(code).toContain('stroke="#FFFFFF" strokeWidth={2} strokeOpacity={1} vectorEffect="non-scaling-stroke"');
+  });
+
+  it('should draw conic gradients as clipped wedges', () => {
+    const code = generateReactComponent({ ...baseState, colorMode: 'conic' }, pathData);
+    expect(code).not.toContain('radialGradient');
+    expect(code.match(/<path d="M 60 40 L/g)?.length).toBeGreaterThan(100);
+  });
+
+  it('should use the given component name', () => {
+    const code = generateReactComponent(baseState, pathData, { name: 'ProfileCard' });
+    expect(code).toContain('export interface ProfileCardProps');
+    expect(code).toContain('export default ProfileCard;');
+    expect(() => generateReactComponent(baseState, pathData, { name: 'profile-card' })).toThrow('PascalCase');
+  });
+});
+
+// ============================================================================
+// VUE AND SVELTE
+// ============================================================================
+
+describe('generateVueComponent', () => {
+  it('should bind ids and the outline in the template', () => {
+    const code = generateVueComponent({ ...baseState, colorMode: 'radial', enabled: true }, pathData);
+    expect(code).toContain('<script setup lang="ts">');
+    expect(code).toContain('withDefaults(defineProps<{ width?: number; height?: number }>(), {\n  width: 120,\n  height: 80,\n});');
+    expect(code).toContain(`const PATH = '${pathData}';`);
+    expect(code).toContain('<radialGradient :id="`${uid}-gradient`" gradientUnits="userSpaceOnUse"');
+    expect(code).toContain('<stop offset="50%" stop-color="#A855F7" />');
+    expect(code).toContain('<path :d="PATH" :fill="`url(#${uid}-gradient)`" />');
+    expect(code).toContain('style="mix-blend-mode: screen"');
+    expect(code).toContain('<slot />');
+  });
+});
+
+describe('generateSvelteComponent', () => {
+  it('should bind ids and the outline in the markup', () => {
+    const code = generateSvelteComponent({ ...baseState, enabled: true }, pathData);
+    expect(code).toContain('export let width = 120;');
+    expect(code).toContain('export let height = 80;');
+    expect(code).toContain('<clipPath id="{uid}-clip">');
+    expect(code).toContain('<g clip-path="url(#{uid}-clip)">');
+    expect(code).toContain('<path d={PATH} fill="#FF9F00" />');
+    expect(code).toContain('clip-path: url(#{uid}-content)');
+    expect(code).toContain('<slot />');
+  });
+});
+
+// ============================================================================
+// CUSTOM ELEMENT
+// ============================================================================
+
+describe('generateCustomElement', () => {
+  const state: SuperellipseState = {
+    ...baseState,
+    colorMode: 'linear',
+    enabled: true,
+    borderEnabled: true,
+    strokePosition: 'inside',
+  };
+
+  const define = (tagName: string) => {
+    new Function(generateCustomElement(state, { tagName }).replace(/^export .*$/m, ''))();
+  };
+
+  it('should draw the same outline as getSuperellipsePath', () => {
+    define('se-outline-test');
+    const element = document.createElement('se-outline-test');
+    document.body.appendChild(element);
+
+    const outline = element.shadowRoot!.querySelector('[data-outline]')!;
+    expect(outline.getAttribute('d')).toBe(getSuperellipsePath(120, 80, 4));
+
+    element.setAttribute('width', '300');
+    element.setAttribute('exponent', '2.5');
+    expect(outline.getAttribute('d')).toBe(getSuperellipsePath(300, 80, 2.5));
+    expect(element.style.width).toBe('300px');
+    expect(element.shadowRoot!.querySelector('svg')!.getAttribute('viewBox')).toBe('0 0 300 80');
+    element.remove();
+  });
+
+  it('should rescale the gradient and glow to the rendered size', () => {
+    define('se-scale-test');
+    const element = document.createElement('se-scale-test');
+    element.setAttribute('height', '160');
+    document.body.appendChild(element);
+
+    const root = element.shadowRoot!;
+    expect(root.querySelector('[data-scale="gradientTransform"]')!.getAttribute('gradientTransform')).toBe('scale(1 2)');
+    expect(root.querySelector('[data-scale="transform"]')!.getAttribute('transform')).toBe('scale(1 2)');
+    expect(root.querySelector('#content path')!.getAttribute('transform')).toBe(`scale(${1 / 120} ${1 / 160})`);
+    element.remove();
+  });
+
+  it('should cut inside strokes from a clipped double-width stroke', () => {
+    const code = generateCustomElement(state);
+    expect(code).toContain('stroke-width="4"');
+    expect(code).toMatch(/<path data-outline fill="none" stroke="#FFFFFF".* clip-path="url\(#clip\)" \/>/);
+    expect(code).toContain("customElements.define('super-ellipse', SuperEllipse);");
+  });
+
+  it('should stretch the configured outline for other shape models', () => {
+    const smooth: SuperellipseState = { ...state, shapeModel: 'smooth-corners', cornerRadius: 20, cornerSmoothing: 0.6 };
+    const code = generateCustomElement(smooth, { tagName: 'se-smooth-test' });
+    expect(code).toContain("static observedAttributes = ['width', 'height'];");
+    expect(code).not.toContain('superellipsePath(');
+    new Function(code.replace(/^export .*$/m, ''))();
+
+    const element = document.createElement('se-smooth-test');
+    document.body.appendChild(element);
+    const outline = element.shadowRoot!.querySelector('[data-outline]')!;
+    expect(outline.getAttribute('d')).toBe(getStatePath(smooth, { precision: 2 }));
+
+    // Twice the size: the same shape with twice the corner radius
+    element.setAttribute('width', '240');
+    element.setAttribute('height', '160');
+    const numbers = (d: string) => d.split(' ').filter(token => !/^[A-Z]$/.test(token)).map(Number);
+    const expected = numbers(getStatePath({ ...smooth, width: 240, height: 160, cornerRadius: 40 }, { precision: 2 }));
+    const actual = numbers(outline.getAttribute('d')!);
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 1));
+    element.remove();
+  });
+
+  it('should validate the tag name', () => {
+    expect(() => generateCustomElement(state, { tagName: 'superellipse' })).toThrow('hyphen');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TEXT_AREAS,
+  getApcaContrast,
+  measureContrast,
+  sampleTextBackground,
+  suggestTextColor,
+} from '@/utils/contrast';
+import { calculateLuminance, getContrastRatio } from '@/utils/colorPalette';
+import { hexToOklch, oklchToHex } from '@/utils/oklch';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
+
+// A flat card: no glow, no noise
+const FLAT = { ...DEFAULT_STATE, colorMode: 'solid' as const, solidColor: '#336699', solidOpacity: 100, enabled: false, noiseEnabled: false };
+const FULL = { x: 0, y: 0, width: 1, height: 1 };
+const luminances = (colors: string[]) => colors.map(calculateLuminance);
+
+describe('getApcaContrast', () => {
+  it('should match the APCA-W3 reference values', () => {
+    expect(getApcaContrast('#000000', '#FFFFFF')).toBeCloseTo(106.04, 2);
+    expect(getApcaContrast('#FFFFFF', '#000000')).toBeCloseTo(-107.88, 2);
+    expect(getApcaContrast('#888888', '#FFFFFF')).toBeCloseTo(63.06, 2);
+    expect(getApcaContrast('#FFFFFF', '#888888')).toBeCloseTo(-68.54, 2);
+    expect(getApcaContrast('#336699', '#336699')).toBe(0);
+  });
+});
+
+describe('sampleTextBackground', () => {
+  it('should give the fill itself for a flat card and fade it by the solid opacity', () => {
+    const flat = sampleTextBackground(FLAT, TEXT_AREAS.bottom.rect, '#000000');
+    expect(flat.colors).toEqual(['#336699']);
+    expect(measureContrast('#FFFFFF', flat).ratio).toBeCloseTo(getContrastRatio('#FFFFFF', '#336699'), 6);
+
+    // Text fades with the card: half-white on black against half-blue on black
+    const faded = sampleTextBackground({ ...FLAT, solidOpacity: 50 }, TEXT_AREAS.bottom.rect, '#000000');
+    expect(faded.opacity).toBe(0.5);
+    expect(measureContrast('#FFFFFF', faded).ratio).toBeCloseTo(getContrastRatio('#808080', '#1A334D'), 1);
+  });
+
+  it('should follow the gradient geometry', () => {
+    const stops = [{ color: '#000000', position: 0 }, { color: '#FFFFFF', position: 100 }];
+    const linear = { ...FLAT, colorMode: 'linear' as const, gradientAngle: 90, gradientStops: stops };
+    const left = sampleTextBackground(linear, { x: 0, y: 0, width: 0.2, height: 1 }, '#000000');
+    const right = sampleTextBackground(linear, { x: 0.8, y: 0, width: 0.2, height: 1 }, '#000000');
+    expect(Math.max(...luminances(left.colors))).toBeLessThan(Math.min(...luminances(right.colors)));
+
+    // Radial: black at the centre, lighter towards the edge
+    const radial = { ...linear, colorMode: 'radial' as const, gradientCenterX: 50, gradientCenterY: 50, gradientFocalX: 0, gradientFocalY: 0 };
+    const centre = sampleTextBackground(radial, { x: 0.45, y: 0.45, width: 0.1, height: 0.1 }, '#000000');
+    const edge = sampleTextBackground(radial, { x: 0, y: 0, width: 0.1, height: 0.1 }, '#000000');
+    expect(Math.max(...luminances(centre.colors))).toBeLessThan(Math.min(...luminances(edge.colors)));
+  });
+
+  it('should lighten the background under the glow and spread it with noise', () => {
+    const glowing = { ...FLAT, solidColor: '#000000', enabled: true };
+    const plain = sampleTextBackground({ ...glowing, enabled: false }, TEXT_AREAS.top.rect, '#000000');
+    const glow = sampleTextBackground(glowing, TEXT_AREAS.top.rect, '#000000');
+    expect(plain.colors).toEqual(['#000000']);
+    expect(Math.max(...luminances(glow.colors))).toBeGreaterThan(0.1);
+    expect(sampleTextBackground({ ...glowing, glowOpacity: 0 }, TEXT_AREAS.top.rect, '#000000').colors).toEqual(['#000000']);
+
+    const noisy = sampleTextBackground({ ...FLAT, solidColor: '#808080', noiseEnabled: true, noiseIntensity: 50 }, FULL, '#000000');
+    const range = luminances(noisy.colors);
+    expect(Math.min(...range)).toBeLessThan(calculateLuminance('#808080'));
+    expect(Math.max(...range)).toBeGreaterThan(calculateLuminance('#808080'));
+  });
+});
+
+describe('measureContrast', () => {
+  it('should report the worst sample for both metrics', () => {
+    const background = { colors: ['#FFFFFF', '#777777'], opacity: 1, page: '#000000' };
+    const report = measureContrast('#000000', background);
+    expect(report.ratio).toBeCloseTo(getContrastRatio('#000000', '#777777'), 6);
+    expect(report.lc).toBeCloseTo(getApcaContrast('#000000', '#777777'), 6);
+    expect(report.darkest).toBe('#777777');
+    expect(report.lightest).toBe('#FFFFFF');
+    expect(report.passes).toEqual({ 'wcag-aa': true, 'wcag-aaa': false, 'apca-60': false, 'apca-75': false });
+  });
+});
+
+describe('suggestTextColor', () => {
+  const background = sampleTextBackground({ ...FLAT, solidColor: '#1E293B' }, FULL, '#000000');
+
+  it('should keep a text color that already passes', () => {
+    expect(suggestTextColor('#ffffff', { ...background, colors: ['#000000'] }, 'wcag-aaa')).toBe('#FFFFFF');
+  });
+
+  it('should move only the lightness, by the least amount that passes', () => {
+    const text = '#4F46E5';
+    expect(measureContrast(text, background).passes['wcag-aa']).toBe(false);
+
+    const suggestion = suggestTextColor(text, background, 'wcag-aa');
+    expect(suggestion).not.toBeNull();
+    expect(measureContrast(suggestion!, background).passes['wcag-aa']).toBe(true);
+
+    const before = hexToOklch(text);
+    const after = hexToOklch(suggestion!);
+    expect(Math.abs(after.h - before.h)).toBeLessThan(3);
+    expect(after.l).toBeGreaterThan(before.l);
+    // Slightly less lightness no longer passes
+    const short = oklchToHex({ ...before, l: after.l - 0.01 });
+    expect(measureContrast(short, background).passes['wcag-aa']).toBe(false);
+
+    const apca = suggestTextColor(text, background, 'apca-75');
+    expect(apca === null || Math.abs(measureContrast(apca, background).lc) >= 75).toBe(true);
+  });
+
+  it('should give up when the background runs from black to white', () => {
+    const split = { colors: ['#000000', '#FFFFFF'], opacity: 1, page: '#000000' };
+    expect(suggestTextColor('#808080', split, 'wcag-aaa')).toBeNull();
+  });
+});
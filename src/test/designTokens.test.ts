@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateDesignTokens,
+  parseDesignTokens,
+  isDesignTokensFile,
+  TOKEN_EXTENSION,
+} from '@/utils/designTokens';
+import { DEFAULT_STATE, serializeState } from '@/lib/stateSchema';
+import { SuperellipseState } from '@/utils/math';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const state: SuperellipseState = {
+  ...DEFAULT_STATE,
+  width: 240,
+  exp: 5.5,
+  solidOpacity: 80,
+  glowOpacity: 60,
+  borderEnabled: true,
+  strokeStyle: 'dashed',
+};
+
+const presets = [
+  { name: 'Card', state: { ...DEFAULT_STATE, colorMode: 'radial' as const, useAsymmetricCorners: true } },
+  { name: 'Pill', state: { ...DEFAULT_STATE, shapeModel: 'smooth-corners' as const, enabled: false } },
+];
+
+type Tree = Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+/**
+ * Drop the embedded states so only the tokens themselves are read back
+ */
+function stripExtensions(tree: Tree): Tree {
+  return JSON.parse(JSON.stringify(tree, (key, value) => (key === '$extensions' ? undefined : value)));
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+describe('generateDesignTokens', () => {
+  it('should write typed DTCG tokens for the current state', () => {
+    const tokens: Tree = generateDesignTokens(state);
+    const current = tokens.superellipse.current;
+
+    expect(current.$description).toBe('Current');
+    expect(current.size.width).toEqual({ $type: 'dimension', $value: { value: 240, unit: 'px' } });
+    expect(current.shape.exponent).toMatchObject({ $type: 'number', $value: 5.5 });
+    expect(current.color.fill.$value).toEqual({
+      colorSpace: 'srgb',
+      components: [1, 0.6235, 0],
+      alpha: 0.8,
+      hex: '#ff9f00',
+    });
+    expect(current.color.glow.$value).toEqual({ colorSpace: 'oklch', components: [0.78, 0.18, 40], alpha: 0.6 });
+    expect(current.shadow.drop.$type).toBe('shadow');
+    expect(current.shadow.drop.$value.offsetY).toEqual({ value: 10, unit: 'px' });
+    expect(current.border.stroke.$value).toMatchObject({ width: { value: 2, unit: 'px' }, style: 'dashed' });
+    expect(current.gradient).toBeUndefined();
+    expect(current.$extensions[TOKEN_EXTENSION]).toEqual({ name: 'Current', ...serializeState(state) });
+  });
+
+  it('should add every preset as its own group', () => {
+    const tokens: Tree = generateDesignTokens(state, presets);
+    const { card, pill } = tokens.superellipse.presets;
+
+    expect(card.gradient.fill.$type).toBe('gradient');
+    expect(card.gradient.fill.$value[1]).toMatchObject({ position: 0.5, color: { hex: '#a855f7' } });
+    expect(Object.keys(card.shape['corner-exponent'])).toEqual(['top-left', 'top-right', 'bottom-right', 'bottom-left']);
+    expect(pill.shape['corner-radius'].$value).toEqual({ value: 64, unit: 'px' });
+    expect(pill.color.glow).toBeUndefined();
+  });
+
+  it('should write Style Dictionary tokens with CSS values', () => {
+    const tokens: Tree = generateDesignTokens(state, presets, 'style-dictionary');
+    const current = tokens.superellipse.current;
+
+    expect(current.comment).toBe('Current');
+    expect(current.size.width).toEqual({ type: 'dimension', value: '240px' });
+    expect(current.color.fill.value).toBe('#FF9F00CC');
+    expect(current.color.glow.value).toBe('oklch(78% 0.18 40 / 0.6)');
+    expect(current.border.stroke.value).toEqual({ color: '#FFFFFF', width: '2px', style: 'dashed' });
+    expect(JSON.stringify(tokens)).not.toContain('$value');
+  });
+});
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+describe('parseDesignTokens', () => {
+  it('should round-trip the current state and presets in both formats', () => {
+    for (const format of ['dtcg', 'style-dictionary'] as const) {
+      const result = parseDesignTokens(JSON.parse(JSON.stringify(generateDesignTokens(state, presets, format))));
+      expect(result).toEqual({
+        success: true,
+        data: [{ name: 'Current', state }, ...presets],
+      });
+    }
+  });
+
+  it('should let edited tokens win over the embedded state', () => {
+    const tokens: Tree = generateDesignTokens(state);
+    tokens.superellipse.current.size.height.$value = { value: 2, unit: 'rem' };
+    tokens.superellipse.current.shape.exponent.$value = 3;
+
+    const result = parseDesignTokens(tokens);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data[0].state).toMatchObject({ height: 32, exp: 3, width: 240 });
+  });
+
+  it('should rebuild states from tokens alone', () => {
+    const result = parseDesignTokens(stripExtensions(generateDesignTokens(state, presets, 'style-dictionary')));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const [current, card] = result.data;
+    expect(current.name).toBe('Current');
+    expect(current.state).toMatchObject({
+      width: 240,
+      exp: 5.5,
+      solidColor: '#FF9F00',
+      solidOpacity: 80,
+      lightness: 78,
+      chroma: 0.18,
+      hue: 40,
+      glowOpacity: 60,
+      borderEnabled: true,
+      strokeStyle: 'dashed',
+      shadowDistance: 10,
+      shadowIntensity: 30,
+    });
+    expect(card.state.colorMode).toBe('linear');
+    expect(card.state.gradientStops).toEqual(DEFAULT_STATE.gradientStops);
+  });
+
+  it('should read hand-written groups and name them by path', () => {
+    const result = parseDesignTokens({
+      brand: {
+        button: {
+          size: { width: { $type: 'dimension', $value: { value: 120, unit: 'px' } } },
+          shape: { exponent: { $type: 'number', $value: 3 } },
+        },
+      },
+    });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data).toEqual([{ name: 'brand.button', state: { ...DEFAULT_STATE, width: 120, exp: 3 } }]);
+  });
+
+  it('should report invalid token values with the preset name', () => {
+    const tokens: Tree = generateDesignTokens(state, presets);
+    tokens.superellipse.presets.pill.shape.exponent.$value = 40;
+
+    const result = parseDesignTokens(tokens);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.message).toMatch(/^Invalid configuration: Pill: .*exp/);
+  });
+
+  it('should tell tokens files apart from saved configurations', () => {
+    expect(isDesignTokensFile(generateDesignTokens(state))).toBe(true);
+    expect(isDesignTokensFile(serializeState(state))).toBe(false);
+    expect(isDesignTokensFile(state)).toBe(false);
+    expect(parseDesignTokens({ colors: {} }).success).toBe(false);
+    expect(parseDesignTokens([]).success).toBe(false);
+  });
+});
@@ -14,6 +14,9 @@ import {
   isStorageAvailable,
 } from '@/lib/errors';
 import { hexToRgb, rgbToHex } from '@/utils/colorPalette';
+import { renderHook, act } from '@testing-library/react';
+import { readStoredPresetList, writeStoredPresets, usePresets } from '@/hooks/usePresets';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
 
 describe('Error Classes', () => {
   it('should create AppError with code', () => {
@@ -314,4 +317,37 @@ describe('LocalStorage Error Scenarios', () => {
     expect(message.message).toContain('not available');
     expect(message.hint).toBeTruthy();
   });
+
+  it('should write presets that fail validation back untouched', () => {
+    const broken = { id: 'broken', name: 'Broken', state: { width: 'wide' }, createdAt: 1 };
+    const valid = { id: 'valid', name: 'Valid', state: DEFAULT_STATE, createdAt: 2 };
+    localStorage.setItem('superellipse-presets', JSON.stringify([broken, valid]));
+
+    try {
+      const { presets, invalid } = readStoredPresetList();
+      expect(presets.map(p => p.id)).toEqual(['valid']);
+      expect(invalid).toEqual([broken]);
+
+      writeStoredPresets([], invalid);
+      expect(JSON.parse(localStorage.getItem('superellipse-presets')!)).toEqual([broken]);
+    } finally {
+      localStorage.removeItem('superellipse-presets');
+    }
+  });
+
+  it('should share saved presets between hook instances', () => {
+    try {
+      const tab = renderHook(() => usePresets());
+      const morph = renderHook(() => usePresets());
+
+      act(() => {
+        tab.result.current.savePreset('Shared', DEFAULT_STATE);
+      });
+
+      expect(morph.result.current.presets.map(p => p.name)).toEqual(['Shared']);
+      expect(readStoredPresetList().presets.map(p => p.name)).toEqual(['Shared']);
+    } finally {
+      localStorage.removeItem('superellipse-presets');
+    }
+  });
 });
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { generatePaintWorklet, generatePaintWorkletCSS, supportsPaintWorklet } from '@/utils/paintWorkletExport';
+import {
+  getSuperellipsePath,
+  getAsymmetricSuperellipsePath,
+  getResponsiveMask,
+  getStatePath,
+  SuperellipseState,
+} from '@/utils/math';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const state: SuperellipseState = { ...DEFAULT_STATE, width: 120, height: 80, exp: 4 };
+
+const corners = { topLeft: 2, topRight: 6, bottomRight: 3.5, bottomLeft: 8 };
+
+interface Painter {
+  paint(ctx: unknown, size: { width: number; height: number }, props: { get(name: string): unknown }): void;
+}
+
+/**
+ * Run the generated worklet against a recording canvas and return the
+ * outline as path data plus the fill style
+ */
+function paint(source: string, width: number, height: number, props: Record<string, string> = {}) {
+  let Painter: (new () => Painter) & { inputProperties: string[] } | undefined;
+  new Function('registerPaint', source)((name: string, painter: typeof Painter) => {
+    expect(name).toBe('superellipse');
+    Painter = painter;
+  });
+
+  const coords: string[] = [];
+  const ctx = {
+    fillStyle: '',
+    beginPath: () => {},
+    closePath: () => {},
+    fill: () => {},
+    moveTo: (x: number, y: number) => coords.push(`${x.toFixed(2)} ${y.toFixed(2)}`),
+    lineTo: (x: number, y: number) => coords.push(`${x.toFixed(2)} ${y.toFixed(2)}`),
+  };
+  // Unset properties come through as empty unparsed values
+  new Painter!().paint(ctx, { width, height }, { get: name => props[name] ?? '' });
+
+  return { path: `M ${coords.join(' L ')} Z`, fillStyle: ctx.fillStyle, inputProperties: Painter!.inputProperties };
+}
+
+// ============================================================================
+// WORKLET
+// ============================================================================
+
+describe('generatePaintWorklet', () => {
+  it('should draw the same outline as getSuperellipsePath', () => {
+    const result = paint(generatePaintWorklet(state), 300, 200);
+    expect(result.path).toBe(getSuperellipsePath(300, 200, 4));
+    expect(result.fillStyle).toBe('#FF9F00');
+    expect(result.inputProperties).toEqual([
+      '--se-exp',
+      '--se-color',
+      '--se-smoothing',
+      '--se-exp-bottom-right',
+      '--se-exp-bottom-left',
+      '--se-exp-top-left',
+      '--se-exp-top-right',
+    ]);
+  });
+
+  it('should read the exponent and color from custom properties', () => {
+    const result = paint(generatePaintWorklet(state), 120, 80, { '--se-exp': ' 2.5', '--se-color': ' rgb(0 0 0 / 50%)' });
+    expect(result.path).toBe(getSuperellipsePath(120, 80, 2.5));
+    expect(result.fillStyle).toBe('rgb(0 0 0 / 50%)');
+  });
+
+  it('should blend per-corner exponents like getAsymmetricSuperellipsePath', () => {
+    for (const cornerBlend of ['linear', 'smoothstep', 'cosine'] as const) {
+      const result = paint(generatePaintWorklet({ ...state, cornerBlend }), 160, 90, {
+        '--se-exp-top-left': '2',
+        '--se-exp-top-right': '6',
+        '--se-exp-bottom-right': '3.5',
+        '--se-exp-bottom-left': '8',
+        '--se-smoothing': '0.3',
+      });
+      expect(result.path).toBe(getAsymmetricSuperellipsePath(160, 90, corners, { smoothing: 0.3, blend: cornerBlend }));
+    }
+  });
+});
+
+// ============================================================================
+// CSS
+// ============================================================================
+
+describe('generatePaintWorkletCSS', () => {
+  const pathData = getSuperellipsePath(120, 80, 4);
+
+  it('should register the custom properties so they animate', () => {
+    const css = generatePaintWorkletCSS(state, pathData);
+    expect(css).toContain("@property --se-exp {\n  syntax: '<number>';\n  inherits: false;\n  initial-value: 4;\n}");
+    expect(css).toContain("@property --se-color {\n  syntax: '<color>';");
+    expect(css).toContain('  --se-exp-top-left: var(--se-exp);');
+    expect(css).toContain('  transition: --se-exp 0.3s ease;');
+    expect(css).toContain("CSS.paintWorklet.addModule('superellipse.worklet.js')");
+  });
+
+  it('should mask with the worklet and fall back to the static outline', () => {
+    const css = generatePaintWorkletCSS(state, pathData, { workletUrl: '/assets/se.js' });
+    const fallback = getResponsiveMask(state, pathData);
+    expect(css).toContain(`  mask: ${fallback};`);
+    expect(css).toContain('@supports (mask-image: paint(superellipse)) {');
+    expect(css).toContain('    mask-image: paint(superellipse);');
+    expect(css.indexOf(`mask: ${fallback}`)).toBeLessThan(css.indexOf('@supports'));
+    expect(css).toContain("addModule('/assets/se.js')");
+  });
+
+  it('should write asymmetric corners as their own values', () => {
+    const css = generatePaintWorkletCSS({ ...state, useAsymmetricCorners: true, cornerExponents: corners }, pathData);
+    expect(css).toContain('  --se-exp-top-right: 6;');
+    expect(css).toContain('  --se-exp-bottom-left: 8;');
+    expect(css).not.toContain('var(--se-exp)');
+  });
+
+  it('should only use the static mask for shapes the worklet cannot draw', () => {
+    const radii = { topLeft: 10, topRight: 10, bottomRight: 10, bottomLeft: 10 };
+    const unsupported: SuperellipseState[] = [
+      { ...state, shapeModel: 'smooth-corners' },
+      { ...state, shapeModel: 'superformula' },
+      { ...state, useAsymmetricCorners: true, cornerExponents: corners, useCornerRadii: true, cornerRadii: radii },
+    ];
+    unsupported.forEach(shape => {
+      expect(supportsPaintWorklet(shape)).toBe(false);
+      const outline = getStatePath(shape);
+      const css = generatePaintWorkletCSS(shape, outline);
+      expect(css).toContain(`  mask: ${getResponsiveMask(shape, outline)};`);
+      expect(css).not.toContain('paint(superellipse)');
+      expect(css).not.toContain('@property');
+    });
+    expect(supportsPaintWorklet({ ...state, useAsymmetricCorners: true, cornerExponents: corners })).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { extractPalette, paletteToGradientStops, paletteColorToGlow } from '@/utils/paletteExtraction';
+import { hexToRgb } from '@/utils/colorPalette';
+import { hexToOklch, oklchToHex } from '@/utils/oklch';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/**
+ * RGBA pixels with the given number of pixels per color; a small `jitter`
+ * spreads each color over nearby shades like a photo would
+ */
+function pixels(colors: [string, number][], jitter = 0, alpha = 255): Uint8ClampedArray {
+  const data: number[] = [];
+  for (const [hex, count] of colors) {
+    const { r, g, b } = hexToRgb(hex)!;
+    for (let i = 0; i < count; i++) {
+      const offset = jitter ? (i % (2 * jitter + 1)) - jitter : 0;
+      data.push(r + offset, g - offset, b + offset, alpha);
+    }
+  }
+  return new Uint8ClampedArray(data);
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+describe('extractPalette', () => {
+  it('should find flat colors with their share of the pixels', () => {
+    const palette = extractPalette(pixels([['#3B82F6', 300], ['#F97316', 700]]), { count: 2 });
+    expect(palette.map(color => color.hex)).toEqual(['#F97316', '#3B82F6']);
+    expect(palette.map(color => color.weight)).toEqual([0.7, 0.3]);
+    expect(palette[0].oklch.h).toBeCloseTo(hexToOklch('#F97316').h, 6);
+  });
+
+  it('should cluster shades around each dominant color', () => {
+    const palette = extractPalette(
+      pixels([['#10B981', 500], ['#8B5CF6', 300], ['#18181B', 200]], 6),
+      { count: 3 }
+    );
+    expect(palette).toHaveLength(3);
+    expect(palette.map(color => color.weight)).toEqual([0.5, 0.3, 0.2]);
+    // The centre of a symmetric spread lands back on the original color
+    const expected = ['#10B981', '#8B5CF6', '#18181B'];
+    palette.forEach((color, i) => {
+      const { r, g, b } = hexToRgb(color.hex)!;
+      const target = hexToRgb(expected[i])!;
+      expect(Math.abs(r - target.r) + Math.abs(g - target.g) + Math.abs(b - target.b)).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it('should return fewer colors than asked when the image has fewer', () => {
+    const palette = extractPalette(pixels([['#FF0000', 10], ['#FFFFFF', 10]]), { count: 5 });
+    expect(palette.map(color => color.hex).sort()).toEqual(['#FF0000', '#FFFFFF']);
+  });
+
+  it('should ignore transparent pixels', () => {
+    const data = new Uint8ClampedArray([...pixels([['#FF0000', 4]], 0, 0), ...pixels([['#0000FF', 1]])]);
+    expect(extractPalette(data).map(color => color.hex)).toEqual(['#0000FF']);
+    expect(extractPalette(pixels([['#FF0000', 4]], 0, 10))).toEqual([]);
+  });
+});
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+describe('applying a palette', () => {
+  const palette = extractPalette(pixels([['#FDE68A', 100], ['#1E3A8A', 300], ['#DB2777', 200]]));
+
+  it('should spread gradient stops from dark to light', () => {
+    expect(paletteToGradientStops(palette)).toEqual([
+      { color: '#1E3A8A', position: 0 },
+      { color: '#DB2777', position: 50 },
+      { color: '#FDE68A', position: 100 },
+    ]);
+    expect(paletteToGradientStops(palette.slice(0, 1))).toEqual([
+      { color: '#1E3A8A', position: 0 },
+      { color: '#1E3A8A', position: 100 },
+    ]);
+  });
+
+  it('should turn a color into glow values that reproduce it', () => {
+    const glow = paletteColorToGlow(palette[1]);
+    expect(oklchToHex({ l: glow.lightness / 100, c: glow.chroma, h: glow.hue }).toUpperCase()).toBe('#DB2777');
+    expect(paletteColorToGlow(extractPalette(pixels([['#808080', 1]]))[0])).toMatchObject({ hue: 0, chroma: 0 });
+  });
+});
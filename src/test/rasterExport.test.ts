@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  RASTER_GROUPS,
+  DEFAULT_FILENAME_PATTERN,
+  formatRasterFilename,
+  getRasterFiles,
+  getRasterSize,
+  getSVGSize,
+  getSupportedRasterFormats,
+} from '@/utils/rasterExport';
+import { createZip, crc32 } from '@/utils/zip';
+import { generateSVG, getSuperellipsePath } from '@/utils/math';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
+import { ValidationError, ErrorCode } from '@/lib/errors';
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+describe('getRasterFiles', () => {
+  const size = { width: 320, height: 400 };
+
+  it('should scale the shape for 1x/2x/3x and use square icon sizes', () => {
+    expect(RASTER_GROUPS.scale.targets.map(t => getRasterSize(t, 320, 400))).toEqual([
+      { width: 320, height: 400 },
+      { width: 640, height: 800 },
+      { width: 960, height: 1200 },
+    ]);
+    expect(RASTER_GROUPS.ios.targets.map(t => t.size)).toContain(180);
+    expect(RASTER_GROUPS.android.targets.map(t => t.size)).toEqual([48, 72, 96, 144, 192, 512]);
+    expect(RASTER_GROUPS.favicon.targets.map(t => t.size)).toEqual([16, 32, 48, 180, 192, 512]);
+  });
+
+  it('should name one file per target and format with the default pattern', () => {
+    const files = getRasterFiles(RASTER_GROUPS.scale.targets, ['png', 'webp'], size);
+    expect(files.map(file => file.filename)).toEqual([
+      'scale/superellipse-1x.png',
+      'scale/superellipse-1x.webp',
+      'scale/superellipse-2x.png',
+      'scale/superellipse-2x.webp',
+      'scale/superellipse-3x.png',
+      'scale/superellipse-3x.webp',
+    ]);
+    expect(files[5]).toMatchObject({ format: 'webp', width: 960, height: 1200 });
+  });
+
+  it('should fill custom patterns and number names it does not tell apart', () => {
+    const files = getRasterFiles(RASTER_GROUPS.ios.targets, ['png'], size, 'AppIcon-{width}.{ext}', 'app');
+    const names = files.map(file => file.filename);
+    expect(names).toContain('AppIcon-180.png');
+    // 40@3x and 60@2x are both 120px
+    expect(names).toContain('AppIcon-120.png');
+    expect(names).toContain('AppIcon-120-2.png');
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should reject unknown tokens and relative folders', () => {
+    const values = { name: 'a', group: 'ios', label: '1x', width: '1', height: '1', format: 'png', ext: 'png' };
+    expect(formatRasterFilename('{format}/{name}@{label}.{ext}', values)).toBe('png/a@1x.png');
+    expect(formatRasterFilename('{name}:{label}?.{ext}', values)).toBe('a-1x-.png');
+    expect(() => formatRasterFilename('{size}.png', values)).toThrow(ValidationError);
+    expect(() => formatRasterFilename('../{name}.png', values)).toThrow('relative folder');
+    expect(() => formatRasterFilename('/{name}.png', values)).toThrow(
+      expect.objectContaining({ code: ErrorCode.E_INVALID_FILENAME_PATTERN })
+    );
+    expect(DEFAULT_FILENAME_PATTERN).toBe('{group}/{name}-{label}.{ext}');
+  });
+
+  it('should size the batch from the exported SVG, outside strokes included', () => {
+    const state = { ...DEFAULT_STATE, width: 120, height: 80, borderEnabled: true, strokePosition: 'outside' as const, strokeWidth: 4 };
+    expect(getSVGSize(generateSVG(state, getSuperellipsePath(120, 80, 4)))).toEqual({ width: 128, height: 88 });
+  });
+});
+
+// ============================================================================
+// ENCODER SUPPORT
+// ============================================================================
+
+describe('getSupportedRasterFormats', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should detect encoders that fall back to PNG', async () => {
+    // Like a browser without an AVIF encoder
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(function (callback, type) {
+      callback(new Blob([], { type: type === 'image/avif' ? 'image/png' : type }));
+    });
+    await expect(getSupportedRasterFormats()).resolves.toEqual({ png: true, webp: true, avif: false });
+  });
+});
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+describe('createZip', () => {
+  const encoder = new TextEncoder();
+
+  it('should compute IEEE CRC-32 checksums', () => {
+    expect(crc32(encoder.encode('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store every file with a central directory', () => {
+    const files = [
+      { name: 'ios/icon-60@3x.png', data: encoder.encode('png bytes') },
+      { name: 'favicon/icon-32.webp', data: new Uint8Array([0, 1, 2, 255]) },
+    ];
+    const zip = createZip(files, new Date(2024, 0, 2, 3, 4, 6));
+    const view = new DataView(zip.buffer);
+    const decoder = new TextDecoder();
+
+    // End of central directory record
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    let central = view.getUint32(end + 16, true);
+
+    for (const file of files) {
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      expect(view.getUint16(central + 10, true)).toBe(0); // Stored
+      expect(view.getUint16(central + 12, true)).toBe((3 << 11) | (4 << 5) | 3);
+      expect(view.getUint16(central + 14, true)).toBe((44 << 9) | (1 << 5) | 2);
+      expect(view.getUint32(central + 16, true)).toBe(crc32(file.data));
+      const nameLength = view.getUint16(central + 28, true);
+      expect(decoder.decode(zip.subarray(central + 46, central + 46 + nameLength))).toBe(file.name);
+
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      expect(Array.from(zip.subarray(dataStart, dataStart + file.data.length))).toEqual(Array.from(file.data));
+
+      central += 46 + nameLength;
+    }
+  });
+
+  it('should refuse duplicate names', () => {
+    const data = new Uint8Array([1]);
+    expect(() => createZip([{ name: 'a.png', data }, { name: 'a.png', data }])).toThrow('Duplicate');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_STATE,
+  STATE_VERSION,
+  SuperellipseStateSchema,
+  parseSuperellipseState,
+  serializeState,
+  encodeStateForUrl,
+  decodeStateFromUrl,
+} from '@/lib/stateSchema';
+import { ValidationError, ErrorCode } from '@/lib/errors';
+
+describe('SuperellipseStateSchema', () => {
+  it('should build the default state from an empty object', () => {
+    expect(SuperellipseStateSchema.parse({})).toEqual(DEFAULT_STATE);
+    expect(DEFAULT_STATE.width).toBe(320);
+    expect(DEFAULT_STATE.strokePosition).toBe('inside');
+    expect(DEFAULT_STATE.gradientStops).toHaveLength(3);
+  });
+
+  it('should fill missing fields with defaults', () => {
+    const result = parseSuperellipseState({ width: 200, height: 100, exp: 6 });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.width).toBe(200);
+    expect(result.data.colorMode).toBe(DEFAULT_STATE.colorMode);
+    expect(result.data.superformula).toEqual(DEFAULT_STATE.superformula);
+  });
+
+  it('should reject out of range values with the field path', () => {
+    const result = parseSuperellipseState({ width: -10, exp: 20 });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toBeInstanceOf(ValidationError);
+    expect(result.error.code).toBe(ErrorCode.E_INVALID_PRESET_DATA);
+    expect(result.error.message).toContain('width');
+    expect(result.error.message).toContain('exp');
+  });
+
+  it('should reject invalid gradient stops and enums', () => {
+    expect(parseSuperellipseState({ gradientStops: [{ color: '#FFF', position: 140 }] }).success).toBe(false);
+    expect(parseSuperellipseState({ colorMode: 'mesh' }).success).toBe(false);
+    expect(parseSuperellipseState({ strokePosition: 'middle' }).success).toBe(false);
+  });
+
+  it('should reject values that are not objects', () => {
+    expect(parseSuperellipseState(null).success).toBe(false);
+    expect(parseSuperellipseState('state').success).toBe(false);
+    expect(parseSuperellipseState([]).success).toBe(false);
+  });
+});
+
+describe('state migration', () => {
+  it('should wrap states with the current version', () => {
+    const serialized = serializeState(DEFAULT_STATE);
+    expect(serialized.version).toBe(STATE_VERSION);
+    expect(parseSuperellipseState(serialized)).toEqual({ success: true, data: DEFAULT_STATE });
+  });
+
+  it('should derive corner exponents from exp for unversioned states', () => {
+    const result = parseSuperellipseState({ width: 200, height: 200, exp: 7 });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.cornerExponents).toEqual({ topLeft: 7, topRight: 7, bottomRight: 7, bottomLeft: 7 });
+  });
+
+  it('should keep corner exponents saved by version 1', () => {
+    const cornerExponents = { topLeft: 2, topRight: 3, bottomRight: 4, bottomLeft: 5 };
+    const result = parseSuperellipseState({ version: 1, state: { exp: 7, cornerExponents } });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.cornerExponents).toEqual(cornerExponents);
+  });
+
+  it('should not migrate states that are already current', () => {
+    const result = parseSuperellipseState({ version: STATE_VERSION, state: { exp: 7 } });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.cornerExponents).toEqual(DEFAULT_STATE.cornerExponents);
+  });
+
+  it('should reject versions from the future', () => {
+    const result = parseSuperellipseState({ version: STATE_VERSION + 1, state: {} });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.message).toContain('newer version');
+  });
+});
+
+describe('URL state', () => {
+  it('should round-trip a state through a URL-safe string', () => {
+    const state = { ...DEFAULT_STATE, width: 512, solidColor: '#12AB34', colorMode: 'conic' as const };
+    const encoded = encodeStateForUrl(state);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeStateFromUrl(encoded)).toEqual({ success: true, data: state });
+  });
+
+  it('should reject malformed input', () => {
+    expect(decodeStateFromUrl('%%%').success).toBe(false);
+    expect(decodeStateFromUrl(encodeStateForUrl(DEFAULT_STATE).slice(0, 20)).success).toBe(false);
+  });
+
+  it('should validate decoded states', () => {
+    const encoded = btoa(JSON.stringify({ version: STATE_VERSION, state: { height: 0 } }));
+    const result = decodeStateFromUrl(encoded);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.message).toContain('height');
+  });
+});
@@ -2,6 +2,13 @@ import { describe, it, expect } from 'vitest';
 import {
   getSuperellipsePerimeter,
   getSuperellipseArea,
+  getAsymmetricSuperellipsePerimeter,
+  getAsymmetricSuperellipseArea,
+  getSuperellipsePath,
+  getAsymmetricSuperellipsePath,
+  getShapeMetrics,
+  gamma,
+  CornerExponents,
 } from '@/utils/math';
 
 describe('getSuperellipsePerimeter', () => {
@@ -208,3 +215,142 @@ describe('Perimeter and Area relationship', () => {
     expect(largeArea / smallArea).toBeCloseTo(4, 0);
   });
 });
+
+// Shoelace area and polyline length of a densely sampled outline
+const measurePolyline = (path: string) => {
+  const nums = path.replace(/[MLZ]/g, ' ').trim().split(/\s+/).map(Number);
+  let area = 0;
+  let length = 0;
+  const count = nums.length / 2;
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const [x0, y0, x1, y1] = [nums[2 * i], nums[2 * i + 1], nums[2 * j], nums[2 * j + 1]];
+    area += x0 * y1 - x1 * y0;
+    length += Math.hypot(x1 - x0, y1 - y0);
+  }
+  return { area: Math.abs(area) / 2, length };
+};
+
+const DENSE = { steps: 100000, precision: 9 };
+
+describe('gamma', () => {
+  it('should match known values', () => {
+    expect(gamma(1)).toBeCloseTo(1, 14);
+    expect(gamma(0.5)).toBeCloseTo(Math.sqrt(Math.PI), 14);
+    expect(gamma(1.5)).toBeCloseTo(Math.sqrt(Math.PI) / 2, 14);
+    expect(gamma(5) / 24).toBeCloseTo(1, 14);
+  });
+});
+
+describe('getSuperellipseArea (closed form)', () => {
+  it('should be exact for the circle, ellipse and diamond', () => {
+    expect(getSuperellipseArea(100, 100, 2)).toBeCloseTo(Math.PI * 2500, 9);
+    expect(getSuperellipseArea(200, 100, 2)).toBeCloseTo(Math.PI * 100 * 50, 9);
+    expect(getSuperellipseArea(200, 100, 1)).toBeCloseTo(10000, 9);
+  });
+
+  it('should agree with numeric integration of the outline', () => {
+    for (const n of [0.5, 1.5, 4, 10]) {
+      const { area } = measurePolyline(getSuperellipsePath(200, 120, n, DENSE));
+      expect(Math.abs(getSuperellipseArea(200, 120, n) - area) / area).toBeLessThan(1e-6);
+    }
+  });
+
+  it('should throw error for invalid input', () => {
+    expect(() => getSuperellipseArea(0, 100, 2)).toThrow('Width, height, and exponent must be positive numbers');
+    expect(() => getSuperellipseArea(100, 100, 0)).toThrow('Width, height, and exponent must be positive numbers');
+  });
+});
+
+describe('getSuperellipsePerimeter (quadrature)', () => {
+  it('should be exact for the circle and diamond', () => {
+    expect(getSuperellipsePerimeter(100, 100, 2)).toBeCloseTo(100 * Math.PI, 10);
+    expect(getSuperellipsePerimeter(200, 100, 1)).toBeCloseTo(4 * Math.hypot(100, 50), 10);
+  });
+
+  it('should match Ramanujan\'s ellipse approximation', () => {
+    const a = 100;
+    const b = 80;
+    const h = ((a - b) / (a + b)) ** 2;
+    const ramanujan = Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+    expect(Math.abs(getSuperellipsePerimeter(2 * a, 2 * b, 2) - ramanujan) / ramanujan).toBeLessThan(1e-10);
+  });
+
+  it('should agree with numeric integration of the outline', () => {
+    for (const n of [0.5, 1.5, 4, 10, 40]) {
+      const { length } = measurePolyline(getSuperellipsePath(200, 120, n, DENSE));
+      expect(Math.abs(getSuperellipsePerimeter(200, 120, n) - length) / length).toBeLessThan(1e-7);
+    }
+  });
+
+  it('should approach the bounding box perimeter for large exponents', () => {
+    expect(getSuperellipsePerimeter(200, 100, 40) / 600).toBeGreaterThan(0.97);
+    expect(getSuperellipsePerimeter(200, 100, 40)).toBeLessThan(600);
+  });
+});
+
+describe('asymmetric area and perimeter', () => {
+  const corners: CornerExponents = { topLeft: 2, topRight: 6, bottomRight: 4, bottomLeft: 8 };
+
+  it('should reduce to the uniform formulas when all corners match', () => {
+    const uniform: CornerExponents = { topLeft: 4, topRight: 4, bottomRight: 4, bottomLeft: 4 };
+    expect(getAsymmetricSuperellipseArea(200, 120, uniform)).toBeCloseTo(getSuperellipseArea(200, 120, 4), 6);
+    expect(getAsymmetricSuperellipsePerimeter(200, 120, uniform)).toBeCloseTo(getSuperellipsePerimeter(200, 120, 4), 6);
+  });
+
+  it('should sum quarter areas when corners switch sharply', () => {
+    const expected = (getSuperellipseArea(200, 120, 2) + getSuperellipseArea(200, 120, 6) +
+      getSuperellipseArea(200, 120, 4) + getSuperellipseArea(200, 120, 8)) / 4;
+    expect(getAsymmetricSuperellipseArea(200, 120, corners, { smoothing: 0 })).toBeCloseTo(expected, 9);
+  });
+
+  it('should agree with numeric integration for every blend', () => {
+    const blends = [
+      { smoothing: 0 },
+      { smoothing: 0.5 },
+      { smoothing: 1, blend: 'linear' as const },
+      { smoothing: 0.3, blend: 'cosine' as const },
+    ];
+    for (const options of blends) {
+      const { area, length } = measurePolyline(getAsymmetricSuperellipsePath(200, 120, corners, { ...options, ...DENSE }));
+      expect(Math.abs(getAsymmetricSuperellipseArea(200, 120, corners, options) - area) / area).toBeLessThan(1e-6);
+      expect(Math.abs(getAsymmetricSuperellipsePerimeter(200, 120, corners, options) - length) / length).toBeLessThan(1e-7);
+    }
+  });
+});
+
+describe('getShapeMetrics', () => {
+  const corners: CornerExponents = { topLeft: 2, topRight: 6, bottomRight: 4, bottomLeft: 8 };
+
+  it('should report the fill ratio of the bounding box', () => {
+    const metrics = getShapeMetrics({ width: 100, height: 100, exp: 2 });
+    expect(metrics?.area).toBeCloseTo(Math.PI * 2500, 9);
+    expect(metrics?.perimeter).toBeCloseTo(100 * Math.PI, 9);
+    expect(metrics?.fillRatio).toBeCloseTo(Math.PI / 4, 12);
+  });
+
+  it('should use the blended asymmetric outline', () => {
+    const state = { width: 200, height: 120, exp: 4, useAsymmetricCorners: true, cornerExponents: corners, smoothing: 0.5 };
+    expect(getShapeMetrics(state)?.area).toBeCloseTo(getAsymmetricSuperellipseArea(200, 120, corners, { smoothing: 0.5 }), 9);
+  });
+
+  it('should measure per-corner sizes exactly', () => {
+    const metrics = getShapeMetrics({
+      width: 200,
+      height: 120,
+      exp: 4,
+      useAsymmetricCorners: true,
+      cornerExponents: { topLeft: 2, topRight: 2, bottomRight: 2, bottomLeft: 2 },
+      useCornerRadii: true,
+      cornerRadii: { topLeft: 20, topRight: 0, bottomRight: 0, bottomLeft: 0 },
+    });
+    // One quarter-circle corner of radius 20
+    expect(metrics?.area).toBeCloseTo(200 * 120 - 400 * (1 - Math.PI / 4), 9);
+    expect(metrics?.perimeter).toBeCloseTo(2 * (200 + 120) - 40 + 10 * Math.PI, 9);
+  });
+
+  it('should return null for the other shape models', () => {
+    expect(getShapeMetrics({ width: 100, height: 100, exp: 4, shapeModel: 'smooth-corners' })).toBeNull();
+    expect(getShapeMetrics({ width: 100, height: 100, exp: 4, shapeModel: 'superformula' })).toBeNull();
+  });
+});
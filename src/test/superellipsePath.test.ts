@@ -2,8 +2,31 @@ import { describe, it, expect } from 'vitest';
 import { 
   getSuperellipsePath, 
   getAsymmetricSuperellipsePath,
-  CornerExponents 
+  getSuperellipseBezierPath,
+  getAsymmetricSuperellipseBezierPath,
+  getExponentForAngle,
+  getSmoothCornerPath,
+  getStatePath,
+  getCornerRadiiPath,
+  getCornerRadiiBezierPath,
+  fitCornerRadii,
+  getSuperformulaRadius,
+  getSuperformulaPath,
+  getSuperformulaBezierPath,
+  isPointInside,
+  getSignedDistance,
+  getOffsetPath,
+  getRingPath,
+  interpolateState,
+  getMorphKeyframes,
+  generateMorphCSS,
+  generateMorphSVG,
+  generateCSS,
+  generateSVG,
+  CornerExponents,
+  SuperellipseState,
 } from '@/utils/math';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
 
 describe('getSuperellipsePath', () => {
   it('should generate a valid SVG path', () => {
@@ -98,6 +121,155 @@ describe('getSuperellipsePath', () => {
   });
 });
 
+describe('getSuperellipsePath with adaptive sampling', () => {
+  const parsePoints = (path: string) => {
+    const nums = path.replace(/[MLZ]/g, ' ').trim().split(/\s+/).map(Number);
+    const points: Array<{ x: number; y: number }> = [];
+    for (let i = 0; i + 1 < nums.length; i += 2) points.push({ x: nums[i], y: nums[i + 1] });
+    return points;
+  };
+
+  const distanceToPolyline = (x: number, y: number, points: Array<{ x: number; y: number }>) => {
+    let best = Infinity;
+    for (let i = 0; i < points.length - 1; i++) {
+      const s = points[i];
+      const e = points[i + 1];
+      const dx = e.x - s.x;
+      const dy = e.y - s.y;
+      const lenSq = dx * dx + dy * dy;
+      const k = lenSq > 0 ? Math.max(0, Math.min(1, ((x - s.x) * dx + (y - s.y) * dy) / lenSq)) : 0;
+      best = Math.min(best, Math.hypot(x - (s.x + k * dx), y - (s.y + k * dy)));
+    }
+    return best;
+  };
+
+  it('should keep every curve point within the max chord error', () => {
+    const w = 2000;
+    const h = 1200;
+    const n = 6;
+    const points = parsePoints(getSuperellipsePath(w, h, n, { sampling: 'adaptive', maxChordError: 0.5, precision: 3 }));
+
+    let worst = 0;
+    for (let i = 0; i < 2000; i++) {
+      const t = (i * 2 * Math.PI) / 2000;
+      const x = (w / 2) * Math.sign(Math.cos(t)) * Math.pow(Math.abs(Math.cos(t)), 2 / n) + w / 2;
+      const y = (h / 2) * Math.sign(Math.sin(t)) * Math.pow(Math.abs(Math.sin(t)), 2 / n) + h / 2;
+      worst = Math.max(worst, distanceToPolyline(x, y, points));
+    }
+    expect(worst).toBeLessThanOrEqual(0.5 + 0.01);
+  });
+
+  it('should use fewer points than uniform sampling on large shapes', () => {
+    const adaptive = getSuperellipsePath(2000, 2000, 10, { sampling: 'adaptive', maxChordError: 0.25 });
+    const uniform = getSuperellipsePath(2000, 2000, 10);
+    expect(parsePoints(adaptive).length).toBeLessThan(parsePoints(uniform).length);
+  });
+
+  it('should concentrate points in the corners at high exponents', () => {
+    const points = parsePoints(getSuperellipsePath(1000, 1000, 10, { sampling: 'adaptive', maxChordError: 0.25 }));
+    // Points near the diagonal corners vs. on the middle of the flat sides
+    const inCorners = points.filter(p => Math.abs(Math.abs(p.x - 500) - Math.abs(p.y - 500)) < 150).length;
+    const onSides = points.filter(p => Math.min(Math.abs(p.x - 500), Math.abs(p.y - 500)) < 150).length;
+    expect(inCorners).toBeGreaterThan(onSides * 2);
+  });
+
+  it('should add points as the chord error shrinks', () => {
+    const coarse = getSuperellipsePath(400, 400, 4, { sampling: 'adaptive', maxChordError: 2 });
+    const fine = getSuperellipsePath(400, 400, 4, { sampling: 'adaptive', maxChordError: 0.05 });
+    expect(parsePoints(fine).length).toBeGreaterThan(parsePoints(coarse).length);
+  });
+
+  it('should throw error for a non-positive chord error', () => {
+    expect(() => getSuperellipsePath(100, 100, 4, { sampling: 'adaptive', maxChordError: 0 })).toThrow('Max chord error must be a positive number');
+  });
+
+  it('should support asymmetric corners', () => {
+    const corners: CornerExponents = { topLeft: 1, topRight: 5, bottomRight: 10, bottomLeft: 3 };
+    const path = getAsymmetricSuperellipsePath(400, 400, corners, { sampling: 'adaptive', maxChordError: 0.25 });
+    expect(path.startsWith('M')).toBe(true);
+    expect(path.endsWith('Z')).toBe(true);
+  });
+});
+
+describe('getExponentForAngle', () => {
+  const corners: CornerExponents = {
+    topLeft: 2,
+    topRight: 6,
+    bottomRight: 4,
+    bottomLeft: 8,
+  };
+
+  // Largest jump between neighbouring finite-difference slopes of n(t)
+  const maxSlopeJump = (options: Parameters<typeof getExponentForAngle>[2]) => {
+    const samples = 20000;
+    const dt = (2 * Math.PI) / samples;
+    const slopes: number[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const t = i * dt;
+      slopes.push((getExponentForAngle(t + dt, corners, options) - getExponentForAngle(t, corners, options)) / dt);
+    }
+    let maxJump = 0;
+    for (let i = 1; i < slopes.length; i++) {
+      maxJump = Math.max(maxJump, Math.abs(slopes[i] - slopes[i - 1]));
+    }
+    return maxJump;
+  };
+
+  it('should return each corner exponent on its diagonal', () => {
+    expect(getExponentForAngle(Math.PI / 4, corners)).toBe(corners.bottomRight);
+    expect(getExponentForAngle((3 * Math.PI) / 4, corners)).toBe(corners.bottomLeft);
+    expect(getExponentForAngle((5 * Math.PI) / 4, corners)).toBe(corners.topLeft);
+    expect(getExponentForAngle((7 * Math.PI) / 4, corners)).toBe(corners.topRight);
+  });
+
+  it('should meet halfway between corners on every axis', () => {
+    expect(getExponentForAngle(0, corners)).toBeCloseTo((corners.topRight + corners.bottomRight) / 2, 10);
+    expect(getExponentForAngle(Math.PI / 2, corners)).toBeCloseTo((corners.bottomRight + corners.bottomLeft) / 2, 10);
+    expect(getExponentForAngle(Math.PI, corners)).toBeCloseTo((corners.bottomLeft + corners.topLeft) / 2, 10);
+    expect(getExponentForAngle((3 * Math.PI) / 2, corners)).toBeCloseTo((corners.topLeft + corners.topRight) / 2, 10);
+  });
+
+  it('should switch sharply at the axes when smoothing is 0', () => {
+    const eps = 1e-6;
+    expect(getExponentForAngle(Math.PI / 2 - eps, corners, { smoothing: 0 })).toBe(corners.bottomRight);
+    expect(getExponentForAngle(Math.PI / 2 + eps, corners, { smoothing: 0 })).toBe(corners.bottomLeft);
+  });
+
+  it('should hold the corner exponent outside the blend zone', () => {
+    const t = Math.PI / 4 + Math.PI / 16;
+    expect(getExponentForAngle(t, corners, { smoothing: 0.5 })).toBe(corners.bottomRight);
+    expect(getExponentForAngle(t, corners, { smoothing: 1 })).not.toBe(corners.bottomRight);
+  });
+
+  it('should be continuous for every curve', () => {
+    const dt = 1e-7;
+    for (const blend of ['linear', 'smoothstep', 'cosine'] as const) {
+      for (let k = 0; k < 4; k++) {
+        const axis = (k * Math.PI) / 2;
+        const left = getExponentForAngle(axis - dt, corners, { blend });
+        const right = getExponentForAngle(axis + dt, corners, { blend });
+        expect(Math.abs(right - left)).toBeLessThan(1e-5);
+      }
+    }
+  });
+
+  it('should have a continuous first derivative (C1) for smoothstep and cosine', () => {
+    // A kink shows up as a slope jump of the order of the slope itself (~10 here)
+    expect(maxSlopeJump({ blend: 'smoothstep' })).toBeLessThan(0.05);
+    expect(maxSlopeJump({ blend: 'cosine' })).toBeLessThan(0.05);
+    expect(maxSlopeJump({ blend: 'smoothstep', smoothing: 1 })).toBeLessThan(0.05);
+  });
+
+  it('should only be C0 for the linear curve', () => {
+    expect(maxSlopeJump({ blend: 'linear' })).toBeGreaterThan(1);
+  });
+
+  it('should treat angles modulo 2π', () => {
+    expect(getExponentForAngle(Math.PI / 4 + 2 * Math.PI, corners)).toBe(corners.bottomRight);
+    expect(getExponentForAngle(-Math.PI / 4, corners)).toBe(corners.topRight);
+  });
+});
+
 describe('getAsymmetricSuperellipsePath', () => {
   const symmetricCorners: CornerExponents = {
     topLeft: 2,
@@ -160,6 +332,12 @@ describe('getAsymmetricSuperellipsePath', () => {
     expect(path1).not.toBe(path2);
   });
 
+  it('should change the outline with the blend settings', () => {
+    const sharp = getAsymmetricSuperellipsePath(100, 100, asymmetricCorners, { smoothing: 0 });
+    const smooth = getAsymmetricSuperellipsePath(100, 100, asymmetricCorners, { smoothing: 1, blend: 'cosine' });
+    expect(sharp).not.toBe(smooth);
+  });
+
   it('should respect precision option', () => {
     const pathLowPrecision = getAsymmetricSuperellipsePath(100, 100, asymmetricCorners, { precision: 0 });
     const pathHighPrecision = getAsymmetricSuperellipsePath(100, 100, asymmetricCorners, { precision: 4 });
@@ -167,3 +345,842 @@ describe('getAsymmetricSuperellipsePath', () => {
     expect(pathLowPrecision.length).toBeLessThan(pathHighPrecision.length);
   });
 });
+
+// Sample every cubic segment of an "M … C … Z" path
+const sampleBezierPath = (path: string, samplesPerSegment = 20) => {
+  const nums = path.replace(/[MCZ]/g, ' ').trim().split(/\s+/).map(Number);
+  const points: Array<{ x: number; y: number }> = [];
+  let x0 = nums[0];
+  let y0 = nums[1];
+  for (let i = 2; i + 5 < nums.length; i += 6) {
+    const [x1, y1, x2, y2, x3, y3] = nums.slice(i, i + 6);
+    for (let k = 0; k <= samplesPerSegment; k++) {
+      const u = k / samplesPerSegment;
+      const mu = 1 - u;
+      points.push({
+        x: mu ** 3 * x0 + 3 * mu ** 2 * u * x1 + 3 * mu * u ** 2 * x2 + u ** 3 * x3,
+        y: mu ** 3 * y0 + 3 * mu ** 2 * u * y1 + 3 * mu * u ** 2 * y2 + u ** 3 * y3,
+      });
+    }
+    x0 = x3;
+    y0 = y3;
+  }
+  return points;
+};
+
+// Distance from a point to a densely sampled analytic superellipse
+const distanceToSuperellipse = (x: number, y: number, w: number, h: number, n: number) => {
+  const a = w / 2;
+  const b = h / 2;
+  let best = Infinity;
+  for (let i = 0; i < 4000; i++) {
+    const t = (i * 2 * Math.PI) / 4000;
+    const px = a * Math.sign(Math.cos(t)) * Math.pow(Math.abs(Math.cos(t)), 2 / n) + a;
+    const py = b * Math.sign(Math.sin(t)) * Math.pow(Math.abs(Math.sin(t)), 2 / n) + b;
+    best = Math.min(best, Math.hypot(x - px, y - py));
+  }
+  return best;
+};
+
+describe('isPointInside', () => {
+  const corners: CornerExponents = {
+    topLeft: 1,
+    topRight: 5,
+    bottomRight: 10,
+    bottomLeft: 3,
+  };
+
+  it('matches the implicit equation for uniform shapes', () => {
+    const shape = { width: 200, height: 100, exp: 4 };
+    expect(isPointInside(100, 50, shape)).toBe(true);
+    expect(isPointInside(195, 50, shape)).toBe(true);
+    expect(isPointInside(198, 95, shape)).toBe(false);
+    expect(isPointInside(-1, 50, shape)).toBe(false);
+    expect(isPointInside(100, 101, shape)).toBe(false);
+  });
+
+  it('treats the circle case exactly', () => {
+    const shape = { width: 100, height: 100, exp: 2 };
+    const r = 50 / Math.SQRT2;
+    expect(isPointInside(50 + r - 1e-6, 50 + r - 1e-6, shape)).toBe(true);
+    expect(isPointInside(50 + r + 1e-6, 50 + r + 1e-6, shape)).toBe(false);
+  });
+
+  it('follows each corner exponent in asymmetric mode', () => {
+    const shape = { width: 100, height: 100, cornerExponents: corners };
+    // Near the sharp bottom-right corner (n = 10) but outside the diamond top-left (n = 1)
+    expect(isPointInside(95, 95, shape)).toBe(true);
+    expect(isPointInside(5, 5, shape)).toBe(false);
+    expect(isPointInside(30, 30, shape)).toBe(true);
+    expect(isPointInside(50, 50, shape)).toBe(true);
+  });
+
+  it('agrees with the uniform test when all corners match', () => {
+    const uniform = { width: 160, height: 120, exp: 3 };
+    const asymmetric = {
+      width: 160,
+      height: 120,
+      cornerExponents: { topLeft: 3, topRight: 3, bottomRight: 3, bottomLeft: 3 },
+    };
+    for (let x = 0; x <= 160; x += 7) {
+      for (let y = 0; y <= 120; y += 7) {
+        expect(isPointInside(x, y, asymmetric)).toBe(isPointInside(x, y, uniform));
+      }
+    }
+  });
+
+  it('throws for invalid shapes', () => {
+    expect(() => isPointInside(0, 0, { width: 0, height: 100, exp: 4 })).toThrow();
+    expect(() => isPointInside(0, 0, { width: 100, height: 100 })).toThrow();
+  });
+});
+
+describe('getSignedDistance', () => {
+  it('is exact for a circle', () => {
+    const shape = { width: 100, height: 100, exp: 2 };
+    expect(getSignedDistance(50, 50, shape)).toBeCloseTo(-50, 6);
+    expect(getSignedDistance(150, 50, shape)).toBeCloseTo(50, 6);
+    expect(getSignedDistance(80, 90, shape)).toBeCloseTo(Math.hypot(30, 40) - 50, 6);
+  });
+
+  it('is negative inside, positive outside and zero on the outline', () => {
+    const shape = { width: 200, height: 120, exp: 5 };
+    expect(getSignedDistance(100, 60, shape)).toBeLessThan(0);
+    expect(getSignedDistance(199, 119, shape)).toBeGreaterThan(0);
+    expect(getSignedDistance(200, 60, shape)).toBeCloseTo(0, 6);
+    expect(getSignedDistance(100, 0, shape)).toBeCloseTo(0, 6);
+  });
+
+  it('measures straight off the flat sides', () => {
+    const shape = { width: 200, height: 120, exp: 5 };
+    expect(getSignedDistance(230, 60, shape)).toBeCloseTo(30, 6);
+    expect(getSignedDistance(100, -12, shape)).toBeCloseTo(12, 6);
+  });
+
+  it('matches the distance to a dense outline in asymmetric mode', () => {
+    const corners = { topLeft: 1.5, topRight: 6, bottomRight: 3, bottomLeft: 10 };
+    const shape = { width: 180, height: 140, cornerExponents: corners };
+    const points = getAsymmetricSuperellipsePath(180, 140, corners, { steps: 20000, precision: 6 })
+      .match(/-?\d+(?:\.\d+)?/g)!
+      .map(Number);
+
+    for (const [x, y] of [[10, 10], [170, 20], [90, 70], [200, 150], [30, 120]]) {
+      let nearest = Infinity;
+      for (let i = 0; i < points.length; i += 2) {
+        nearest = Math.min(nearest, Math.hypot(points[i] - x, points[i + 1] - y));
+      }
+      expect(Math.abs(getSignedDistance(x, y, shape))).toBeCloseTo(nearest, 1);
+    }
+  });
+});
+
+describe('getOffsetPath', () => {
+  const parsePoints = (path: string) => {
+    const values = path.match(/-?\d+(?:\.\d+)?/g)!.map(Number);
+    const points: Array<{ x: number; y: number }> = [];
+    for (let i = 0; i < values.length; i += 2) {
+      points.push({ x: values[i], y: values[i + 1] });
+    }
+    return points;
+  };
+
+  it('grows and shrinks a circle by the offset', () => {
+    const shape = { width: 100, height: 100, exp: 2 };
+    for (const distance of [-20, 10]) {
+      for (const p of parsePoints(getOffsetPath(shape, distance, { precision: 6 }))) {
+        expect(Math.hypot(p.x - 50, p.y - 50)).toBeCloseTo(50 + distance, 4);
+      }
+    }
+  });
+
+  it('keeps every point at the offset distance from the outline', () => {
+    const shapes = [
+      { width: 200, height: 120, exp: 10 },
+      { width: 160, height: 160, cornerExponents: { topLeft: 2, topRight: 8, bottomRight: 4, bottomLeft: 1.5 } },
+    ];
+    for (const shape of shapes) {
+      for (const distance of [-24, 12]) {
+        const points = parsePoints(getOffsetPath(shape, distance, { sampling: 'adaptive', precision: 6 }));
+        for (const p of points) {
+          expect(Math.abs(getSignedDistance(p.x, p.y, shape) - distance)).toBeLessThan(0.1);
+        }
+      }
+    }
+  });
+
+  it('trims the loops an inset forms in tight corners', () => {
+    // Corner curvature radius of n = 12 is far below the inset
+    const shape = { width: 200, height: 200, exp: 12 };
+    const points = parsePoints(getOffsetPath(shape, -30, { steps: 720, precision: 6 }));
+    for (const p of points) {
+      expect(getSignedDistance(p.x, p.y, shape)).toBeCloseTo(-30, 1);
+    }
+  });
+
+  it('returns the outline itself for a zero offset', () => {
+    expect(getOffsetPath({ width: 120, height: 80, exp: 4 }, 0)).toBe(getSuperellipsePath(120, 80, 4));
+  });
+
+  it('throws when the inset swallows the shape', () => {
+    expect(() => getOffsetPath({ width: 100, height: 60, exp: 4 }, -30)).toThrow();
+  });
+});
+
+describe('getRingPath', () => {
+  it('joins the outer and inner edges as two subpaths', () => {
+    const shape = { width: 120, height: 120, exp: 4 };
+    const ring = getRingPath(shape, -12, 0);
+    expect(ring.match(/M/g)).toHaveLength(2);
+    expect(ring.startsWith(getOffsetPath(shape, 0))).toBe(true);
+    expect(ring.endsWith(getOffsetPath(shape, -12))).toBe(true);
+  });
+
+  it('rejects inverted offsets', () => {
+    expect(() => getRingPath({ width: 120, height: 120, exp: 4 }, 4, 2)).toThrow();
+  });
+});
+
+describe('getSuperellipseBezierPath', () => {
+  it('should generate a closed path of cubic segments', () => {
+    const { path, segmentCount } = getSuperellipseBezierPath(100, 100, 4);
+    expect(path.startsWith('M')).toBe(true);
+    expect(path).toContain('C');
+    expect(path).not.toContain('L');
+    expect(path.endsWith('Z')).toBe(true);
+    expect(path.match(/C/g)).toHaveLength(segmentCount);
+  });
+
+  it('should be far more compact than the polyline path', () => {
+    const bezier = getSuperellipseBezierPath(320, 400, 4);
+    const polyline = getSuperellipsePath(320, 400, 4);
+    expect(bezier.segmentCount).toBeLessThanOrEqual(24);
+    expect(bezier.path.length * 4).toBeLessThan(polyline.length);
+  });
+
+  it('should report a max error within the requested tolerance', () => {
+    [1.5, 2, 4, 10].forEach(n => {
+      const { maxError } = getSuperellipseBezierPath(320, 400, n, { tolerance: 0.25 });
+      expect(maxError).toBeLessThanOrEqual(0.25);
+    });
+  });
+
+  it('should stay within tolerance of the analytic curve', () => {
+    const w = 300;
+    const h = 200;
+    const n = 5;
+    const { path } = getSuperellipseBezierPath(w, h, n, { tolerance: 0.5, precision: 3 });
+    const points = sampleBezierPath(path, 8);
+    const worst = Math.max(...points.map(p => distanceToSuperellipse(p.x, p.y, w, h, n)));
+    // Slack covers coordinate rounding and the reference sampling density
+    expect(worst).toBeLessThan(0.5 + 0.1);
+  });
+
+  it('should use fewer segments for a looser tolerance', () => {
+    const tight = getSuperellipseBezierPath(400, 400, 4, { tolerance: 0.05 });
+    const loose = getSuperellipseBezierPath(400, 400, 4, { tolerance: 2 });
+    expect(loose.segmentCount).toBeLessThan(tight.segmentCount);
+  });
+
+  it('should preserve the corners of a diamond (n=1)', () => {
+    const { path, segmentCount, maxError } = getSuperellipseBezierPath(100, 100, 1);
+    expect(segmentCount).toBe(4);
+    expect(maxError).toBeLessThan(0.01);
+    expect(path).toContain('50.00 100.00');
+  });
+
+  it('should throw error for invalid input', () => {
+    expect(() => getSuperellipseBezierPath(0, 100, 4)).toThrow('Width, height, and exponent must be positive numbers');
+    expect(() => getSuperellipseBezierPath(100, 100, 4, { tolerance: 0 })).toThrow('Tolerance must be a positive number');
+  });
+});
+
+describe('getAsymmetricSuperellipseBezierPath', () => {
+  it('should fit asymmetric corners within tolerance', () => {
+    const corners: CornerExponents = { topLeft: 1, topRight: 5, bottomRight: 10, bottomLeft: 3 };
+    const { path, maxError } = getAsymmetricSuperellipseBezierPath(200, 200, corners, { tolerance: 0.5 });
+    expect(path).toContain('C');
+    expect(maxError).toBeLessThanOrEqual(0.5);
+  });
+
+  it('should match the uniform fit when all corners are equal', () => {
+    const corners: CornerExponents = { topLeft: 4, topRight: 4, bottomRight: 4, bottomLeft: 4 };
+    const asymmetric = getAsymmetricSuperellipseBezierPath(200, 150, corners);
+    const uniform = getSuperellipseBezierPath(200, 150, 4);
+    expect(asymmetric.path).toBe(uniform.path);
+  });
+});
+
+describe('generateCSS / generateSVG with Bézier paths', () => {
+  const state: SuperellipseState = {
+    ...DEFAULT_STATE,
+    strokePosition: 'center',
+    width: 200,
+    height: 200,
+    exp: 4,
+    colorMode: 'solid',
+    solidColor: '#FF9F00',
+    solidOpacity: 100,
+    gradientStops: [],
+    gradientAngle: 0,
+    blur: 0,
+    backdropBlur: 0,
+    enabled: false,
+    glowScale: 1,
+    glowPositionX: 0,
+    glowPositionY: 0,
+    lightness: 70,
+    chroma: 0.1,
+    hue: 40,
+    borderEnabled: false,
+    strokeColor: '#FFFFFF',
+    strokeWidth: 2,
+    strokeOpacity: 100,
+    strokeStyle: 'solid',
+  };
+
+  it('should refit the clip-path and report the deviation', () => {
+    const polyline = getSuperellipsePath(200, 200, 4);
+    const css = generateCSS(state, polyline, { pathFormat: 'bezier', tolerance: 0.5 });
+    expect(css).toMatch(/clip-path: path\('M [^']*C [^']*Z'\)/);
+    expect(css).toMatch(/cubic Bézier segments, max deviation \d+\.\d+px/);
+    expect(css).not.toContain(polyline);
+  });
+
+  it('should keep the supplied path by default', () => {
+    const polyline = getSuperellipsePath(200, 200, 4);
+    expect(generateCSS(state, polyline)).toContain(polyline);
+    expect(generateSVG(state, polyline)).toContain(polyline);
+  });
+
+  it('should write Bézier path data into the SVG', () => {
+    const svg = generateSVG(state, getSuperellipsePath(200, 200, 4), { pathFormat: 'bezier' });
+    expect(svg).toContain(getSuperellipseBezierPath(200, 200, 4).path);
+  });
+
+  it('should export per-corner sizes in both formats', () => {
+    const corners: CornerExponents = { topLeft: 2, topRight: 4, bottomRight: 6, bottomLeft: 4 };
+    const radii = { topLeft: 12, topRight: 40, bottomRight: 90, bottomLeft: 40 };
+    const perCorner: SuperellipseState = {
+      ...state,
+      useAsymmetricCorners: true,
+      cornerExponents: corners,
+      useCornerRadii: true,
+      cornerRadii: radii,
+    };
+    const polyline = getStatePath(perCorner);
+    expect(polyline).toBe(getCornerRadiiPath(200, 200, corners, radii));
+
+    const css = generateCSS(perCorner, polyline, { pathFormat: 'bezier' });
+    expect(css).toContain(getCornerRadiiBezierPath(200, 200, corners, radii).path);
+    expect(css).toContain('/* Corners (TL/TR/BR/BL): 12/40/90/40px, n = 2.0/4.0/6.0/4.0 */');
+
+    const svg = generateSVG(perCorner, polyline, { pathFormat: 'bezier' });
+    expect(svg).toContain(getCornerRadiiBezierPath(200, 200, corners, radii).path);
+  });
+});
+
+describe('generateCSS / generateSVG stroke position', () => {
+  const state: SuperellipseState = {
+    ...DEFAULT_STATE,
+    strokePosition: 'center',
+    width: 200,
+    height: 160,
+    exp: 5,
+    colorMode: 'solid',
+    solidColor: '#FF9F00',
+    solidOpacity: 100,
+    gradientStops: [],
+    gradientAngle: 0,
+    blur: 0,
+    backdropBlur: 0,
+    enabled: false,
+    glowScale: 1,
+    glowPositionX: 0,
+    glowPositionY: 0,
+    lightness: 70,
+    chroma: 0.1,
+    hue: 40,
+    borderEnabled: true,
+    strokeColor: '#FFFFFF',
+    strokeWidth: 8,
+    strokeOpacity: 100,
+    strokeStyle: 'solid',
+  };
+  const shape = { width: 200, height: 160, exp: 5 };
+  const pathData = getSuperellipsePath(200, 160, 5);
+  const strokePathOf = (svg: string) => /\sd="([^"]+)"\s+fill="none"/.exec(svg)![1];
+
+  it('keeps a centred stroke on the outline', () => {
+    const svg = generateSVG({ ...state, strokePosition: 'center' }, pathData);
+    expect(strokePathOf(svg)).toBe(pathData);
+    expect(svg).toContain('viewBox="0 0 200 160"');
+    expect(generateCSS({ ...state, strokePosition: 'center' }, pathData)).not.toContain('d: path(');
+  });
+
+  it('moves an inside stroke half its width into the shape', () => {
+    const svg = generateSVG({ ...state, strokePosition: 'inside' }, pathData);
+    const d = strokePathOf(svg);
+    expect(d).toBe(getOffsetPath(shape, -4, { sampling: 'adaptive', maxChordError: 0.1 }));
+    expect(svg).toContain('viewBox="0 0 200 160"');
+    expect(generateCSS({ ...state, strokePosition: 'inside' }, pathData)).toContain(`d: path('${d}');`);
+  });
+
+  it('moves an outside stroke out and widens the canvas to fit it', () => {
+    const svg = generateSVG({ ...state, strokePosition: 'outside' }, pathData);
+    expect(strokePathOf(svg)).toBe(getOffsetPath(shape, 4, { sampling: 'adaptive', maxChordError: 0.1 }));
+    expect(svg).toContain('width="216"');
+    expect(svg).toContain('viewBox="-8 -8 216 176"');
+  });
+
+  it('cuts a double-width stroke for models without a Lamé outline', () => {
+    const smooth = { ...state, shapeModel: 'smooth-corners' as const, cornerRadius: 40, cornerSmoothing: 0.6 };
+    const inside = generateSVG({ ...smooth, strokePosition: 'inside' }, pathData);
+    expect(inside).toMatch(/<clipPath id="superellipse-stroke-cut">\s*<path d="[^"]+" \/>/);
+    expect(inside).toMatch(/stroke-width="16"[^>]*clip-path="url\(#superellipse-stroke-cut\)"/);
+    expect(inside).toContain('viewBox="0 0 200 160"');
+
+    const outside = generateSVG({ ...smooth, strokePosition: 'outside' }, pathData);
+    expect(outside).toContain('<mask id="superellipse-stroke-cut" maskUnits="userSpaceOnUse" x="-8" y="-8" width="216" height="176">');
+    expect(outside).toMatch(/stroke-width="16"[^>]*mask="url\(#superellipse-stroke-cut\)"/);
+    expect(outside).toContain('viewBox="-8 -8 216 176"');
+    expect(generateCSS({ ...smooth, strokePosition: 'outside' }, pathData)).toContain('stroke-width: 16px;');
+
+    expect(generateSVG({ ...smooth, strokePosition: 'center' }, pathData)).not.toContain('stroke-cut');
+  });
+});
+
+// Split a path into [command, ...numbers] tuples
+const parseCommands = (path: string) =>
+  (path.match(/[MLCAZ][^MLCAZ]*/g) ?? []).map(chunk => {
+    const [cmd, ...rest] = chunk.trim().split(/\s+/);
+    return { cmd, args: rest.map(Number) };
+  });
+
+describe('getSmoothCornerPath', () => {
+  it('should generate a closed path with arcs and cubics', () => {
+    const path = getSmoothCornerPath(200, 100, 24, 0.6);
+    expect(path.startsWith('M')).toBe(true);
+    expect(path.endsWith('Z')).toBe(true);
+    expect(path).toContain('C');
+    expect(path).toContain('A');
+  });
+
+  it('should extend each corner by (1 + smoothing) * radius along the edges', () => {
+    const path = getSmoothCornerPath(200, 100, 20, 0.6);
+    // Top-right corner starts 32px before the vertex
+    expect(path.startsWith('M 168.00 0')).toBe(true);
+    expect(path).toContain('L 200.00 68.00');
+  });
+
+  it('should reduce to circular corners when smoothing is 0', () => {
+    const path = getSmoothCornerPath(200, 100, 20, 0);
+    const arcs = parseCommands(path).filter(c => c.cmd === 'A');
+    expect(arcs).toHaveLength(4);
+    // First arc ends where a plain quarter circle would
+    expect(arcs[0].args.slice(0, 2)).toEqual([20, 20]);
+    expect(arcs[0].args.slice(5)).toEqual([200, 20]);
+  });
+
+  it('should join cubics and arcs with matching tangents', () => {
+    const w = 240;
+    const r = 40;
+    const commands = parseCommands(getSmoothCornerPath(w, 160, r, 0.6, { precision: 6 }));
+    const firstCubic = commands[1].args;
+    const [c2x, c2y, ex, ey] = firstCubic.slice(2);
+    // Arc centre of the top-right corner
+    const cx = w - r;
+    const cy = r;
+    const tangent = { x: ex - c2x, y: ey - c2y };
+    const radial = { x: ex - cx, y: ey - cy };
+    expect(Math.hypot(radial.x, radial.y)).toBeCloseTo(r, 4);
+    const cosAngle = (tangent.x * radial.x + tangent.y * radial.y) /
+      (Math.hypot(tangent.x, tangent.y) * Math.hypot(radial.x, radial.y));
+    expect(Math.abs(cosAngle)).toBeLessThan(1e-4);
+  });
+
+  it('should clamp the radius and smoothing to fit the shape', () => {
+    const path = getSmoothCornerPath(100, 60, 500, 1);
+    const commands = parseCommands(path);
+    expect(commands[0].args).toEqual([70, 0]);
+    for (const { args } of commands) {
+      for (let i = 0; i + 1 < args.length; i += 2) {
+        expect(args[i]).toBeLessThanOrEqual(100 + 1e-9);
+      }
+    }
+  });
+
+  it('should draw a plain rectangle when the radius is 0', () => {
+    expect(getSmoothCornerPath(100, 50, 0, 0.6)).toBe('M 100.00 0 L 100.00 50.00 L 0 50.00 L 0 0 Z');
+  });
+
+  it('should throw error for invalid input', () => {
+    expect(() => getSmoothCornerPath(0, 100, 10, 0.5)).toThrow('Width and height must be positive numbers');
+    expect(() => getSmoothCornerPath(100, 100, -1, 0.5)).toThrow('Corner radius cannot be negative');
+  });
+});
+
+describe('getStatePath', () => {
+  const base = {
+    width: 200,
+    height: 120,
+    exp: 4,
+    cornerRadius: 24,
+    cornerSmoothing: 0.6,
+  };
+
+  it('should follow the active shape model', () => {
+    expect(getStatePath({ ...base, shapeModel: 'exponent' })).toBe(getSuperellipsePath(200, 120, 4));
+    expect(getStatePath({ ...base, shapeModel: 'smooth-corners' })).toBe(getSmoothCornerPath(200, 120, 24, 0.6));
+  });
+
+  it('should default to the exponent model', () => {
+    expect(getStatePath(base)).toBe(getSuperellipsePath(200, 120, 4));
+  });
+});
+
+describe('fitCornerRadii', () => {
+  it('should keep radii that fit', () => {
+    const radii = { topLeft: 10, topRight: 20, bottomRight: 30, bottomLeft: 40 };
+    expect(fitCornerRadii(200, 100, radii)).toEqual(radii);
+  });
+
+  it('should scale every radius by the same factor when a side overflows', () => {
+    const fitted = fitCornerRadii(100, 300, { topLeft: 80, topRight: 120, bottomRight: 20, bottomLeft: 20 });
+    // Top side: 80 + 120 = 200 > 100, so everything is halved
+    expect(fitted).toEqual({ topLeft: 40, topRight: 60, bottomRight: 10, bottomLeft: 10 });
+  });
+
+  it('should treat negative radii as 0', () => {
+    expect(fitCornerRadii(100, 100, { topLeft: -5, topRight: 0, bottomRight: 0, bottomLeft: 0 }).topLeft).toBe(0);
+  });
+});
+
+describe('getCornerRadiiPath', () => {
+  const corners: CornerExponents = { topLeft: 2, topRight: 4, bottomRight: 8, bottomLeft: 3 };
+  const radii = { topLeft: 10, topRight: 30, bottomRight: 80, bottomLeft: 20 };
+
+  const parsePoints = (path: string) => {
+    const nums = path.replace(/[MLZ]/g, ' ').trim().split(/\s+/).map(Number);
+    const points: Array<{ x: number; y: number }> = [];
+    for (let i = 0; i + 1 < nums.length; i += 2) points.push({ x: nums[i], y: nums[i + 1] });
+    return points;
+  };
+
+  it('should stay inside the bounding box and touch every side', () => {
+    const points = parsePoints(getCornerRadiiPath(240, 160, corners, radii));
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    expect(Math.min(...xs)).toBeCloseTo(0, 5);
+    expect(Math.max(...xs)).toBeCloseTo(240, 5);
+    expect(Math.min(...ys)).toBeCloseTo(0, 5);
+    expect(Math.max(...ys)).toBeCloseTo(160, 5);
+  });
+
+  it('should join corners with straight edges', () => {
+    const path = getCornerRadiiPath(240, 160, corners, radii);
+    // Bottom edge runs from the end of the bottom-right corner to the start of the bottom-left one
+    expect(path).toContain('160.00 L 20.00 160.00');
+    // Top edge ends where the top-right corner begins
+    expect(path).toContain('10.00 0.00 L 210.00 0.00');
+  });
+
+  it('should trace each corner as a quarter superellipse of its own size', () => {
+    const points = parsePoints(getCornerRadiiPath(240, 160, corners, radii, { sampling: 'adaptive' }));
+    // Bottom-right corner: 80px, n = 8, centred at (160, 80)
+    const inCorner = points.filter(p => p.x >= 160 && p.y >= 80);
+    expect(inCorner.length).toBeGreaterThan(4);
+    for (const p of inCorner) {
+      const value = Math.pow((p.x - 160) / 80, 8) + Math.pow((p.y - 80) / 80, 8);
+      expect(Math.abs(value - 1)).toBeLessThan(0.01);
+    }
+  });
+
+  it('should keep a sharp vertex for a zero-size corner', () => {
+    const path = getCornerRadiiPath(100, 100, corners, { topLeft: 0, topRight: 20, bottomRight: 20, bottomLeft: 20 });
+    expect(path).toContain('0.00 0.00');
+    expect(path).not.toMatch(/0\.00 0\.00 L 0\.00 0\.00/);
+  });
+
+  it('should throw error for invalid dimensions', () => {
+    expect(() => getCornerRadiiPath(0, 100, corners, radii)).toThrow('Width and height must be positive numbers');
+  });
+});
+
+describe('getCornerRadiiBezierPath', () => {
+  const corners: CornerExponents = { topLeft: 2, topRight: 4, bottomRight: 8, bottomLeft: 3 };
+  const radii = { topLeft: 10, topRight: 30, bottomRight: 80, bottomLeft: 20 };
+
+  it('should use straight lines between fitted corners', () => {
+    const { path, segmentCount, maxError } = getCornerRadiiBezierPath(240, 160, corners, radii);
+    expect(path).toMatch(/^M [^Z]*C [^Z]* L [^Z]*Z$/);
+    expect(segmentCount).toBeGreaterThanOrEqual(4);
+    expect(maxError).toBeLessThanOrEqual(0.5);
+  });
+
+  it('should emit only a vertex for a zero-size corner', () => {
+    const { path, segmentCount } = getCornerRadiiBezierPath(100, 100, corners, { topLeft: 0, topRight: 20, bottomRight: 20, bottomLeft: 20 });
+    expect(path).toContain('L 0.00 0.00');
+    expect(segmentCount).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('getSuperformulaRadius', () => {
+  it('should give a unit circle for m = 0', () => {
+    for (const phi of [0, 0.7, 2, 4.5]) {
+      expect(getSuperformulaRadius(phi, { m: 0, n1: 1, n2: 1, n3: 1 })).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should give a unit circle for m = 4 and n = 2', () => {
+    for (const phi of [0, 0.3, 1.1, 3]) {
+      expect(getSuperformulaRadius(phi, { m: 4, n1: 2, n2: 2, n3: 2 })).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should repeat with m-fold symmetry', () => {
+    const params = { m: 5, n1: 0.3, n2: 0.3, n3: 0.3 };
+    const period = (2 * Math.PI) / 5;
+    for (const phi of [0.1, 0.5, 1.2]) {
+      expect(getSuperformulaRadius(phi + period, params)).toBeCloseTo(getSuperformulaRadius(phi, params), 8);
+    }
+  });
+});
+
+describe('getSuperformulaPath', () => {
+  const star = { m: 5, n1: 0.3, n2: 0.3, n3: 0.3 };
+
+  const parsePoints = (path: string) => {
+    const nums = path.replace(/[MLZ]/g, ' ').trim().split(/\s+/).map(Number);
+    const points: Array<{ x: number; y: number }> = [];
+    for (let i = 0; i + 1 < nums.length; i += 2) points.push({ x: nums[i], y: nums[i + 1] });
+    return points;
+  };
+
+  it('should fill the requested box', () => {
+    const points = parsePoints(getSuperformulaPath(300, 200, star, { steps: 1440 }));
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    expect(Math.min(...xs)).toBeCloseTo(0, 0);
+    expect(Math.max(...xs)).toBeCloseTo(300, 0);
+    expect(Math.min(...ys)).toBeCloseTo(0, 0);
+    expect(Math.max(...ys)).toBeCloseTo(200, 0);
+  });
+
+  it('should point the first lobe upwards', () => {
+    expect(getSuperformulaPath(200, 200, star).startsWith('M 100.00 0.00')).toBe(true);
+  });
+
+  it('should match the ellipse when m = 4 and n = 2', () => {
+    const points = parsePoints(getSuperformulaPath(200, 120, { m: 4, n1: 2, n2: 2, n3: 2 }));
+    for (const p of points) {
+      expect(distanceToSuperellipse(p.x, p.y, 200, 120, 2)).toBeLessThan(0.2);
+    }
+  });
+
+  it('should support adaptive sampling', () => {
+    const adaptive = getSuperformulaPath(200, 200, star, { sampling: 'adaptive' });
+    expect(adaptive).toMatch(/^M [\d. L]+ Z$/);
+  });
+
+  it('should throw error for invalid parameters', () => {
+    expect(() => getSuperformulaPath(0, 100, star)).toThrow('Width and height must be positive numbers');
+    expect(() => getSuperformulaPath(100, 100, { ...star, n1: 0 })).toThrow('Superformula n1 must be a positive number');
+    expect(() => getSuperformulaPath(100, 100, { ...star, m: -1 })).toThrow('Superformula m, n2 and n3 cannot be negative');
+  });
+
+  it('should be selected by the superformula shape model', () => {
+    const state = { width: 200, height: 200, exp: 4, shapeModel: 'superformula' as const, superformula: star };
+    expect(getStatePath(state)).toBe(getSuperformulaPath(200, 200, star));
+  });
+});
+
+describe('getSuperformulaBezierPath', () => {
+  it('should fit stars and flowers within tolerance', () => {
+    for (const params of [{ m: 5, n1: 0.3, n2: 0.3, n3: 0.3 }, { m: 6, n1: 1, n2: 7, n3: 8 }]) {
+      const { path, maxError } = getSuperformulaBezierPath(240, 240, params, { tolerance: 0.5 });
+      expect(path).toMatch(/^M [^Z]*C [^Z]*Z$/);
+      expect(maxError).toBeLessThanOrEqual(0.5);
+    }
+  });
+
+  it('should be used for Bézier exports of superformula states', () => {
+    const params = { m: 3, n1: 4.5, n2: 10, n3: 10 };
+    const state: SuperellipseState = {
+      ...DEFAULT_STATE,
+      strokePosition: 'center',
+      width: 200,
+      height: 200,
+      exp: 4,
+      colorMode: 'solid',
+      solidColor: '#FF9F00',
+      solidOpacity: 100,
+      gradientStops: [],
+      gradientAngle: 0,
+      blur: 0,
+      backdropBlur: 0,
+      enabled: false,
+      glowScale: 1,
+      glowPositionX: 0,
+      glowPositionY: 0,
+      lightness: 70,
+      chroma: 0.1,
+      hue: 40,
+      borderEnabled: false,
+      strokeColor: '#FFFFFF',
+      strokeWidth: 2,
+      strokeOpacity: 100,
+      strokeStyle: 'solid',
+      shapeModel: 'superformula',
+      superformula: params,
+    };
+    const expected = getSuperformulaBezierPath(200, 200, params).path;
+    expect(generateCSS(state, getStatePath(state), { pathFormat: 'bezier' })).toContain(expected);
+    expect(generateSVG(state, getStatePath(state), { pathFormat: 'bezier' })).toContain(expected);
+  });
+});
+
+describe('interpolateState', () => {
+  const from = {
+    width: 200,
+    height: 100,
+    exp: 2,
+    hue: 350,
+    solidColor: '#FF0000',
+    colorMode: 'solid',
+    cornerExponents: { topLeft: 2, topRight: 2, bottomRight: 2, bottomLeft: 2 },
+    gradientStops: [{ color: '#000000', position: 0 }],
+  };
+  const to = {
+    width: 300,
+    height: 100,
+    exp: 5,
+    hue: 10,
+    solidColor: '#0000FF',
+    colorMode: 'linear',
+    cornerExponents: { topLeft: 6, topRight: 4, bottomRight: 2, bottomLeft: 2 },
+    gradientStops: [{ color: '#FFFFFF', position: 0 }, { color: '#FFFFFF', position: 100 }],
+  };
+
+  it('returns the end states exactly', () => {
+    expect(interpolateState(from, to, 0)).toBe(from);
+    expect(interpolateState(from, to, 1)).toBe(to);
+  });
+
+  it('blends numbers, nested objects and colors', () => {
+    const mid = interpolateState(from, to, 0.5);
+    expect(mid.width).toBe(250);
+    expect(mid.exp).toBe(3.5);
+    expect(mid.cornerExponents).toEqual({ topLeft: 4, topRight: 3, bottomRight: 2, bottomLeft: 2 });
+    expect(mid.solidColor).toBe('#800080');
+  });
+
+  it('takes the short way round the hue circle', () => {
+    expect(interpolateState(from, to, 0.5).hue).toBeCloseTo(0, 10);
+    expect(interpolateState(from, to, 0.25).hue).toBeCloseTo(355, 10);
+  });
+
+  it('switches discrete settings halfway', () => {
+    expect(interpolateState(from, to, 0.49).colorMode).toBe('solid');
+    expect(interpolateState(from, to, 0.5).colorMode).toBe('linear');
+  });
+
+  it('pads gradient stops to the longer list', () => {
+    const stops = interpolateState(from, to, 0.5).gradientStops;
+    expect(stops).toHaveLength(2);
+    expect(stops[1]).toEqual({ color: '#808080', position: 50 });
+  });
+});
+
+describe('getMorphKeyframes', () => {
+  const circle: SuperellipseState = {
+    ...DEFAULT_STATE,
+    strokePosition: 'center',
+    width: 200,
+    height: 200,
+    exp: 2,
+    colorMode: 'solid',
+    solidColor: '#FF0000',
+    solidOpacity: 100,
+    gradientStops: [],
+    gradientAngle: 0,
+    blur: 0,
+    backdropBlur: 0,
+    enabled: false,
+    glowScale: 1,
+    glowPositionX: 0,
+    glowPositionY: 0,
+    lightness: 70,
+    chroma: 0.1,
+    hue: 40,
+    borderEnabled: false,
+    strokeColor: '#FFFFFF',
+    strokeWidth: 2,
+    strokeOpacity: 100,
+    strokeStyle: 'solid',
+  };
+  const squircle = { ...circle, exp: 5, width: 240, solidColor: '#0000FF' };
+  const countPoints = (path: string) => path.match(/-?\d+(?:\.\d+)?/g)!.length / 2;
+
+  it('gives every keyframe the same number of points', () => {
+    const smooth = { ...circle, shapeModel: 'smooth-corners' as const, cornerRadius: 60, cornerSmoothing: 0.6 };
+    const star = { ...circle, shapeModel: 'superformula' as const, superformula: { m: 5, n1: 0.3, n2: 0.3, n3: 0.3 } };
+    for (const target of [squircle, smooth, star]) {
+      const frames = getMorphKeyframes(circle, target, { keyframes: 5, pointCount: 64 });
+      expect(frames).toHaveLength(5);
+      for (const frame of frames) {
+        expect(countPoints(frame.path)).toBe(64);
+      }
+    }
+  });
+
+  it('interpolates the exponent between the end shapes', () => {
+    const frames = getMorphKeyframes(circle, squircle, { keyframes: 3 });
+    expect(frames.map(f => f.state.exp)).toEqual([2, 3.5, 5]);
+    expect(frames.map(f => f.offset)).toEqual([0, 0.5, 1]);
+  });
+
+  it('starts every outline on the right-hand axis crossing', () => {
+    const frames = getMorphKeyframes(circle, squircle, { keyframes: 2, pointCount: 8 });
+    expect(frames[0].path.startsWith('M 200.00 100.00 L 170.71 170.71')).toBe(true);
+    expect(frames[1].path.startsWith('M 240.00 100.00')).toBe(true);
+  });
+
+  it('samples the circle evenly', () => {
+    const [frame] = getMorphKeyframes(circle, circle, { keyframes: 2, pointCount: 36, precision: 6 });
+    const values = frame.path.match(/-?\d+(?:\.\d+)?/g)!.map(Number);
+    for (let i = 0; i < values.length; i += 2) {
+      expect(Math.hypot(values[i] - 100, values[i + 1] - 100)).toBeCloseTo(100, 2);
+      expect(Math.atan2(values[i + 1] - 100, values[i] - 100)).toBeCloseTo(
+        Math.atan2(Math.sin((i / 2) * (Math.PI / 18)), Math.cos((i / 2) * (Math.PI / 18))),
+        2
+      );
+    }
+  });
+
+  it('rejects too few keyframes or points', () => {
+    expect(() => getMorphKeyframes(circle, squircle, { keyframes: 1 })).toThrow();
+    expect(() => getMorphKeyframes(circle, squircle, { pointCount: 2 })).toThrow();
+  });
+
+  it('exports CSS keyframes that animate clip-path, size and color', () => {
+    const css = generateMorphCSS(circle, squircle, { keyframes: 3, duration: 0.6, name: 'pill' });
+    expect(css).toContain('@keyframes pill {');
+    expect(css.match(/clip-path: path\('M [^']+ Z'\);/g)).toHaveLength(3);
+    expect(css).toContain('50% {');
+    expect(css).toContain('width: 220px;');
+    expect(css).toContain('background-color: #800080;');
+    expect(css).toContain('animation: pill 0.6s ease-in-out infinite alternate;');
+  });
+
+  it('exports SMIL animations that play forwards and back', () => {
+    const svg = generateMorphSVG(circle, squircle, { keyframes: 3, duration: 0.5 });
+    const frames = getMorphKeyframes(circle, squircle, { keyframes: 3 });
+    expect(svg).toContain('viewBox="0 0 240 200"');
+    expect(svg).toContain('attributeName="d"');
+    expect(svg).toContain('dur="1s"');
+    expect(svg).toContain('keyTimes="0;0.25;0.5;0.75;1"');
+    expect(svg).toContain('values="#FF0000;#800080;#0000FF;#800080;#FF0000"');
+    const values = svg.match(/values="(M[^"]+)"/)![1].split(';').map(v => v.trim());
+    expect(values).toEqual([frames[0].path, frames[1].path, frames[2].path, frames[1].path, frames[0].path]);
+  });
+});
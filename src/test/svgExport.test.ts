@@ -0,0 +1,333 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateSVG,
+  generateCSS,
+  getSuperellipsePath,
+  getConicWedges,
+  getRadialGradientGeometry,
+  getGradientBackground,
+  getResponsiveMask,
+  getSvgMaskImage,
+  generatePreviewGlowCSS,
+  PREVIEW_GLOW_CONTAINER,
+  PREVIEW_GLOW_LAYERS,
+  BOUNDING_BOX_CLIP_ID,
+  SuperellipseState,
+} from '@/utils/math';
+import { oklchToHex } from '@/utils/oklch';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const baseState: SuperellipseState = {
+  ...DEFAULT_STATE,
+  strokePosition: 'center',
+  width: 120,
+  height: 80,
+  exp: 4,
+  colorMode: 'solid',
+  solidColor: '#FF9F00',
+  solidOpacity: 80,
+  gradientStops: [
+    { color: '#6366F1', position: 0 },
+    { color: '#A855F7', position: 50 },
+    { color: '#EC4899', position: 100 },
+  ],
+  gradientAngle: 135,
+  blur: 0,
+  backdropBlur: 0,
+  enabled: false,
+  glowScale: 0.9,
+  glowPositionX: 10,
+  glowPositionY: -20,
+  lightness: 78,
+  chroma: 0.18,
+  hue: 40,
+  borderEnabled: false,
+  strokeColor: '#FFFFFF',
+  strokeWidth: 2,
+  strokeOpacity: 100,
+  strokeStyle: 'solid',
+};
+
+// A coarse outline keeps the snapshots readable
+const pathData = getSuperellipsePath(120, 80, 4, { steps: 16 });
+
+const COLOR_MODES = ['solid', 'linear', 'radial', 'conic'] as const;
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+describe('generateSVG snapshots', () => {
+  for (const colorMode of COLOR_MODES) {
+    it(`exports a ${colorMode} fill`, () => {
+      // Eight wedges per turn keep the conic snapshot short
+      expect(generateSVG({ ...baseState, colorMode }, pathData, { conicSegments: 8 })).toMatchSnapshot();
+    });
+  }
+
+  it('exports glow, blur and a dashed stroke', () => {
+    const state: SuperellipseState = {
+      ...baseState,
+      colorMode: 'linear',
+      enabled: true,
+      blur: 4,
+      borderEnabled: true,
+      strokeStyle: 'dashed',
+      strokeOpacity: 50,
+    };
+    expect(generateSVG(state, pathData)).toMatchSnapshot();
+  });
+
+  it('is deterministic', () => {
+    const state = { ...baseState, colorMode: 'radial' as const, enabled: true };
+    expect(generateSVG(state, pathData)).toBe(generateSVG(state, pathData));
+  });
+});
+
+// ============================================================================
+// PREVIEW PARITY
+// ============================================================================
+
+describe('generateSVG matches the CSS preview', () => {
+  it('runs a linear gradient along the CSS gradient line', () => {
+    const toRight = generateSVG({ ...baseState, colorMode: 'linear', gradientAngle: 90 }, pathData);
+    expect(toRight).toContain('x1="0" y1="40" x2="120" y2="40"');
+
+    const toBottom = generateSVG({ ...baseState, colorMode: 'linear', gradientAngle: 180 }, pathData);
+    expect(toBottom).toContain('x1="60" y1="0" x2="60" y2="80"');
+  });
+
+  it('sizes a radial gradient to the farthest corner', () => {
+    const svg = generateSVG({ ...baseState, colorMode: 'radial' }, pathData);
+    expect(svg).toContain(`r="${Number((Math.hypot(120, 80) / 2).toFixed(2))}"`);
+  });
+
+  it('moves the radial centre and focal point', () => {
+    const state = {
+      ...baseState,
+      colorMode: 'radial' as const,
+      gradientCenterX: 25,
+      gradientCenterY: 50,
+      gradientRadius: 50,
+      gradientFocalX: 50,
+      gradientFocalY: 0,
+    };
+    const { cx, cy, r, fx, fy } = getRadialGradientGeometry(state);
+    expect(cx).toBe(30);
+    expect(cy).toBe(40);
+    expect(r).toBeCloseTo(Math.hypot(90, 40) / 2, 10);
+    expect(fx).toBeCloseTo(30 + r / 2, 10);
+    expect(fy).toBe(40);
+
+    const svg = generateSVG(state, pathData);
+    expect(svg).toContain(`cx="30" cy="40" r="${Number(r.toFixed(2))}" fx="${Number(fx.toFixed(2))}" fy="40"`);
+  });
+
+  it('keeps the focal point inside the circle', () => {
+    const { cx, r, fx } = getRadialGradientGeometry({
+      ...baseState,
+      colorMode: 'radial',
+      gradientFocalX: 100,
+    });
+    expect(fx - cx).toBeCloseTo(r * 0.99, 10);
+  });
+
+  it('uses CSS radial gradients when the focal point is centred', () => {
+    const background = getGradientBackground({ ...baseState, colorMode: 'radial', gradientRadius: 50 });
+    const r = Math.hypot(60, 40) / 2;
+    expect(background).toBe(
+      `radial-gradient(ellipse ${Number((r / 1.2).toFixed(2))}% ${Number((r / 0.8).toFixed(2))}% at 50% 50%, #6366F1 0%, #A855F7 50%, #EC4899 100%)`
+    );
+  });
+
+  it('falls back to an SVG image for off-centre focal points', () => {
+    const state = { ...baseState, colorMode: 'radial' as const, gradientFocalY: -40 };
+    const background = getGradientBackground(state);
+    expect(background).toMatch(/^url\("data:image\/svg\+xml,.+"\) center \/ 100% 100% no-repeat$/);
+    expect(background).toContain(encodeURIComponent('fy="'));
+    expect(generateCSS(state, pathData)).toContain(`background: ${background};`);
+  });
+
+  it('places conic gradients like CSS', () => {
+    const state = { ...baseState, colorMode: 'conic' as const, gradientCenterX: 30, gradientCenterY: 70 };
+    expect(getGradientBackground(state)).toBe(
+      'conic-gradient(from 135deg at 30% 70%, #6366F1 0%, #A855F7 50%, #EC4899 100%)'
+    );
+    expect(generateCSS(state, pathData)).toContain('background: conic-gradient(from 135deg at 30% 70%');
+  });
+
+  it('draws conic gradients as wedges clipped to the shape', () => {
+    const state = { ...baseState, colorMode: 'conic' as const, gradientAngle: 0 };
+    const wedges = getConicWedges(state, 4);
+    expect(wedges).toHaveLength(4);
+    // The first quarter turn starts at 12 o'clock and runs clockwise
+    expect(wedges[0].path.startsWith('M 60 40 L 60 ')).toBe(true);
+    expect(wedges[0].color).toBe('#7462F3');
+
+    const svg = generateSVG(state, pathData, { conicSegments: 4 });
+    expect(svg).toContain('<g clip-path="url(#superellipse-clip)">');
+    expect(svg).not.toContain('<radialGradient');
+    wedges.forEach(wedge => expect(svg).toContain(`fill="${wedge.color}"`));
+  });
+
+  it('keeps hard conic stops sharp', () => {
+    const state = {
+      ...baseState,
+      colorMode: 'conic' as const,
+      gradientStops: [
+        { color: '#FF0000', position: 0 },
+        { color: '#FF0000', position: 30 },
+        { color: '#0000FF', position: 30 },
+        { color: '#0000FF', position: 100 },
+      ],
+    };
+    expect(getConicWedges(state).map(wedge => wedge.color)).toEqual(['#FF0000', '#0000FF']);
+  });
+
+  it('fills a single-color conic gradient without wedges', () => {
+    const state = { ...baseState, colorMode: 'conic' as const, gradientStops: [{ color: '#123456', position: 0 }] };
+    expect(getConicWedges(state)).toEqual([{ path: 'M 0 0 H 120 V 80 H 0 Z', color: '#123456' }]);
+  });
+
+  it('applies the fill opacity to solid colors only', () => {
+    expect(generateSVG(baseState, pathData)).toContain('opacity="0.8"');
+    expect(generateSVG({ ...baseState, colorMode: 'linear' }, pathData)).toContain('opacity="1"');
+  });
+
+  it('draws the preview glow layers inside the scaled, masked container', () => {
+    const state = { ...baseState, enabled: true, glowBlur: 150, glowOpacity: 80 };
+    const svg = generateSVG(state, pathData);
+    const ellipses = [...svg.matchAll(/<ellipse cx="([\d.-]+)" cy="([\d.-]+)" rx="([\d.-]+)" ry="([\d.-]+)" [^>]*opacity="([\d.]+)" filter="url\(#([\w-]+)\)"/g)];
+    expect(ellipses.map(m => m.slice(1, 6).map(Number))).toEqual(
+      PREVIEW_GLOW_LAYERS.map(layer => [
+        layer.left + layer.width / 2,
+        layer.top + layer.height / 2,
+        layer.width / 2,
+        layer.height / 2,
+        layer.opacity,
+      ])
+    );
+    const blurs = ellipses.map(m => new RegExp(`<filter id="${m[6]}"[^>]*>\\s*<feGaussianBlur stdDeviation="([\\d.]+)"`).exec(svg)![1]);
+    expect(blurs.map(Number)).toEqual([180, 150, 60, 80]);
+
+    // Positioned like the preview container: scaled around its centre, faded from 30% down
+    const { width, height } = PREVIEW_GLOW_CONTAINER;
+    expect(svg).toContain(`transform="translate(${10 + width / 2} ${-20 + height / 2}) scale(0.9) translate(${-width / 2} ${-height / 2})" opacity="0.8" mask="url(#superellipse-glow-mask)"`);
+    expect(svg).toContain('<stop offset="0.3" stop-color="white" />');
+    expect(svg).toContain(`fill="${oklchToHex({ l: 0.78, c: 0.18, h: 40 })}"`);
+    expect(svg).toContain('style="fill: oklch(78% 0.18 40); mix-blend-mode: screen"');
+    expect(svg).toContain('clip-path="url(#superellipse-clip)"');
+  });
+
+  it('overlays the preview noise', () => {
+    const svg = generateSVG({ ...baseState, noiseEnabled: true, noiseIntensity: 35 }, pathData);
+    expect(svg).toContain('<feTurbulence type="fractalNoise" baseFrequency="0.8" numOctaves="4" />');
+    expect(svg).toContain('fill="url(#superellipse-noise-tile)" opacity="0.35" clip-path="url(#superellipse-clip)" style="mix-blend-mode: overlay"');
+    expect(generateSVG({ ...baseState, noiseEnabled: false }, pathData)).not.toContain('feTurbulence');
+  });
+});
+
+describe('preview glow CSS', () => {
+  const state = { ...baseState, enabled: true, glowPositionX: -420, glowPositionY: -900, glowScale: 0.6, glowOpacity: 80, glowBlur: 150 };
+
+  it('places the container at the glow position with the preview scale and mask', () => {
+    const css = generatePreviewGlowCSS(state);
+    const container = css.slice(css.indexOf('.glow-container {'), css.indexOf('}'));
+    expect(container).toContain('left: -420px;');
+    expect(container).toContain('top: -900px;');
+    expect(container).toContain(`width: ${PREVIEW_GLOW_CONTAINER.width}px;`);
+    expect(container).toContain(`height: ${PREVIEW_GLOW_CONTAINER.height}px;`);
+    expect(container).toContain('transform: scale(0.6);');
+    expect(container).toContain('opacity: 0.8;');
+    expect(container).toContain('mask-image: linear-gradient(black 30%, transparent 100%);');
+
+    const moved = generatePreviewGlowCSS({ ...state, glowPositionX: 15, glowPositionY: 25 });
+    expect(moved).toContain('left: 15px;');
+    expect(moved).toContain('top: 25px;');
+  });
+
+  it('writes the preview layers, with glowBlur on the second', () => {
+    const css = generatePreviewGlowCSS(state, ['red', 'green', 'blue', 'white']);
+    PREVIEW_GLOW_LAYERS.forEach(layer => {
+      expect(css).toContain(`  top: ${layer.top}px;\n  left: ${layer.left}px;\n  width: ${layer.width}px;\n  height: ${layer.height}px;`);
+    });
+    expect(css).toContain('.glow-layer-2 {');
+    expect(css).toContain('filter: blur(150px);\n  background: green;');
+    expect(css).toContain('.glow-highlight {');
+    expect(css).toContain('background: white;');
+    expect(generatePreviewGlowCSS({ ...state, enabled: false })).toBe('');
+  });
+});
+
+describe('glow color space', () => {
+  // Outside sRGB but inside Display P3
+  const state = { ...baseState, enabled: true, lightness: 70, chroma: 0.25, hue: 150 };
+  const hex = oklchToHex({ l: 0.7, c: 0.25, h: 150 });
+
+  it('writes the gamut-mapped hex alone for sRGB', () => {
+    const css = generateCSS(state, pathData, { colorSpace: 'srgb' });
+    expect(css).toContain(`background-color: ${hex};`);
+    expect(css).not.toContain('@supports');
+    expect(generateSVG(state, pathData, { colorSpace: 'srgb' })).toContain('style="mix-blend-mode: screen"');
+  });
+
+  it('adds Display P3 behind a feature query, after the sRGB fallback', () => {
+    const css = generateCSS(state, pathData, { colorSpace: 'display-p3' });
+    const p3 = /background-color: (color\(display-p3 [\d. ]+\));/.exec(css);
+    expect(p3).not.toBeNull();
+    expect(css).toContain('@supports (color: color(display-p3 1 1 1)) {\n  .superellipse::before {\n    background-color: color(display-p3');
+    expect(css.indexOf(`background-color: ${hex};`)).toBeLessThan(css.indexOf('@supports'));
+
+    const svg = generateSVG(state, pathData, { colorSpace: 'display-p3' });
+    expect(svg).toContain(`fill="${hex}"`);
+    expect(svg).toContain(`style="fill: ${p3![1]}; mix-blend-mode: screen"`);
+  });
+
+  it('adds oklch() behind a feature query by default', () => {
+    const css = generateCSS(state, pathData);
+    expect(css).toContain('@supports (color: oklch(0% 0 0)) {');
+    expect(css).toContain('background-color: oklch(70% 0.25 150);');
+    expect(generateCSS(state, pathData, { format: 'minified' })).toContain('@supports (color: oklch(0% 0 0)) {.superellipse::before {background-color: oklch(70% 0.25 150);}}');
+  });
+});
+
+describe('responsive CSS clipping', () => {
+  it('keeps the absolute clip path by default', () => {
+    expect(generateCSS(baseState, pathData)).toContain(`clip-path: path('${pathData}');`);
+  });
+
+  it('stretches a mask image over the element', () => {
+    const css = generateCSS(baseState, pathData, { clipMode: 'mask' });
+    const mask = `${getSvgMaskImage(pathData, 120, 80)} center / 100% 100% no-repeat`;
+    expect(css).toContain(`-webkit-mask: ${mask};`);
+    expect(css).toContain(`  mask: ${mask};`);
+    expect(css).not.toContain('clip-path');
+    expect(mask).toContain(encodeURIComponent('viewBox="0 0 120 80" preserveAspectRatio="none"'));
+  });
+
+  it('pins each quadrant to its corner for fixed corners', () => {
+    const mask = getResponsiveMask(baseState, pathData, true);
+    const layers = mask.split(/, (?=url|linear)/);
+    expect(layers).toHaveLength(6);
+    expect(layers[0]).toBe(`${getSvgMaskImage(pathData, 60, 40, 0, 0)} top left / 60px 40px no-repeat`);
+    expect(layers[1]).toBe(`${getSvgMaskImage(pathData, 60, 40, 60, 0)} top right / 60px 40px no-repeat`);
+    expect(layers[2]).toBe(`${getSvgMaskImage(pathData, 60, 40, 60, 40)} bottom right / 60px 40px no-repeat`);
+    expect(layers[3]).toBe(`${getSvgMaskImage(pathData, 60, 40, 0, 40)} bottom left / 60px 40px no-repeat`);
+    expect(layers[4]).toBe('linear-gradient(#000 0 0) center / calc(100% - 120px) 100% no-repeat');
+    expect(layers[5]).toBe('linear-gradient(#000 0 0) center / 100% calc(100% - 80px) no-repeat');
+    expect(generateCSS(baseState, pathData, { clipMode: 'mask', fixedCorners: true }))
+      .toContain('/* Scales with the element: corners stay 60×40px, straight sides stretch */');
+  });
+
+  it('references an objectBoundingBox clip path', () => {
+    const css = generateCSS(baseState, pathData, { clipMode: 'bounding-box', addComments: false });
+    expect(css).toContain(`clip-path: url(#${BOUNDING_BOX_CLIP_ID});`);
+    expect(css).toContain(
+      `<clipPath id="${BOUNDING_BOX_CLIP_ID}" clipPathUnits="objectBoundingBox"><path transform="scale(0.00833333 0.0125)" d="${pathData}"/></clipPath>`
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+import tailwindPlugin from 'tailwindcss/plugin';
+import { generateTailwindPlugin, getTailwindClasses, getPresetSlugs } from '@/utils/tailwindExport';
+import { SuperellipseState } from '@/utils/math';
+import { DEFAULT_STATE } from '@/lib/stateSchema';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const state: SuperellipseState = { ...DEFAULT_STATE, exp: 4.5 };
+
+const presets = [
+  { name: 'Hero Card', state: { ...DEFAULT_STATE, width: 200, height: 120, colorMode: 'linear' as const, hue: 200 } },
+  { name: 'hero card!', state: { ...DEFAULT_STATE, shapeModel: 'smooth-corners' as const } },
+];
+
+/**
+ * Load the generated CommonJS plugin and build the given classes with it
+ */
+async function buildClasses(classes: string[]): Promise<string> {
+  const module = { exports: {} };
+  const load = new Function('require', 'module', generateTailwindPlugin(state, presets));
+  load((id: string) => {
+    if (id !== 'tailwindcss/plugin') throw new Error(`Unexpected import ${id}`);
+    return tailwindPlugin;
+  }, module);
+
+  const result = await postcss([
+    tailwindcss({
+      content: [{ raw: classes.join(' '), extension: 'html' }],
+      corePlugins: { preflight: false },
+      plugins: [module.exports as ReturnType<typeof tailwindPlugin>],
+    }),
+  ]).process('@tailwind utilities;', { from: undefined });
+  return result.css;
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+describe('getPresetSlugs', () => {
+  it('should make class-safe, unique slugs', () => {
+    expect(getPresetSlugs(['Hero Card', 'hero card!', '  ', 'Ø'])).toEqual(['hero-card', 'hero-card-2', 'preset', 'preset-2']);
+  });
+});
+
+describe('generateTailwindPlugin', () => {
+  it('should register the size and arbitrary squircle utilities', async () => {
+    const css = await buildClasses(['squircle', 'squircle-sm', 'squircle-md', 'squircle-[6]']);
+    const classes = getTailwindClasses(state, presets);
+
+    for (const name of ['squircle', 'squircle-sm', 'squircle-md', 'squircle-[6]']) {
+      const selector = `.${name.replace(/[[\]]/g, '\\$&')}`;
+      expect(css).toContain(`${selector} {`);
+      const { style } = classes.find(cls => cls.className === name)!;
+      expect(css).toContain(`mask-image: ${style.maskImage}`);
+    }
+  }, 30000);
+
+  it('should add glow colors to the theme', async () => {
+    const css = await buildClasses(['bg-glow', 'text-glow-hero-card']);
+    expect(css).toContain('.bg-glow {');
+    expect(css).toContain('.text-glow-hero-card {');
+    expect(css).toContain('oklch(78% 0.18 200)');
+  }, 30000);
+
+  it('should export presets as named utilities', async () => {
+    const css = await buildClasses(['squircle-preset-hero-card', 'squircle-preset-hero-card-2']);
+    expect(css).toContain('.squircle-preset-hero-card {');
+    expect(css).toContain('.squircle-preset-hero-card-2 {');
+    expect(css).toContain('background: linear-gradient(135deg');
+    expect(css).toContain(encodeURIComponent('viewBox="0 0 200 120"'));
+  }, 30000);
+});
+
+describe('getTailwindClasses', () => {
+  it('should list every utility with its declarations', () => {
+    const names = getTailwindClasses(state, presets).map(cls => cls.className);
+    expect(names).toEqual([
+      'squircle',
+      'squircle-sm',
+      'squircle-md',
+      'squircle-lg',
+      'squircle-xl',
+      'squircle-[6]',
+      'bg-glow',
+      'squircle-preset-hero-card',
+      'bg-glow-hero-card',
+      'squircle-preset-hero-card-2',
+      'bg-glow-hero-card-2',
+    ]);
+  });
+});
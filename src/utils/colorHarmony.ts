@@ -0,0 +1,95 @@
+// ============================================================================
+// COLOR HARMONY
+// ============================================================================
+
+import type { GradientStop } from './math';
+import { OKLCH, hexToOklch, oklchToHex, getMaxChroma } from './oklch';
+
+export type HarmonyScheme = 'complementary' | 'analogous' | 'triadic' | 'split-complementary' | 'tetradic';
+
+/**
+ * Hue offsets from the base color, in gradient order, and the offset the
+ * glow takes as its accent. Hues turn in OKLCH, so the steps look even.
+ */
+export const HARMONY_SCHEMES: Record<HarmonyScheme, { label: string; offsets: number[]; glowOffset: number }> = {
+  complementary: { label: 'Complementary', offsets: [0, 180], glowOffset: 180 },
+  analogous: { label: 'Analogous', offsets: [-30, 0, 30], glowOffset: 30 },
+  triadic: { label: 'Triadic', offsets: [0, 120, 240], glowOffset: 120 },
+  'split-complementary': { label: 'Split', offsets: [0, 150, 210], glowOffset: 150 },
+  tetradic: { label: 'Tetradic', offsets: [0, 90, 180, 270], glowOffset: 180 },
+};
+
+/**
+ * Harmony generation options
+ */
+export interface HarmonyOptions {
+  jitter?: number; // 0 gives the exact scheme; 1 varies hue, lightness and chroma for "regenerate"
+  random?: () => number;
+}
+
+/**
+ * Generated harmony: gradient stops plus a glow in state units
+ */
+export interface HarmonyPalette {
+  stops: GradientStop[];
+  glow: { hue: number; chroma: number; lightness: number };
+}
+
+// Greys have no hue to turn, so they get enough chroma to show the scheme
+const MIN_CHROMA = 0.08;
+// Matches the default glow, bright enough to read as light
+const GLOW_LIGHTNESS = 0.78;
+const MAX_HUE_JITTER = 8;
+const MAX_LIGHTNESS_JITTER = 0.08;
+
+const wrapHue = (hue: number) => ((hue % 360) + 360) % 360;
+
+/**
+ * Build a harmony around a base color. Stops keep the base lightness and
+ * chroma, are evenly spaced, and are gamut mapped into sRGB hex; the glow
+ * takes the scheme's accent hue at glow lightness, kept inside sRGB.
+ * @param baseHex - Base color; its hue anchors the scheme
+ * @throws ValidationError if the base color is not a valid hex
+ */
+export function generateHarmony(
+  baseHex: string,
+  scheme: HarmonyScheme,
+  options: HarmonyOptions = {}
+): HarmonyPalette {
+  const { jitter = 0, random = Math.random } = options;
+  const base = hexToOklch(baseHex);
+  const chroma = Math.max(base.c, MIN_CHROMA);
+  const { offsets, glowOffset } = HARMONY_SCHEMES[scheme];
+  const vary = (amount: number) => (jitter ? (random() * 2 - 1) * amount * jitter : 0);
+
+  const stops = offsets.map((offset, i) => {
+    const color: OKLCH = {
+      l: Math.min(0.98, Math.max(0.05, base.l + vary(MAX_LIGHTNESS_JITTER))),
+      c: chroma * (1 + vary(0.2)),
+      h: wrapHue(base.h + offset + vary(MAX_HUE_JITTER)),
+    };
+    return {
+      color: oklchToHex(color).toUpperCase(),
+      position: Math.round((i / (offsets.length - 1)) * 100),
+    };
+  });
+
+  const glowHue = wrapHue(base.h + glowOffset);
+  return {
+    stops,
+    glow: {
+      hue: Number(glowHue.toFixed(2)),
+      chroma: Number(Math.min(chroma, getMaxChroma(GLOW_LIGHTNESS, glowHue)).toFixed(4)),
+      lightness: GLOW_LIGHTNESS * 100,
+    },
+  };
+}
+
+/**
+ * Keep the colors of locked stops from the previous harmony. Positions
+ * come from the new one, so stops stay evenly spaced when the count changes.
+ * @param locked - Lock per stop index; indexes past the previous stops are ignored
+ */
+export function mergeLockedStops(previous: GradientStop[], next: GradientStop[], locked: boolean[]): GradientStop[] {
+  return next.map((stop, i) => (locked[i] && previous[i] ? { ...stop, color: previous[i].color } : stop));
+}
@@ -0,0 +1,651 @@
+// ============================================================================
+// COMPONENT CODE EXPORT
+// ============================================================================
+
+import {
+  SuperellipseState,
+  getConicWedges,
+  getExportGlow,
+  getLinearGradientLine,
+  getRadialGradientGeometry,
+  getStrokeOffsetPath,
+  getStrokeCut,
+  getStatePath,
+} from './math';
+
+/**
+ * Component export options
+ */
+export interface ComponentOptions {
+  name?: string; // Component name, PascalCase
+  precision?: number; // Decimal places for coordinates
+}
+
+/**
+ * Reference to an element id, made unique per component instance
+ */
+interface IdRef {
+  id: string;
+  url?: boolean; // Wrap as url(#id) for fill, clip-path and filter
+}
+
+/**
+ * Stands for the outline path, which components keep in one constant
+ */
+const OUTLINE = { outline: true } as const;
+
+type AttrValue = string | number | IdRef | typeof OUTLINE;
+
+/**
+ * Framework-neutral SVG element, rendered to JSX or markup by each exporter
+ */
+interface ShapeNode {
+  tag: string;
+  attrs: Record<string, AttrValue>;
+  style?: Record<string, string>;
+  children?: ShapeNode[];
+}
+
+const COMPONENT_NAME_PATTERN = /^[A-Z][A-Za-z0-9]*$/;
+
+// ============================================================================
+// SHAPE LAYERS
+// ============================================================================
+
+/**
+ * SVG layers of the preview in the shape's own coordinates: fill, glow and
+ * stroke, plus the defs they use. The `content` clip path uses
+ * objectBoundingBox units so it can clip HTML children at any size.
+ *
+ * Scalable layers are redrawn at the rendered size instead of stretched:
+ * gradients and glow carry a `data-scale` attribute naming the transform to
+ * update, and inside/outside strokes are cut from a double-width stroke on
+ * the outline, since their offset paths only fit the designed size.
+ */
+function getShapeLayers(
+  state: SuperellipseState,
+  precision: number,
+  scalable: boolean = false
+): { defs: ShapeNode[]; layers: ShapeNode[] } {
+  const num = (value: number) => Number(value.toFixed(precision));
+  const defs: ShapeNode[] = [];
+  const layers: ShapeNode[] = [];
+  const clip: IdRef = { id: 'clip', url: true };
+  const scale = (children: ShapeNode[]): ShapeNode[] => (
+    scalable ? [{ tag: 'g', attrs: { 'data-scale': 'transform' }, children }] : children
+  );
+  const gradientScale: Record<string, AttrValue> = scalable ? { 'data-scale': 'gradientTransform' } : {};
+  let needsClip = state.colorMode === 'conic' || state.enabled;
+
+  // Fill
+  const stops = state.gradientStops.map(stop => ({
+    tag: 'stop',
+    attrs: { offset: `${stop.position}%`, 'stop-color': stop.color },
+  }));
+  let fill: AttrValue = state.solidColor;
+
+  if (state.colorMode === 'linear') {
+    const line = getLinearGradientLine(state.width, state.height, state.gradientAngle);
+    defs.push({
+      tag: 'linearGradient',
+      attrs: {
+        id: { id: 'gradient' },
+        gradientUnits: 'userSpaceOnUse',
+        x1: num(line.x1),
+        y1: num(line.y1),
+        x2: num(line.x2),
+        y2: num(line.y2),
+        ...gradientScale,
+      },
+      children: stops,
+    });
+    fill = { id: 'gradient', url: true };
+  } else if (state.colorMode === 'radial') {
+    const { cx, cy, r, fx, fy } = getRadialGradientGeometry(state);
+    const focal: Record<string, AttrValue> = fx !== cx || fy !== cy ? { fx: num(fx), fy: num(fy) } : {};
+    defs.push({
+      tag: 'radialGradient',
+      attrs: {
+        id: { id: 'gradient' },
+        gradientUnits: 'userSpaceOnUse',
+        cx: num(cx),
+        cy: num(cy),
+        r: num(r),
+        ...focal,
+        ...gradientScale,
+      },
+      children: stops,
+    });
+    fill = { id: 'gradient', url: true };
+  }
+
+  const blur: Record<string, AttrValue> = state.blur > 0 ? { filter: { id: 'blur', url: true } } : {};
+  if (state.blur > 0) {
+    defs.push({
+      tag: 'filter',
+      attrs: { id: { id: 'blur' } },
+      children: [{ tag: 'feGaussianBlur', attrs: { in: 'SourceGraphic', stdDeviation: state.blur } }],
+    });
+  }
+
+  if (state.colorMode === 'conic') {
+    layers.push({
+      tag: 'g',
+      attrs: { 'clip-path': clip, ...blur },
+      children: scale(getConicWedges(state, undefined, precision).map(wedge => ({
+        tag: 'path',
+        attrs: { d: wedge.path, fill: wedge.color },
+      }))),
+    });
+  } else {
+    // Like the preview, opacity only applies to solid fills
+    const opacity: Record<string, AttrValue> = state.colorMode === 'solid' && state.solidOpacity < 100
+      ? { opacity: state.solidOpacity / 100 }
+      : {};
+    layers.push({ tag: 'path', attrs: { d: OUTLINE, fill, ...opacity, ...blur } });
+  }
+
+  // Glow
+  if (state.enabled) {
+    const glow = getExportGlow(state);
+    defs.push({
+      tag: 'filter',
+      attrs: { id: { id: 'glow' }, x: '-50%', y: '-50%', width: '200%', height: '200%' },
+      children: [{ tag: 'feGaussianBlur', attrs: { in: 'SourceGraphic', stdDeviation: glow.blur } }],
+    });
+    layers.push({
+      tag: 'g',
+      attrs: { 'clip-path': clip },
+      children: scale([{
+        tag: 'ellipse',
+        attrs: {
+          cx: num(glow.x + glow.width / 2),
+          cy: num(glow.y + glow.height / 2),
+          rx: num(glow.width / 2),
+          ry: num(glow.height / 2),
+          fill: glow.color,
+          opacity: glow.opacity,
+          filter: { id: 'glow', url: true },
+        },
+        style: { 'mix-blend-mode': 'screen' },
+      }]),
+    });
+  }
+
+  // Stroke keeps its width when the component is resized
+  if (state.borderEnabled) {
+    const dash: Record<string, AttrValue> = state.strokeStyle !== 'solid'
+      ? { 'stroke-dasharray': state.strokeStyle === 'dashed' ? '8 4' : '2 2' }
+      : {};
+    const strokeAttrs = (d: AttrValue, width: number): Record<string, AttrValue> => ({
+      d,
+      fill: 'none',
+      stroke: state.strokeColor,
+      'stroke-width': width,
+      'stroke-opacity': state.strokeOpacity / 100,
+      ...dash,
+      'vector-effect': 'non-scaling-stroke',
+    });
+
+    // Scaled outlines have no fixed offset curve, so they cut like models without one
+    const strokeOffset = scalable ? null : getStrokeOffsetPath(state, precision);
+    if (state.strokePosition !== 'center' && (scalable || getStrokeCut(state, strokeOffset))) {
+      // Keep the half of a double-width stroke that falls inside or outside
+      const cut: Record<string, AttrValue> = state.strokePosition === 'inside'
+        ? { 'clip-path': clip }
+        : { mask: { id: 'outside', url: true } };
+      needsClip ||= state.strokePosition === 'inside';
+      if (state.strokePosition === 'outside') {
+        defs.push({
+          tag: 'mask',
+          attrs: { id: { id: 'outside' }, x: '-50%', y: '-50%', width: '200%', height: '200%' },
+          children: [
+            { tag: 'rect', attrs: { x: '-50%', y: '-50%', width: '200%', height: '200%', fill: 'white' } },
+            { tag: 'path', attrs: { d: OUTLINE, fill: 'black' } },
+          ],
+        });
+      }
+      layers.push({ tag: 'path', attrs: { ...strokeAttrs(OUTLINE, state.strokeWidth * 2), ...cut } });
+    } else {
+      layers.push({ tag: 'path', attrs: strokeAttrs(strokeOffset ? strokeOffset.path : OUTLINE, state.strokeWidth) });
+    }
+  }
+
+  if (needsClip) {
+    defs.push({ tag: 'clipPath', attrs: { id: { id: 'clip' } }, children: [{ tag: 'path', attrs: { d: OUTLINE } }] });
+  }
+
+  defs.push({
+    tag: 'clipPath',
+    attrs: { id: { id: 'content' }, clipPathUnits: 'objectBoundingBox' },
+    children: [{
+      tag: 'path',
+      attrs: {
+        d: OUTLINE,
+        transform: `scale(${Number((1 / state.width).toPrecision(6))} ${Number((1 / state.height).toPrecision(6))})`,
+      },
+    }],
+  });
+
+  return { defs, layers };
+}
+
+// ============================================================================
+// REACT (TSX)
+// ============================================================================
+
+const toCamelCase = (name: string) => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+function renderJsxAttr(name: string, value: AttrValue): string {
+  const key = toCamelCase(name);
+  if (typeof value === 'number') return `${key}={${value}}`;
+  if (typeof value === 'string') return `${key}="${value}"`;
+  if ('outline' in value) return `${key}={PATH}`;
+  return value.url
+    ? `${key}={\`url(#\${uid}-${value.id})\`}`
+    : `${key}={\`\${uid}-${value.id}\`}`;
+}
+
+function renderJsx(node: ShapeNode, indent: string): string {
+  const attrs = Object.entries(node.attrs).map(([name, value]) => renderJsxAttr(name, value));
+  if (node.style) {
+    const entries = Object.entries(node.style).map(([name, value]) => `${toCamelCase(name)}: '${value}'`);
+    attrs.push(`style={{ ${entries.join(', ')} }}`);
+  }
+  const open = `${indent}<${node.tag} ${attrs.join(' ')}`;
+  if (!node.children?.length) return `${open} />`;
+  const children = node.children.map(child => renderJsx(child, `${indent}  `)).join('\n');
+  return `${open}>\n${children}\n${indent}</${node.tag}>`;
+}
+
+/**
+ * Generate a self-contained, typed React component drawing the shape with
+ * its fill, glow and stroke. Children are clipped to the outline, and other
+ * sizes stretch the outline to fit.
+ * @param state - Superellipse configuration
+ * @param pathData - SVG path data
+ * @param options - Component options
+ * @returns TSX source code
+ */
+export function generateReactComponent(
+  state: SuperellipseState,
+  pathData: string,
+  options: ComponentOptions = {}
+): string {
+  const { name = 'Superellipse', precision = 2 } = options;
+
+  if (!COMPONENT_NAME_PATTERN.test(name)) {
+    throw new Error('Component name must be PascalCase');
+  }
+
+  const { defs, layers } = getShapeLayers(state, precision);
+  const indent = '        ';
+
+  return `import { useId, type CSSProperties, type ReactNode } from 'react';
+
+// ${state.width} × ${state.height} superellipse outline
+const WIDTH = ${state.width};
+const HEIGHT = ${state.height};
+const PATH = '${pathData}';
+
+export interface ${name}Props {
+  /** Rendered width in px, defaults to the designed width */
+  width?: number;
+  /** Rendered height in px, defaults to the designed height */
+  height?: number;
+  className?: string;
+  style?: CSSProperties;
+  /** Content, clipped to the outline */
+  children?: ReactNode;
+}
+
+export function ${name}({ width = WIDTH, height = HEIGHT, className, style, children }: ${name}Props) {
+  // Ids must be unique per instance and usable in url(#…)
+  const uid = useId().replace(/:/g, '');
+
+  return (
+    <div className={className} style={{ position: 'relative', width, height, ...style }}>
+      <svg
+        width="100%"
+        height="100%"
+        viewBox={\`0 0 \${WIDTH} \${HEIGHT}\`}
+        preserveAspectRatio="none"
+        overflow="visible"
+        aria-hidden="true"
+        style={{ position: 'absolute', inset: 0 }}
+      >
+        <defs>
+${defs.map(node => renderJsx(node, `${indent}  `)).join('\n')}
+        </defs>
+${layers.map(node => renderJsx(node, indent)).join('\n')}
+      </svg>
+      <div style={{ position: 'relative', width: '100%', height: '100%', clipPath: \`url(#\${uid}-content)\` }}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export default ${name};
+`;
+}
+
+// ============================================================================
+// MARKUP (VUE, SVELTE, CUSTOM ELEMENT)
+// ============================================================================
+
+/**
+ * How a template language binds instance ids and the outline path
+ */
+interface MarkupSyntax {
+  ref: (name: string, ref: IdRef) => string;
+  outline: (name: string) => string;
+}
+
+function renderMarkup(node: ShapeNode, indent: string, syntax: MarkupSyntax): string {
+  const attrs = Object.entries(node.attrs).map(([name, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') return `${name}="${value}"`;
+    if ('outline' in value) return syntax.outline(name);
+    return syntax.ref(name, value);
+  });
+  if (node.style) {
+    attrs.push(`style="${Object.entries(node.style).map(([name, value]) => `${name}: ${value}`).join('; ')}"`);
+  }
+  const open = `${indent}<${node.tag} ${attrs.join(' ')}`;
+  if (!node.children?.length) return `${open} />`;
+  const children = node.children.map(child => renderMarkup(child, `${indent}  `, syntax)).join('\n');
+  return `${open}>\n${children}\n${indent}</${node.tag}>`;
+}
+
+/**
+ * Render defs and layers as the body of the background `<svg>`
+ */
+function renderSvgBody(state: SuperellipseState, precision: number, indent: string, syntax: MarkupSyntax, scalable = false): string {
+  const { defs, layers } = getShapeLayers(state, precision, scalable);
+  return [
+    `${indent}<defs>`,
+    ...defs.map(node => renderMarkup(node, `${indent}  `, syntax)),
+    `${indent}</defs>`,
+    ...layers.map(node => renderMarkup(node, indent, syntax)),
+  ].join('\n');
+}
+
+/**
+ * Plain JavaScript source of `superellipsePath(w, h, n, steps)`, for exports
+ * that draw outlines at runtime. It samples like `getSuperellipsePath` with
+ * uniform steps, so both produce the same path data.
+ * @param precision - Decimal places for coordinates
+ */
+export function getEmbeddedPathFunction(precision: number = 2): string {
+  return `/**
+ * Superellipse outline for a w×h box, sampled uniformly over t ∈ [0, 2π]
+ */
+function superellipsePath(w, h, n, steps) {
+  const a = w / 2;
+  const b = h / 2;
+  const coords = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = (i * 2 * Math.PI) / steps;
+    let cosT = Math.cos(t);
+    let sinT = Math.sin(t);
+    if (Math.abs(cosT) < 1e-12) cosT = 0;
+    if (Math.abs(sinT) < 1e-12) sinT = 0;
+    const x = a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n);
+    const y = b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n);
+    coords.push(\`\${(x + a).toFixed(${precision})} \${(y + b).toFixed(${precision})}\`);
+  }
+  return \`M \${coords.join(' L ')} Z\`;
+}`;
+}
+
+// Random per-instance prefix, for templates without an id helper
+const RANDOM_UID = "`se-${Math.random().toString(36).slice(2, 10)}`";
+
+/**
+ * Generate a Vue 3 single-file component with the same layers as the React
+ * export. The default slot is clipped to the outline.
+ * @param state - Superellipse configuration
+ * @param pathData - SVG path data
+ * @param options - Component options
+ * @returns SFC source code
+ */
+export function generateVueComponent(
+  state: SuperellipseState,
+  pathData: string,
+  options: ComponentOptions = {}
+): string {
+  const { precision = 2 } = options;
+  const body = renderSvgBody(state, precision, '      ', {
+    ref: (name, ref) => ref.url ? `:${name}="\`url(#\${uid}-${ref.id})\`"` : `:${name}="\`\${uid}-${ref.id}\`"`,
+    outline: name => `:${name}="PATH"`,
+  });
+
+  return `<script setup lang="ts">
+// ${state.width} × ${state.height} superellipse outline; other sizes stretch it to fit
+const props = withDefaults(defineProps<{ width?: number; height?: number }>(), {
+  width: ${state.width},
+  height: ${state.height},
+});
+
+const PATH = '${pathData}';
+const uid = ${RANDOM_UID};
+</script>
+
+<template>
+  <div :style="{ position: 'relative', width: \`\${props.width}px\`, height: \`\${props.height}px\` }">
+    <svg
+      width="100%"
+      height="100%"
+      viewBox="0 0 ${state.width} ${state.height}"
+      preserveAspectRatio="none"
+      overflow="visible"
+      aria-hidden="true"
+      style="position: absolute; inset: 0"
+    >
+${body}
+    </svg>
+    <div :style="{ position: 'relative', width: '100%', height: '100%', clipPath: \`url(#\${uid}-content)\` }">
+      <slot />
+    </div>
+  </div>
+</template>
+`;
+}
+
+/**
+ * Generate a Svelte component with the same layers as the React export.
+ * The default slot is clipped to the outline.
+ * @param state - Superellipse configuration
+ * @param pathData - SVG path data
+ * @param options - Component options
+ * @returns Svelte source code
+ */
+export function generateSvelteComponent(
+  state: SuperellipseState,
+  pathData: string,
+  options: ComponentOptions = {}
+): string {
+  const { precision = 2 } = options;
+  const body = renderSvgBody(state, precision, '    ', {
+    ref: (name, ref) => ref.url ? `${name}="url(#{uid}-${ref.id})"` : `${name}="{uid}-${ref.id}"`,
+    outline: name => `${name}={PATH}`,
+  });
+
+  return `<script lang="ts">
+  // ${state.width} × ${state.height} superellipse outline; other sizes stretch it to fit
+  export let width = ${state.width};
+  export let height = ${state.height};
+
+  const PATH = '${pathData}';
+  const uid = ${RANDOM_UID};
+</script>
+
+<div style="position: relative; width: {width}px; height: {height}px">
+  <svg
+    width="100%"
+    height="100%"
+    viewBox="0 0 ${state.width} ${state.height}"
+    preserveAspectRatio="none"
+    overflow="visible"
+    aria-hidden="true"
+    style="position: absolute; inset: 0"
+  >
+${body}
+  </svg>
+  <div style="position: relative; width: 100%; height: 100%; clip-path: url(#{uid}-content)">
+    <slot />
+  </div>
+</div>
+`;
+}
+
+/**
+ * Custom element export options
+ */
+export interface CustomElementOptions {
+  tagName?: string; // Must contain a hyphen
+  precision?: number; // Decimal places for coordinates
+}
+
+const TAG_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)+$/;
+
+/**
+ * Whether the custom element can redraw the outline from a single exponent.
+ * Other models and per-corner shapes ship their configured outline instead.
+ */
+export function hasRuntimeOutline(state: SuperellipseState): boolean {
+  return (state.shapeModel ?? 'exponent') === 'exponent' && !state.useAsymmetricCorners;
+}
+
+/**
+ * Plain JavaScript source of `scalePath(d, sx, sy)`, which stretches the
+ * absolute M/L/C/A path data produced by `getStatePath`
+ * @param precision - Decimal places for coordinates
+ */
+function getEmbeddedScaleFunction(precision: number): string {
+  return `/**
+ * Outline path data stretched by sx × sy
+ */
+function scalePath(d, sx, sy) {
+  let command = '';
+  let index = 0;
+  return d.split(' ').map(token => {
+    if (/^[A-Z]$/.test(token)) {
+      command = token;
+      index = 0;
+      return token;
+    }
+    // Arcs: rx ry rotation large-arc sweep x y
+    const slot = command === 'A' ? index++ % 7 : index++ % 2;
+    if (command === 'A' && slot >= 2 && slot <= 4) return token;
+    const scale = slot === 0 || slot === 5 ? sx : sy;
+    return String(Number((Number(token) * scale).toFixed(${precision})));
+  }).join(' ');
+}`;
+}
+
+/**
+ * Generate a framework-free custom element, sized by its `width` and
+ * `height` attributes and defaulting to the configured values. A uniform
+ * superellipse is redrawn with the sampling of `getSuperellipsePath` and
+ * also follows an `exponent` attribute; any other outline (smooth corners,
+ * superformula, per-corner exponents or radii) is stretched from the
+ * configured one. The gradient, glow and stroke are rescaled to match.
+ * @param state - Superellipse configuration
+ * @param options - Custom element options
+ * @returns JavaScript module source
+ */
+export function generateCustomElement(state: SuperellipseState, options: CustomElementOptions = {}): string {
+  const { tagName = 'super-ellipse', precision = 2 } = options;
+
+  if (!TAG_NAME_PATTERN.test(tagName)) {
+    throw new Error('Custom element names must be lowercase and contain a hyphen');
+  }
+
+  const className = tagName.replace(/(^|-)([a-z0-9])/g, (_, __, letter: string) => letter.toUpperCase());
+  // Ids are scoped to the shadow root, so fixed ones are safe
+  const body = renderSvgBody(state, precision, '    ', {
+    ref: (name, ref) => ref.url ? `${name}="url(#${ref.id})"` : `${name}="${ref.id}"`,
+    outline: () => 'data-outline',
+  }, true);
+
+  const runtime = hasRuntimeOutline(state);
+  const attributes = runtime ? ['width', 'height', 'exponent'] : ['width', 'height'];
+  const usage = `<${tagName} width="${state.width}" height="${state.height}"${runtime ? ` exponent="${state.exp}"` : ''}>…</${tagName}>`;
+  const outline = runtime
+    ? `const EXPONENT = ${state.exp};
+const STEPS = 360;
+
+${getEmbeddedPathFunction(precision)}`
+    : `// ${state.width} × ${state.height} outline; other sizes stretch it to fit
+const OUTLINE = '${getStatePath(state, { precision })}';
+
+${getEmbeddedScaleFunction(precision)}`;
+  const redrawOutline = runtime
+    ? `const n = this.readNumber('exponent', EXPONENT);
+    const d = superellipsePath(w, h, n, STEPS);`
+    : `const d = w === WIDTH && h === HEIGHT ? OUTLINE : scalePath(OUTLINE, w / WIDTH, h / HEIGHT);`;
+
+  return `// ${usage}
+const WIDTH = ${state.width};
+const HEIGHT = ${state.height};
+${outline}
+
+const template = document.createElement('template');
+template.innerHTML = \`
+  <style>
+    :host { display: inline-block; position: relative; }
+    svg { position: absolute; inset: 0; overflow: visible; }
+    .content { position: relative; width: 100%; height: 100%; clip-path: url(#content); }
+  </style>
+  <svg width="100%" height="100%" aria-hidden="true">
+${body}
+  </svg>
+  <div class="content"><slot></slot></div>
+\`;
+
+class ${className} extends HTMLElement {
+  static observedAttributes = [${attributes.map(name => `'${name}'`).join(', ')}];
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' }).appendChild(template.content.cloneNode(true));
+  }
+
+  connectedCallback() {
+    this.redraw();
+  }
+
+  attributeChangedCallback() {
+    this.redraw();
+  }
+
+  readNumber(name, fallback) {
+    const value = Number.parseFloat(this.getAttribute(name) ?? '');
+    return value > 0 ? value : fallback;
+  }
+
+  redraw() {
+    const w = this.readNumber('width', WIDTH);
+    const h = this.readNumber('height', HEIGHT);
+    ${redrawOutline}
+    const root = this.shadowRoot;
+
+    this.style.width = \`\${w}px\`;
+    this.style.height = \`\${h}px\`;
+    root.querySelector('svg').setAttribute('viewBox', \`0 0 \${w} \${h}\`);
+    root.querySelectorAll('[data-outline]').forEach(el => el.setAttribute('d', d));
+    root.querySelectorAll('[data-scale]').forEach(el => {
+      el.setAttribute(el.dataset.scale, \`scale(\${w / WIDTH} \${h / HEIGHT})\`);
+    });
+    root.querySelector('#content path').setAttribute('transform', \`scale(\${1 / w} \${1 / h})\`);
+  }
+}
+
+if (!customElements.get('${tagName}')) {
+  customElements.define('${tagName}', ${className});
+}
+
+export { ${className} };
+`;
+}
@@ -0,0 +1,393 @@
+// ============================================================================
+// TEXT CONTRAST
+// ============================================================================
+
+import { createInvalidHexError } from '@/lib/errors';
+import { getContrastRatio, hexToRgb, rgbToHex } from './colorPalette';
+import {
+  SuperellipseState,
+  GradientStop,
+  PREVIEW_GLOW_CONTAINER,
+  PREVIEW_GLOW_LAYERS,
+  getPreviewGlowColors,
+  getLinearGradientLine,
+  getRadialGradientGeometry,
+} from './math';
+import { RGBColor, gamutMapOklch, hexToOklch, oklchToHex } from './oklch';
+
+export type ContrastTarget = 'wcag-aa' | 'wcag-aaa' | 'apca-60' | 'apca-75';
+
+/**
+ * Pass levels for normal-size text: WCAG 2.x ratios and APCA Lc values
+ * (Lc 60 for content text, Lc 75 for body text columns)
+ */
+export const CONTRAST_TARGETS: Record<ContrastTarget, { label: string; metric: 'wcag' | 'apca'; min: number }> = {
+  'wcag-aa': { label: 'AA', metric: 'wcag', min: 4.5 },
+  'wcag-aaa': { label: 'AAA', metric: 'wcag', min: 7 },
+  'apca-60': { label: 'Lc 60', metric: 'apca', min: 60 },
+  'apca-75': { label: 'Lc 75', metric: 'apca', min: 75 },
+};
+
+/**
+ * Part of the shape text sits on, as shares of its width and height
+ */
+export interface TextAreaRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TextAreaPreset = 'top' | 'center' | 'bottom';
+
+export const TEXT_AREAS: Record<TextAreaPreset, { label: string; rect: TextAreaRect }> = {
+  top: { label: 'Top', rect: { x: 0.08, y: 0.06, width: 0.84, height: 0.26 } },
+  center: { label: 'Center', rect: { x: 0.08, y: 0.37, width: 0.84, height: 0.26 } },
+  // Where the preview places its labels
+  bottom: { label: 'Bottom', rect: { x: 0.08, y: 0.62, width: 0.84, height: 0.3 } },
+};
+
+/**
+ * Effective colors behind a text area. `opacity` fades the whole card,
+ * text included, onto `page`.
+ */
+export interface TextBackground {
+  colors: string[];
+  opacity: number;
+  page: string;
+}
+
+/**
+ * Worst case over a text background
+ */
+export interface ContrastReport {
+  ratio: number; // Lowest WCAG 2.x ratio
+  lc: number; // APCA Lc closest to zero; negative for light text on dark
+  passes: Record<ContrastTarget, boolean>;
+  darkest: string;
+  lightest: string;
+}
+
+// Samples per side of the text area
+const SAMPLE_GRID = 5;
+// Horizontal strips a blurred glow ellipse is integrated over
+const ELLIPSE_STRIPS = 48;
+// Darkest and lightest grain of the fractal noise overlay
+const NOISE_GRAIN_RANGE = [0.25, 0.75] as const;
+const LIGHTNESS_STEP = 0.005;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const mix = (from: RGBColor, to: RGBColor, amount: number): RGBColor => ({
+  r: from.r + (to.r - from.r) * amount,
+  g: from.g + (to.g - from.g) * amount,
+  b: from.b + (to.b - from.b) * amount,
+});
+const toHex = ({ r, g, b }: RGBColor) => rgbToHex(clamp01(r) * 255, clamp01(g) * 255, clamp01(b) * 255).toUpperCase();
+
+function toRgb(hex: string): RGBColor {
+  const rgb = hexToRgb(hex);
+  if (!rgb) {
+    throw createInvalidHexError(hex);
+  }
+  return { r: rgb.r / 255, g: rgb.g / 255, b: rgb.b / 255 };
+}
+
+// ============================================================================
+// APCA
+// ============================================================================
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTRC: 2.4,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+} as const;
+
+function getApcaLuminance(hex: string): number {
+  const { r, g, b } = toRgb(hex);
+  const y = 0.2126729 * r ** APCA.mainTRC + 0.7151522 * g ** APCA.mainTRC + 0.072175 * b ** APCA.mainTRC;
+  // Soft clamp near black, where screens flare
+  return y > APCA.blkThrs ? y : y + (APCA.blkThrs - y) ** APCA.blkClmp;
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background. Positive for dark
+ * text on light backgrounds, negative for light text on dark ones; about
+ * ±106 for black and white.
+ * @throws ValidationError if either hex color is invalid
+ */
+export function getApcaContrast(textHex: string, backgroundHex: string): number {
+  const text = getApcaLuminance(textHex);
+  const background = getApcaLuminance(backgroundHex);
+  if (Math.abs(background - text) < APCA.deltaYmin) return 0;
+
+  if (background > text) {
+    const sapc = (background ** APCA.normBG - text ** APCA.normTXT) * APCA.scale;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+  }
+  const sapc = (background ** APCA.revBG - text ** APCA.revTXT) * APCA.scale;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+}
+
+// ============================================================================
+// BACKGROUND SAMPLING
+// ============================================================================
+
+/**
+ * Color of a gradient at a position in percent, with CSS stop rules:
+ * positions never go backwards and the ends extend flat
+ */
+function getStopColorAt(stops: GradientStop[], position: number): RGBColor {
+  type Stop = { color: RGBColor; position: number };
+  let previous: Stop | null = null;
+  for (const stop of stops) {
+    const current: Stop = { color: toRgb(stop.color), position: Math.max(stop.position, previous?.position ?? -Infinity) };
+    if (position <= current.position) {
+      if (!previous) return current.color;
+      const span = current.position - previous.position;
+      return span > 0 ? mix(previous.color, current.color, (position - previous.position) / span) : current.color;
+    }
+    previous = current;
+  }
+  return previous ? previous.color : { r: 0, g: 0, b: 0 };
+}
+
+/**
+ * Fill color at a point of the shape's box, following the same gradient
+ * geometry as the preview and exports
+ */
+function getFillAt(state: SuperellipseState, x: number, y: number): RGBColor {
+  switch (state.colorMode) {
+    case 'linear': {
+      const { x1, y1, x2, y2 } = getLinearGradientLine(state.width, state.height, state.gradientAngle);
+      const length2 = (x2 - x1) ** 2 + (y2 - y1) ** 2;
+      const t = length2 > 0 ? ((x - x1) * (x2 - x1) + (y - y1) * (y2 - y1)) / length2 : 0;
+      return getStopColorAt(state.gradientStops, t * 100);
+    }
+    case 'radial': {
+      // Circles grow from the focal point to the centre: |p - f - t(c - f)| = t·r
+      const { cx, cy, r, fx, fy } = getRadialGradientGeometry(state);
+      if (r <= 0) return getStopColorAt(state.gradientStops, 100);
+      const [qx, qy, dx, dy] = [x - fx, y - fy, cx - fx, cy - fy];
+      const a = dx * dx + dy * dy - r * r;
+      const qd = qx * dx + qy * dy;
+      const t = (qd - Math.sqrt(qd * qd - a * (qx * qx + qy * qy))) / a;
+      return getStopColorAt(state.gradientStops, t * 100);
+    }
+    case 'conic': {
+      const cx = (state.width * state.gradientCenterX) / 100;
+      const cy = (state.height * state.gradientCenterY) / 100;
+      const angle = (Math.atan2(x - cx, cy - y) * 180) / Math.PI - state.gradientAngle;
+      return getStopColorAt(state.gradientStops, ((((angle % 360) + 360) % 360) / 360) * 100);
+    }
+    default:
+      return toRgb(state.solidColor);
+  }
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to 1.5e-7
+function erf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return Math.sign(x) * (1 - poly * Math.exp(-x * x));
+}
+
+/**
+ * Share of a Gaussian-blurred ellipse covering a point. CSS `blur()` takes
+ * the standard deviation; strips are exact across and summed down.
+ */
+function getBlurredEllipseCoverage(
+  px: number,
+  py: number,
+  ellipse: { cx: number; cy: number; rx: number; ry: number },
+  sigma: number
+): number {
+  const cdf = (d: number) => (sigma > 0 ? 0.5 * (1 + erf(d / (sigma * Math.SQRT2))) : d >= 0 ? 1 : 0);
+  const { cx, cy, rx, ry } = ellipse;
+  const strip = (2 * ry) / ELLIPSE_STRIPS;
+
+  let coverage = 0;
+  for (let i = 0; i < ELLIPSE_STRIPS; i++) {
+    const y0 = cy - ry + i * strip;
+    const mid = (y0 + strip / 2 - cy) / ry;
+    const half = rx * Math.sqrt(Math.max(0, 1 - mid * mid));
+    coverage += (cdf(y0 + strip - py) - cdf(y0 - py)) * (cdf(cx + half - px) - cdf(cx - half - px));
+  }
+  return coverage;
+}
+
+/**
+ * Preview glow at a point: its layers screen blended inside the container,
+ * then masked and faded as one group
+ * @returns Group color and alpha for normal compositing over the fill
+ */
+function getGlowAt(state: SuperellipseState, x: number, y: number, colors: RGBColor[]): { color: RGBColor; alpha: number } {
+  const { width, height, maskStart } = PREVIEW_GLOW_CONTAINER;
+  // Into container space; the container scales around its centre
+  const lx = width / 2 + (x - state.glowPositionX - width / 2) / state.glowScale;
+  const ly = height / 2 + (y - state.glowPositionY - height / 2) / state.glowScale;
+  if (!state.enabled || lx < 0 || lx > width || ly < 0 || ly > height) {
+    return { color: { r: 0, g: 0, b: 0 }, alpha: 0 };
+  }
+  const mask = clamp01((height - ly) / (height * (1 - maskStart)));
+
+  let color: RGBColor = { r: 0, g: 0, b: 0 };
+  let alpha = 0;
+  PREVIEW_GLOW_LAYERS.forEach((layer, index) => {
+    const source = colors[layer.colorIndex === -1 ? 3 : layer.colorIndex];
+    const ellipse = { cx: layer.left + layer.width / 2, cy: layer.top + layer.height / 2, rx: layer.width / 2, ry: layer.height / 2 };
+    const blur = index === 1 ? state.glowBlur : layer.blur;
+    const layerAlpha = getBlurredEllipseCoverage(lx, ly, ellipse, blur) * layer.opacity;
+    if (layerAlpha <= 0) return;
+
+    // Screen against what the group already holds, then source-over
+    const screen = (backdrop: number, value: number) => backdrop + value - backdrop * value;
+    const blended = {
+      r: (1 - alpha) * source.r + alpha * screen(color.r, source.r),
+      g: (1 - alpha) * source.g + alpha * screen(color.g, source.g),
+      b: (1 - alpha) * source.b + alpha * screen(color.b, source.b),
+    };
+    const next = layerAlpha + alpha * (1 - layerAlpha);
+    color = {
+      r: (layerAlpha * blended.r + alpha * color.r * (1 - layerAlpha)) / next,
+      g: (layerAlpha * blended.g + alpha * color.g * (1 - layerAlpha)) / next,
+      b: (layerAlpha * blended.b + alpha * color.b * (1 - layerAlpha)) / next,
+    };
+    alpha = next;
+  });
+
+  return { color, alpha: alpha * mask * (state.glowOpacity / 100) };
+}
+
+const overlay = (backdrop: number, grain: number) =>
+  backdrop <= 0.5 ? 2 * backdrop * grain : grain + (2 * backdrop - 1) - grain * (2 * backdrop - 1);
+
+/**
+ * Effective background under a text area of the preview card: the fill or
+ * gradient, the glow layers and the noise overlay composited the way the
+ * browser does, on a grid of points. Noise counts as its darkest and
+ * lightest grain, so the worst case covers the texture.
+ * @param page - Color behind the card, seen through solid fills below 100% opacity
+ * @throws ValidationError if a fill color is invalid
+ */
+export function sampleTextBackground(state: SuperellipseState, area: TextAreaRect, page: string): TextBackground {
+  const glowColors = getPreviewGlowColors(state).map(color => gamutMapOklch(color));
+  const noise = state.noiseEnabled ? state.noiseIntensity / 100 : 0;
+  const grains = noise > 0 ? NOISE_GRAIN_RANGE : [];
+
+  const colors = new Set<string>();
+  for (let row = 0; row < SAMPLE_GRID; row++) {
+    for (let col = 0; col < SAMPLE_GRID; col++) {
+      const x = (area.x + ((col + 0.5) / SAMPLE_GRID) * area.width) * state.width;
+      const y = (area.y + ((row + 0.5) / SAMPLE_GRID) * area.height) * state.height;
+      const glow = getGlowAt(state, x, y, glowColors);
+      const base = mix(getFillAt(state, x, y), glow.color, glow.alpha);
+
+      if (grains.length === 0) colors.add(toHex(base));
+      grains.forEach(grain => {
+        colors.add(toHex(mix(base, {
+          r: overlay(base.r, grain),
+          g: overlay(base.g, grain),
+          b: overlay(base.b, grain),
+        }, noise)));
+      });
+    }
+  }
+
+  return {
+    colors: Array.from(colors),
+    opacity: state.colorMode === 'solid' ? state.solidOpacity / 100 : 1,
+    page,
+  };
+}
+
+// ============================================================================
+// MEASURING
+// ============================================================================
+
+/**
+ * Fade a card color onto the page by the card's opacity
+ */
+function fade(hex: string, background: TextBackground): string {
+  if (background.opacity >= 1) return hex;
+  return toHex(mix(toRgb(background.page), toRgb(hex), background.opacity));
+}
+
+// Colors text is read against; the page alone when nothing was sampled
+const getVisibleColors = (background: TextBackground) =>
+  background.colors.length > 0 ? background.colors.map(color => fade(color, background)) : [background.page];
+
+/**
+ * Worst-case WCAG 2.x ratio and APCA Lc of a text color over a sampled
+ * background
+ * @throws ValidationError if the text color is invalid
+ */
+export function measureContrast(textHex: string, background: TextBackground): ContrastReport {
+  const text = fade(textHex, background);
+  const colors = getVisibleColors(background);
+  let ratio = Infinity;
+  let lc = Infinity;
+
+  colors.forEach(hex => {
+    ratio = Math.min(ratio, getContrastRatio(text, hex));
+    const sampleLc = getApcaContrast(text, hex);
+    if (Math.abs(sampleLc) < Math.abs(lc)) lc = sampleLc;
+  });
+
+  const byLuminance = [...colors].sort((a, b) => getApcaLuminance(a) - getApcaLuminance(b));
+  const passes = Object.fromEntries(
+    (Object.keys(CONTRAST_TARGETS) as ContrastTarget[]).map(target => {
+      const { metric, min } = CONTRAST_TARGETS[target];
+      return [target, (metric === 'wcag' ? ratio : Math.abs(lc)) >= min];
+    })
+  ) as Record<ContrastTarget, boolean>;
+
+  return { ratio, lc, passes, darkest: byLuminance[0], lightest: byLuminance[byLuminance.length - 1] };
+}
+
+/**
+ * Nearest text color that meets a target over the whole background: the
+ * same OKLCH hue and chroma with the smallest lightness change, kept in sRGB.
+ * @returns The text color itself when it already passes; null when no
+ *   lightness does, e.g. over a background that runs from dark to light
+ * @throws ValidationError if the text color is invalid
+ */
+export function suggestTextColor(textHex: string, background: TextBackground, target: ContrastTarget): string | null {
+  const { metric, min } = CONTRAST_TARGETS[target];
+  const colors = getVisibleColors(background);
+  // Lowest score over the background, stopping at the first failing sample
+  const score = (hex: string) => {
+    const text = fade(hex, background);
+    let lowest = Infinity;
+    for (const color of colors) {
+      lowest = Math.min(lowest, metric === 'wcag' ? getContrastRatio(text, color) : Math.abs(getApcaContrast(text, color)));
+      if (lowest < min) break;
+    }
+    return lowest;
+  };
+
+  if (score(textHex) >= min) return textHex.toUpperCase();
+
+  const base = hexToOklch(textHex);
+  for (let step = 1; step * LIGHTNESS_STEP <= 1; step++) {
+    const candidates = [base.l - step * LIGHTNESS_STEP, base.l + step * LIGHTNESS_STEP]
+      .filter(l => l >= 0 && l <= 1)
+      .map(l => oklchToHex({ ...base, l }).toUpperCase())
+      .map(hex => ({ hex, score: score(hex) }))
+      .filter(candidate => candidate.score >= min);
+
+    if (candidates.length > 0) {
+      // Both ways pass at the same distance: take the clearer one
+      return candidates.reduce((best, next) => (next.score > best.score ? next : best)).hex;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,425 @@
+// ============================================================================
+// DESIGN TOKENS EXPORT
+// ============================================================================
+
+import { createInvalidStateError, ValidationError } from '@/lib/errors';
+import { parseSuperellipseState, serializeState, STATE_VERSION } from '@/lib/stateSchema';
+import { SuperellipseState, GradientStop } from './math';
+import { hexToRgb, rgbToHex } from './colorPalette';
+import { getPresetSlugs } from './tailwindExport';
+
+/**
+ * Named state written as a token group
+ */
+export interface TokenPreset {
+  name: string;
+  state: SuperellipseState;
+}
+
+/**
+ * `dtcg` follows the W3C Design Tokens Format (`$value`, `$type`, typed
+ * color and dimension objects); `style-dictionary` uses the classic
+ * `value`/`type` keys with CSS strings that Style Dictionary transforms as-is
+ */
+export type TokenFormat = 'dtcg' | 'style-dictionary';
+
+export type DesignTokenParseResult =
+  | { success: true; data: TokenPreset[] }
+  | { success: false; error: ValidationError };
+
+type TokenTree = { [key: string]: unknown };
+
+/**
+ * `$extensions` key holding the full state, so imports restore settings
+ * that have no token of their own
+ */
+export const TOKEN_EXTENSION = 'com.superellipse';
+
+const ROOT_GROUP = 'superellipse';
+const CURRENT_GROUP = 'current';
+const CURRENT_NAME = 'Current';
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+const CORNERS = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'] as const;
+const CORNER_KEYS: Record<(typeof CORNERS)[number], string> = {
+  topLeft: 'top-left',
+  topRight: 'top-right',
+  bottomRight: 'bottom-right',
+  bottomLeft: 'bottom-left',
+};
+
+const STROKE_STYLES = ['solid', 'dashed', 'dotted'] as const;
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Writes each token type in one format
+ */
+interface TokenWriter {
+  descriptionKey: string;
+  token(type: string, value: unknown, description?: string): TokenTree;
+  color(hex: string, opacity?: number): unknown;
+  oklch(lightness: number, chroma: number, hue: number, opacity?: number): unknown;
+  dimension(px: number): unknown;
+  gradient(stops: GradientStop[]): unknown;
+}
+
+function hexWithAlpha(hex: string, opacity = 100): string {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return hex;
+  const base = rgbToHex(rgb.r, rgb.g, rgb.b).toUpperCase();
+  if (opacity >= 100) return base;
+  return base + Math.round((opacity / 100) * 255).toString(16).padStart(2, '0').toUpperCase();
+}
+
+const DTCG_WRITER: TokenWriter = {
+  descriptionKey: '$description',
+  token: (type, value, description) => ({
+    $type: type,
+    $value: value,
+    ...(description ? { $description: description } : {}),
+  }),
+  color: (hex, opacity = 100) => {
+    const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+    return {
+      colorSpace: 'srgb',
+      components: [rgb.r, rgb.g, rgb.b].map(c => round(c / 255)),
+      ...(opacity < 100 ? { alpha: round(opacity / 100) } : {}),
+      hex: hexWithAlpha(hex).toLowerCase(),
+    };
+  },
+  oklch: (lightness, chroma, hue, opacity = 100) => ({
+    colorSpace: 'oklch',
+    components: [round(lightness / 100), round(chroma), round(hue)],
+    ...(opacity < 100 ? { alpha: round(opacity / 100) } : {}),
+  }),
+  dimension: px => ({ value: round(px, 2), unit: 'px' }),
+  gradient: stops => stops.map(stop => ({
+    color: DTCG_WRITER.color(stop.color),
+    position: round(stop.position / 100),
+  })),
+};
+
+const STYLE_DICTIONARY_WRITER: TokenWriter = {
+  descriptionKey: 'comment',
+  token: (type, value, description) => ({
+    type,
+    value,
+    ...(description ? { comment: description } : {}),
+  }),
+  color: (hex, opacity = 100) => hexWithAlpha(hex, opacity),
+  oklch: (lightness, chroma, hue, opacity = 100) =>
+    `oklch(${lightness}% ${chroma} ${hue}${opacity < 100 ? ` / ${round(opacity / 100)}` : ''})`,
+  dimension: px => `${round(px, 2)}px`,
+  gradient: stops => stops.map(stop => ({
+    color: hexWithAlpha(stop.color),
+    position: round(stop.position / 100),
+  })),
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Token group for one state: size, shape, colors, effects and stroke
+ */
+function getStateTokens(name: string, state: SuperellipseState, writer: TokenWriter): TokenTree {
+  const { token, color, dimension } = writer;
+
+  const shape: TokenTree = {
+    exponent: token('number', state.exp, 'Superellipse exponent (n)'),
+  };
+  if (state.useAsymmetricCorners) {
+    shape['corner-exponent'] = Object.fromEntries(
+      CORNERS.map(corner => [CORNER_KEYS[corner], token('number', state.cornerExponents[corner])])
+    );
+  }
+  if (state.shapeModel === 'smooth-corners') {
+    shape['corner-radius'] = token('dimension', dimension(state.cornerRadius));
+    shape['corner-smoothing'] = token('number', state.cornerSmoothing);
+  }
+
+  const group: TokenTree = {
+    [writer.descriptionKey]: name,
+    $extensions: { [TOKEN_EXTENSION]: { name, ...serializeState(state) } },
+    size: {
+      width: token('dimension', dimension(state.width)),
+      height: token('dimension', dimension(state.height)),
+    },
+    shape,
+    color: {
+      fill: token('color', color(state.solidColor, state.solidOpacity)),
+      ...(state.enabled ? {
+        glow: token('color', writer.oklch(state.lightness, state.chroma, state.hue, state.glowOpacity), 'OKLCH glow'),
+      } : {}),
+    },
+    blur: {
+      fill: token('dimension', dimension(state.blur)),
+      backdrop: token('dimension', dimension(state.backdropBlur)),
+      ...(state.enabled ? {
+        glow: token('dimension', dimension(state.glowBlur)),
+        'glow-spread': token('dimension', dimension(state.glowSpread)),
+      } : {}),
+    },
+    shadow: {
+      drop: token('shadow', {
+        color: color('#000000', state.shadowIntensity),
+        offsetX: dimension(0),
+        offsetY: dimension(state.shadowDistance),
+        blur: dimension(state.shadowDistance * 2),
+        spread: dimension(0),
+      }),
+    },
+  };
+
+  if (state.colorMode !== 'solid') {
+    group.gradient = {
+      fill: token('gradient', writer.gradient(state.gradientStops), `${state.colorMode} gradient`),
+    };
+  }
+
+  if (state.borderEnabled) {
+    group.border = {
+      stroke: token('border', {
+        color: color(state.strokeColor, state.strokeOpacity),
+        width: dimension(state.strokeWidth),
+        style: state.strokeStyle,
+      }),
+    };
+  }
+
+  return group;
+}
+
+/**
+ * Design tokens for the current state and every saved preset
+ * @param state - Current configuration, written as `superellipse.current`
+ * @param presets - Saved presets, written under `superellipse.presets`
+ * @param format - Token flavour, see {@link TokenFormat}
+ * @returns Token tree, ready for JSON.stringify
+ */
+export function generateDesignTokens(
+  state: SuperellipseState,
+  presets: TokenPreset[] = [],
+  format: TokenFormat = 'dtcg'
+): TokenTree {
+  const writer = format === 'dtcg' ? DTCG_WRITER : STYLE_DICTIONARY_WRITER;
+  const slugs = getPresetSlugs(presets.map(preset => preset.name));
+
+  const root: TokenTree = {
+    [CURRENT_GROUP]: getStateTokens(CURRENT_NAME, state, writer),
+  };
+  if (presets.length > 0) {
+    root.presets = Object.fromEntries(
+      presets.map((preset, index) => [slugs[index], getStateTokens(preset.name, preset.state, writer)])
+    );
+  }
+  return { [ROOT_GROUP]: root };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+const isObject = (value: unknown): value is TokenTree =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Value of a token in either format, or undefined when the node is not a token
+ */
+function getTokenValue(tree: unknown, ...path: string[]): unknown {
+  const node = path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), tree);
+  if (!isObject(node)) return undefined;
+  return '$value' in node ? node.$value : node.value;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readDimension(value: unknown): number | undefined {
+  if (isObject(value)) {
+    const px = readNumber(value.value);
+    if (px === undefined) return undefined;
+    return value.unit === 'rem' ? px * 16 : px;
+  }
+  if (typeof value === 'string') {
+    const match = /^(-?[\d.]+)(px|rem)?$/.exec(value.trim());
+    if (!match) return undefined;
+    return Number(match[1]) * (match[2] === 'rem' ? 16 : 1);
+  }
+  return readNumber(value);
+}
+
+/**
+ * sRGB color as `#RRGGBB` plus opacity in percent
+ */
+function readColor(value: unknown): { hex: string; opacity: number } | undefined {
+  if (isObject(value)) {
+    const alpha = readNumber(value.alpha) ?? 1;
+    const components = value.components;
+    if (value.colorSpace === 'srgb' && Array.isArray(components) && components.length === 3) {
+      const [r, g, b] = components.map(c => Math.round(Math.min(1, Math.max(0, Number(c) || 0)) * 255));
+      return { hex: rgbToHex(r, g, b).toUpperCase(), opacity: round(alpha * 100, 1) };
+    }
+    return typeof value.hex === 'string' ? readColor(value.hex) : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const match = /^#([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(value.trim());
+  if (!match) return undefined;
+  // 8-bit alpha has enough steps to recover whole percents exactly
+  const opacity = match[2] ? Math.round((parseInt(match[2], 16) / 255) * 100) : 100;
+  return { hex: `#${match[1].toUpperCase()}`, opacity };
+}
+
+function readOklch(value: unknown): { lightness: number; chroma: number; hue: number; opacity: number } | undefined {
+  if (isObject(value) && value.colorSpace === 'oklch' && Array.isArray(value.components)) {
+    const [l, c, h] = value.components.map(Number);
+    if (![l, c, h].every(Number.isFinite)) return undefined;
+    return { lightness: round(l * 100, 2), chroma: c, hue: h, opacity: round((readNumber(value.alpha) ?? 1) * 100, 1) };
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const match = /^oklch\(\s*([\d.]+)%\s+([\d.]+)\s+([\d.]+)(?:\s*\/\s*([\d.]+))?\s*\)$/i.exec(value.trim());
+  if (!match) return undefined;
+  const alpha = match[4] === undefined ? 1 : Number(match[4]);
+  return { lightness: Number(match[1]), chroma: Number(match[2]), hue: Number(match[3]), opacity: round(alpha * 100, 1) };
+}
+
+/**
+ * Apply the tokens of one group over a base state. Tokens win over the
+ * embedded state so edits made in a token pipeline survive the round trip.
+ */
+function applyTokens(base: Record<string, unknown>, group: TokenTree): Record<string, unknown> {
+  const state = { ...base };
+  const set = (key: string, value: unknown) => {
+    if (value !== undefined) state[key] = value;
+  };
+
+  set('width', readDimension(getTokenValue(group, 'size', 'width')));
+  set('height', readDimension(getTokenValue(group, 'size', 'height')));
+  set('exp', readNumber(getTokenValue(group, 'shape', 'exponent')));
+  set('cornerRadius', readDimension(getTokenValue(group, 'shape', 'corner-radius')));
+  set('cornerSmoothing', readNumber(getTokenValue(group, 'shape', 'corner-smoothing')));
+
+  const cornerExponents = CORNERS.map(corner => readNumber(getTokenValue(group, 'shape', 'corner-exponent', CORNER_KEYS[corner])));
+  if (cornerExponents.every(n => n !== undefined)) {
+    state.useAsymmetricCorners = true;
+    state.cornerExponents = Object.fromEntries(CORNERS.map((corner, i) => [corner, cornerExponents[i]]));
+  }
+
+  const fill = readColor(getTokenValue(group, 'color', 'fill'));
+  if (fill) {
+    state.solidColor = fill.hex;
+    state.solidOpacity = fill.opacity;
+  }
+
+  const glow = readOklch(getTokenValue(group, 'color', 'glow'));
+  if (glow) {
+    state.enabled = true;
+    state.lightness = glow.lightness;
+    state.chroma = glow.chroma;
+    state.hue = glow.hue;
+    state.glowOpacity = glow.opacity;
+  }
+
+  set('blur', readDimension(getTokenValue(group, 'blur', 'fill')));
+  set('backdropBlur', readDimension(getTokenValue(group, 'blur', 'backdrop')));
+  set('glowBlur', readDimension(getTokenValue(group, 'blur', 'glow')));
+  set('glowSpread', readDimension(getTokenValue(group, 'blur', 'glow-spread')));
+
+  const shadow = getTokenValue(group, 'shadow', 'drop');
+  if (isObject(shadow)) {
+    set('shadowDistance', readDimension(shadow.offsetY));
+    set('shadowIntensity', readColor(shadow.color)?.opacity);
+  }
+
+  const gradient = getTokenValue(group, 'gradient', 'fill');
+  if (Array.isArray(gradient)) {
+    const stops = gradient.map(stop => ({
+      color: isObject(stop) ? readColor(stop.color)?.hex : undefined,
+      position: isObject(stop) ? readNumber(stop.position) : undefined,
+    }));
+    if (stops.length > 0 && stops.every(stop => stop.color && stop.position !== undefined)) {
+      state.gradientStops = stops.map(stop => ({ color: stop.color, position: round(stop.position! * 100, 2) }));
+      if (state.colorMode === undefined || state.colorMode === 'solid') state.colorMode = 'linear';
+    }
+  }
+
+  const border = getTokenValue(group, 'border', 'stroke');
+  if (isObject(border)) {
+    state.borderEnabled = true;
+    const stroke = readColor(border.color);
+    set('strokeColor', stroke?.hex);
+    set('strokeOpacity', stroke?.opacity);
+    set('strokeWidth', readDimension(border.width));
+    if (STROKE_STYLES.includes(border.style as (typeof STROKE_STYLES)[number])) state.strokeStyle = border.style;
+  }
+
+  return state;
+}
+
+/**
+ * Groups that describe a shape: exported ones carry the state extension,
+ * hand-written ones at least a size or an exponent
+ */
+function findStateGroups(tree: TokenTree, path: string[] = []): { path: string[]; group: TokenTree }[] {
+  const isStateGroup = isObject(tree.$extensions) && TOKEN_EXTENSION in tree.$extensions
+    || getTokenValue(tree, 'shape', 'exponent') !== undefined
+    || getTokenValue(tree, 'size', 'width') !== undefined;
+  if (isStateGroup) return [{ path, group: tree }];
+
+  return Object.entries(tree).flatMap(([key, child]) =>
+    !key.startsWith('$') && isObject(child) ? findStateGroups(child, [...path, key]) : []
+  );
+}
+
+/**
+ * Whether a parsed JSON file looks like a tokens file rather than a
+ * single saved configuration
+ */
+export function isDesignTokensFile(input: unknown): boolean {
+  return isObject(input) && findStateGroups(input).length > 0;
+}
+
+/**
+ * Read presets from a design tokens file in either format. Each shape group
+ * becomes one preset, named after its description or its path.
+ */
+export function parseDesignTokens(input: unknown): DesignTokenParseResult {
+  if (!isObject(input)) {
+    return { success: false, error: createInvalidStateError('tokens file must be a JSON object') };
+  }
+
+  const groups = findStateGroups(input);
+  if (groups.length === 0) {
+    return { success: false, error: createInvalidStateError('no superellipse tokens found') };
+  }
+
+  const presets: TokenPreset[] = [];
+  for (const { path, group } of groups) {
+    const extension = isObject(group.$extensions) ? group.$extensions[TOKEN_EXTENSION] : undefined;
+    const embedded = isObject(extension) && isObject(extension.state) ? extension : undefined;
+    const name = [embedded?.name, group.$description, group.comment, path.join('.')]
+      .find((value): value is string => typeof value === 'string' && value.trim() !== '') ?? CURRENT_NAME;
+
+    const result = parseSuperellipseState({
+      version: embedded ? embedded.version : STATE_VERSION,
+      state: applyTokens(embedded ? (embedded.state as TokenTree) : {}, group),
+    });
+    if (!result.success) {
+      return {
+        success: false,
+        error: createInvalidStateError(`${name}: ${result.error.message.replace(/^Invalid configuration: /, '')}`, result.error),
+      };
+    }
+    presets.push({ name: name.trim(), state: result.data });
+  }
+
+  return { success: true, data: presets };
+}
@@ -2,42 +2,51 @@
 // MATHEMATICAL UTILITIES FOR SUPERELLIPSE GENERATION
 // ============================================================================
 
+import { hexToRgb, rgbToHex } from './colorPalette';
+import { OKLCH, formatOklch, formatDisplayP3, oklchToHex } from './oklch';
+import type {
+  SuperellipseState,
+  GradientStop,
+  CornerExponents,
+  CornerRadii,
+  CornerBlendCurve,
+  ShapeModel,
+  SuperformulaParams,
+} from '../lib/stateSchema';
+
+// State and shape types are defined once by the state schema
+export type {
+  SuperellipseState,
+  GradientStop,
+  CornerExponents,
+  CornerRadii,
+  CornerBlendCurve,
+  ShapeModel,
+  SuperformulaParams,
+};
+
 /**
- * Superellipse state interface
+ * Where a stroke sits relative to the outline
  */
-export interface SuperellipseState {
-  // Dimensions
-  width: number;
-  height: number;
-  exp: number; // Exponent for superellipse formula
-  
-  // Color
-  colorMode: 'solid' | 'linear' | 'radial' | 'conic';
-  solidColor: string;
-  solidOpacity: number;
-  gradientStops: Array<{ color: string; position: number }>;
-  gradientAngle: number;
-  
-  // Effects
-  blur: number;
-  backdropBlur: number;
-  
-  // Glow
-  enabled: boolean;
-  glowScale: number;
-  glowPositionX: number;
-  glowPositionY: number;
-  lightness: number;
-  chroma: number;
-  hue: number;
-  
-  // Border
-  borderEnabled: boolean;
-  strokeColor: string;
-  strokeWidth: number;
-  strokeOpacity: number;
-  strokeStyle: 'solid' | 'dashed' | 'dotted';
-}
+export type StrokePosition = SuperellipseState['strokePosition'];
+
+/**
+ * The geometry fields of a state. Size and exponent are required, the rest
+ * fall back to a uniform Lamé curve when missing.
+ */
+export type ShapeState = Pick<SuperellipseState, 'width' | 'height' | 'exp'> &
+  Partial<Pick<SuperellipseState,
+    | 'smoothing'
+    | 'shapeModel'
+    | 'cornerRadius'
+    | 'cornerSmoothing'
+    | 'superformula'
+    | 'useAsymmetricCorners'
+    | 'cornerExponents'
+    | 'cornerBlend'
+    | 'useCornerRadii'
+    | 'cornerRadii'
+  >>;
 
 /**
  * SVG generation options
@@ -47,6 +56,10 @@ export interface SVGOptions {
   includeBorder?: boolean;
   optimize?: boolean;
   precision?: number; // Decimal places for coordinates
+  pathFormat?: 'polyline' | 'bezier'; // 'bezier' refits the outline from state
+  tolerance?: number; // Bézier fitting tolerance in px
+  conicSegments?: number; // Wedges per turn for conic gradients
+  colorSpace?: ExportColorSpace; // Glow color; wide-gamut values keep a hex fill attribute
 }
 
 /**
@@ -58,216 +71,1933 @@ export interface CSSOptions {
   useCustomProperties?: boolean; // Use CSS variables
   addComments?: boolean;
   format?: 'minified' | 'pretty';
+  pathFormat?: 'polyline' | 'bezier'; // 'bezier' refits the outline from state
+  tolerance?: number; // Bézier fitting tolerance in px
+  clipMode?: 'path' | 'mask' | 'bounding-box'; // 'mask' and 'bounding-box' scale with the element
+  fixedCorners?: boolean; // Mask only: corners keep their px size and the straight sides stretch
+  colorSpace?: ExportColorSpace; // Glow color; wide-gamut values go in an @supports block
+}
+
+/**
+ * Color space the glow is written in. The glow is defined in OKLCH and can
+ * leave sRGB; 'display-p3' and 'oklch' keep that extra chroma where the
+ * browser supports it and fall back to the gamut-mapped sRGB hex elsewhere.
+ */
+export type ExportColorSpace = 'srgb' | 'display-p3' | 'oklch';
+
+/**
+ * Path sampling options
+ */
+export interface PathOptions {
+  steps?: number; // Number of samples for uniform sampling
+  precision?: number; // Decimal places for coordinates
+  sampling?: 'uniform' | 'adaptive';
+  maxChordError?: number; // Max distance between curve and chord in px (adaptive only)
+}
+
+interface Point {
+  x: number;
+  y: number;
 }
 
 // ============================================================================
 // TYPES FOR ASYMMETRIC CORNERS
 // ============================================================================
 
-export interface CornerExponents {
-  topLeft: number;
-  topRight: number;
-  bottomRight: number;
-  bottomLeft: number;
+/**
+ * How neighbouring corner exponents are blended around the axis crossings
+ */
+export interface CornerBlendOptions {
+  smoothing?: number; // 0-1, width of the blend zone
+  blend?: CornerBlendCurve;
+}
+
+// ============================================================================
+// CORE MATHEMATICAL FUNCTIONS
+// ============================================================================
+
+const CORNER_BLEND_CURVES: Record<CornerBlendCurve, (s: number) => number> = {
+  linear: s => s,
+  smoothstep: s => s * s * (3 - 2 * s),
+  cosine: s => (1 - Math.cos(Math.PI * s)) / 2,
+};
+
+/**
+ * Get the exponent for a given angle based on corner exponents.
+ * Each corner owns the quadrant centred on its diagonal; around every axis
+ * crossing the two neighbouring exponents are blended over a zone whose
+ * width is set by `smoothing` (0 = hard switch, 1 = blend across the whole side).
+ * Angles follow SVG coordinates (y down), so t = π/4 is the bottom-right corner.
+ */
+export function getExponentForAngle(
+  angle: number, 
+  corners: CornerExponents,
+  options: CornerBlendOptions = {}
+): number {
+  const { smoothing = 0.5, blend = 'smoothstep' } = options;
+  const quarter = Math.PI / 2;
+
+  // Normalize angle to 0-2PI
+  const normalizedAngle = ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  
+  // Corners in the order their diagonals appear as t increases
+  const cornerExps = [
+    corners.bottomRight, // t = PI/4
+    corners.bottomLeft,  // t = 3PI/4
+    corners.topLeft,     // t = 5PI/4
+    corners.topRight,    // t = 7PI/4
+  ];
+  
+  // Nearest axis crossing, and the corners on either side of it
+  const axisIndex = Math.round(normalizedAngle / quarter) % 4;
+  const axisAngle = Math.round(normalizedAngle / quarter) * quarter;
+  const before = cornerExps[(axisIndex + 3) % 4];
+  const after = cornerExps[axisIndex];
+  
+  const halfWidth = Math.max(0, Math.min(1, smoothing)) * (Math.PI / 4);
+  const offset = normalizedAngle - axisAngle;
+  
+  if (halfWidth === 0) {
+    return offset < 0 ? before : after;
+  }
+  
+  const s = Math.max(0, Math.min(1, (offset + halfWidth) / (2 * halfWidth)));
+  return before + (after - before) * CORNER_BLEND_CURVES[blend](s);
+}
+
+/**
+ * Superellipse point centred on the origin for parameter t.
+ * Snaps the trigonometric noise at the axes so quadrant endpoints are exact.
+ */
+function superellipsePoint(a: number, b: number, n: number, t: number): Point {
+  let cosT = Math.cos(t);
+  let sinT = Math.sin(t);
+  if (Math.abs(cosT) < 1e-12) cosT = 0;
+  if (Math.abs(sinT) < 1e-12) sinT = 0;
+
+  return {
+    x: a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n),
+    y: b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n),
+  };
+}
+
+/**
+ * Distance from p to the segment between s and e
+ */
+function distanceToSegment(p: Point, s: Point, e: Point): number {
+  const dx = e.x - s.x;
+  const dy = e.y - s.y;
+  const lenSq = dx * dx + dy * dy;
+  const k = lenSq > 0 ? Math.max(0, Math.min(1, ((p.x - s.x) * dx + (p.y - s.y) * dy) / lenSq)) : 0;
+  return Math.hypot(p.x - (s.x + k * dx), p.y - (s.y + k * dy));
+}
+
+const ADAPTIVE_SUBDIVISIONS = 16; // Initial ranges per full turn
+const ADAPTIVE_MAX_DEPTH = 14;
+
+/**
+ * Recursively split [t0, t1] until the arc stays within maxChordError of the
+ * chord. Flat runs collapse into a single chord while tight corners are
+ * refined, so the sample density follows the curvature.
+ */
+function sampleAdaptiveRange(
+  curve: (t: number) => Point,
+  t0: number,
+  p0: Point,
+  t1: number,
+  p1: Point,
+  maxChordError: number,
+  depth: number,
+  out: Point[]
+): void {
+  const tm = (t0 + t1) / 2;
+  const pm = curve(tm);
+  // Probe the quarter points too, so an S-bend crossing the chord is not missed
+  const error = Math.max(
+    distanceToSegment(pm, p0, p1),
+    distanceToSegment(curve((t0 + tm) / 2), p0, p1),
+    distanceToSegment(curve((tm + t1) / 2), p0, p1)
+  );
+
+  if (depth > 0 && error > maxChordError) {
+    sampleAdaptiveRange(curve, t0, p0, tm, pm, maxChordError, depth - 1, out);
+    sampleAdaptiveRange(curve, tm, pm, t1, p1, maxChordError, depth - 1, out);
+    return;
+  }
+  out.push(p1);
+}
+
+/**
+ * Sample a closed curve over t ∈ [0, 2π], uniformly or adaptively
+ */
+function sampleClosedPoints(curve: (t: number) => Point, options: PathOptions): Point[] {
+  const { steps = 360, sampling = 'uniform', maxChordError = 0.25 } = options;
+  const points: Point[] = [];
+
+  if (sampling === 'adaptive') {
+    if (maxChordError <= 0) {
+      throw new Error('Max chord error must be a positive number');
+    }
+    points.push(curve(0));
+    for (let i = 0; i < ADAPTIVE_SUBDIVISIONS; i++) {
+      const t0 = (i * 2 * Math.PI) / ADAPTIVE_SUBDIVISIONS;
+      const t1 = ((i + 1) * 2 * Math.PI) / ADAPTIVE_SUBDIVISIONS;
+      sampleAdaptiveRange(curve, t0, curve(t0), t1, curve(t1), maxChordError, ADAPTIVE_MAX_DEPTH, points);
+    }
+  } else {
+    for (let i = 0; i <= steps; i++) {
+      points.push(curve((i * 2 * Math.PI) / steps));
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Sample a closed curve and serialise it as SVG polyline path data
+ * translated by (offsetX, offsetY)
+ */
+function sampleClosedCurve(
+  curve: (t: number) => Point,
+  offsetX: number,
+  offsetY: number,
+  options: PathOptions
+): string {
+  const { precision = 2 } = options;
+  const coords = sampleClosedPoints(curve, options)
+    .map(p => `${(p.x + offsetX).toFixed(precision)} ${(p.y + offsetY).toFixed(precision)}`);
+  return `M ${coords.join(' L ')} Z`;
+}
+
+/**
+ * Sample a closed outline made of one curve per quadrant of t. Each curve is
+ * evaluated on its own quadrant only, so the gap between the end of one piece
+ * and the start of the next becomes a straight edge.
+ */
+function sampleQuadrantCurves(
+  curveForQuadrant: (q: number) => (t: number) => Point,
+  options: PathOptions
+): string {
+  const { steps = 360, precision = 2, sampling = 'uniform', maxChordError = 0.25 } = options;
+  const quarter = Math.PI / 2;
+  const points: Point[] = [];
+
+  if (sampling === 'adaptive' && maxChordError <= 0) {
+    throw new Error('Max chord error must be a positive number');
+  }
+
+  for (let q = 0; q < 4; q++) {
+    const curve = curveForQuadrant(q);
+    const start = q * quarter;
+    points.push(curve(start));
+
+    if (sampling === 'adaptive') {
+      const ranges = ADAPTIVE_SUBDIVISIONS / 4;
+      for (let i = 0; i < ranges; i++) {
+        const t0 = start + (i * quarter) / ranges;
+        const t1 = start + ((i + 1) * quarter) / ranges;
+        sampleAdaptiveRange(curve, t0, curve(t0), t1, curve(t1), maxChordError, ADAPTIVE_MAX_DEPTH, points);
+      }
+    } else {
+      const quadrantSteps = Math.max(1, Math.ceil(steps / 4));
+      for (let i = 1; i <= quadrantSteps; i++) {
+        points.push(curve(start + (i * quarter) / quadrantSteps));
+      }
+    }
+  }
+
+  // Zero-size corners collapse to repeated points
+  const coords = points
+    .map(p => `${p.x.toFixed(precision)} ${p.y.toFixed(precision)}`)
+    .filter((coord, i, all) => i === 0 || coord !== all[i - 1]);
+  return `M ${coords.join(' L ')} Z`;
+}
+
+/**
+ * Generate SVG path data string for a superellipse with asymmetric corners
+ */
+export function getAsymmetricSuperellipsePath(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  options: PathOptions & CornerBlendOptions = {}
+): string {
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+  
+  const a = w / 2;
+  const b = h / 2;
+  
+  // Get the (blended) exponent for each angle
+  const curve = (t: number) => superellipsePoint(a, b, Math.max(0.5, getExponentForAngle(t, corners, options)), t);
+  return sampleClosedCurve(curve, a, b, options);
+}
+
+/**
+ * Generate SVG path data string for a superellipse
+ * @param w - Width of the superellipse
+ * @param h - Height of the superellipse
+ * @param n - Exponent (shape parameter)
+ * @param options - Generation options (uniform steps or adaptive chord error)
+ * @returns SVG path data string
+ */
+export function getSuperellipsePath(
+  w: number,
+  h: number,
+  n: number,
+  options: PathOptions = {}
+): string {
+  // Validate inputs
+  if (w <= 0 || h <= 0 || n <= 0) {
+    throw new Error('Width, height, and exponent must be positive numbers');
+  }
+  
+  const a = w / 2;
+  const b = h / 2;
+  
+  // Superellipse parametric equations, translated to center
+  return sampleClosedCurve(t => superellipsePoint(a, b, n, t), a, b, options);
+}
+
+// ============================================================================
+// HIT TESTING
+// ============================================================================
+
+/**
+ * Shape description for hit testing, in the same coordinates as the paths
+ * (origin at the top-left of the bounding box). Corner exponents take
+ * precedence over the uniform exponent.
+ */
+export interface ShapeParams extends CornerBlendOptions {
+  width: number;
+  height: number;
+  exp?: number;
+  cornerExponents?: CornerExponents;
+}
+
+const DISTANCE_SAMPLES = 512;
+const DISTANCE_REFINE_ITERATIONS = 48;
+const RAY_BISECTION_ITERATIONS = 60;
+
+/**
+ * Outline of a hit-testing shape, centred on the origin
+ */
+function getShapeCurve(params: ShapeParams): (t: number) => Point {
+  const { width, height, exp, cornerExponents } = params;
+  if (width <= 0 || height <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+
+  const a = width / 2;
+  const b = height / 2;
+  if (cornerExponents) {
+    return t => superellipsePoint(a, b, Math.max(0.5, getExponentForAngle(t, cornerExponents, params)), t);
+  }
+  if (exp === undefined || exp <= 0) {
+    throw new Error('Shape needs a positive exponent or corner exponents');
+  }
+  return t => superellipsePoint(a, b, exp, t);
+}
+
+/**
+ * Check whether a point lies inside (or on) the shape outline.
+ * Uniform shapes use the implicit form |x/a|^n + |y/b|^n ≤ 1. Blended corners
+ * have no implicit form, so the outline point on the ray from the centre is
+ * found by bisection on t within the point's quadrant.
+ * @param x - X coordinate relative to the bounding box
+ * @param y - Y coordinate relative to the bounding box
+ * @param params - Shape dimensions and exponent(s)
+ */
+export function isPointInside(x: number, y: number, params: ShapeParams): boolean {
+  const curve = getShapeCurve(params);
+  const a = params.width / 2;
+  const b = params.height / 2;
+  const px = x - a;
+  const py = y - b;
+
+  if (Math.abs(px) > a || Math.abs(py) > b) return false;
+
+  if (!params.cornerExponents && params.exp !== undefined) {
+    return Math.pow(Math.abs(px) / a, params.exp) + Math.pow(Math.abs(py) / b, params.exp) <= 1;
+  }
+  if (px === 0 && py === 0) return true;
+
+  // The outline's polar angle grows with t inside each quadrant
+  const quarter = Math.PI / 2;
+  const target = Math.atan2(py, px);
+  const quadrant = Math.floor((((target % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) / quarter) % 4;
+  const angleOffset = (t: number) => {
+    const p = curve(t);
+    const diff = Math.atan2(p.y, p.x) - target;
+    return Math.atan2(Math.sin(diff), Math.cos(diff));
+  };
+
+  let lo = quadrant * quarter;
+  let hi = lo + quarter;
+  for (let i = 0; i < RAY_BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (angleOffset(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+
+  const edge = curve((lo + hi) / 2);
+  return Math.hypot(px, py) <= Math.hypot(edge.x, edge.y);
+}
+
+/**
+ * Signed distance from a point to the shape outline in px:
+ * negative inside, positive outside, zero on the outline.
+ * The nearest outline point is bracketed by dense sampling and then refined
+ * with a golden-section search, so the result is accurate to ~1e-6 px.
+ * @param x - X coordinate relative to the bounding box
+ * @param y - Y coordinate relative to the bounding box
+ * @param params - Shape dimensions and exponent(s)
+ */
+export function getSignedDistance(x: number, y: number, params: ShapeParams): number {
+  const curve = getShapeCurve(params);
+  const px = x - params.width / 2;
+  const py = y - params.height / 2;
+  const distanceAt = (t: number) => {
+    const p = curve(t);
+    return Math.hypot(px - p.x, py - p.y);
+  };
+
+  const step = (2 * Math.PI) / DISTANCE_SAMPLES;
+  let bestT = 0;
+  let best = Infinity;
+  for (let i = 0; i < DISTANCE_SAMPLES; i++) {
+    const d = distanceAt(i * step);
+    if (d < best) {
+      best = d;
+      bestT = i * step;
+    }
+  }
+
+  // Golden-section search in the bracket around the best sample
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = bestT - step;
+  let hi = bestT + step;
+  for (let i = 0; i < DISTANCE_REFINE_ITERATIONS; i++) {
+    const t1 = hi - ratio * (hi - lo);
+    const t2 = lo + ratio * (hi - lo);
+    if (distanceAt(t1) < distanceAt(t2)) hi = t2;
+    else lo = t1;
+  }
+  const distance = Math.min(best, distanceAt((lo + hi) / 2));
+
+  return isPointInside(x, y, params) ? -distance : distance;
+}
+
+/**
+ * Hit-testing shape for a state, or null for models without a Lamé outline
+ * (radius + smoothing, superformula and per-corner size)
+ */
+export function getStateShapeParams(
+  state: ShapeState
+): ShapeParams | null {
+  if ((state.shapeModel ?? 'exponent') !== 'exponent') return null;
+  if (state.useAsymmetricCorners && state.useCornerRadii) return null;
+
+  return {
+    width: state.width,
+    height: state.height,
+    exp: state.exp,
+    cornerExponents: state.useAsymmetricCorners ? state.cornerExponents : undefined,
+    smoothing: state.smoothing,
+    blend: state.cornerBlend,
+  };
+}
+
+// ============================================================================
+// OFFSET CURVES
+// ============================================================================
+
+const OFFSET_TANGENT_STEP = 1e-5;
+const OFFSET_REFERENCE_CHORD = 0.01; // px, outline used to trim offset loops
+const OFFSET_TRIM_TOLERANCE = 0.02; // px
+const STROKE_OFFSET_SAMPLING: PathOptions = { sampling: 'adaptive', maxChordError: 0.1 };
+
+/**
+ * Generate the parallel curve of a shape at a signed distance: positive
+ * grows the outline outwards, negative insets it. Each outline point moves
+ * along its normal; where the curvature radius is smaller than the distance
+ * the raw offset folds into loops, so points closer to the outline than the
+ * distance are dropped.
+ * @param params - Shape dimensions and exponent(s)
+ * @param distance - Offset in px, negative for an inset
+ * @param options - Path generation options
+ * @returns SVG path data in the shape's own coordinates
+ */
+export function getOffsetPath(params: ShapeParams, distance: number, options: PathOptions = {}): string {
+  const curve = getShapeCurve(params);
+  const a = params.width / 2;
+  const b = params.height / 2;
+  if (distance === 0) return sampleClosedCurve(curve, a, b, options);
+
+  if (-distance >= Math.min(a, b)) {
+    throw new Error('Inset distance must be smaller than half the shape size');
+  }
+
+  // Outward normal from a central difference, which stays defined at the axes
+  const offsetCurve = (t: number): Point => {
+    const p = curve(t);
+    const before = curve(t - OFFSET_TANGENT_STEP);
+    const after = curve(t + OFFSET_TANGENT_STEP);
+    const tx = after.x - before.x;
+    const ty = after.y - before.y;
+    const length = Math.hypot(tx, ty) || 1;
+    return { x: p.x + (distance * ty) / length, y: p.y - (distance * tx) / length };
+  };
+
+  const reference = sampleClosedPoints(curve, { sampling: 'adaptive', maxChordError: OFFSET_REFERENCE_CHORD });
+  const minDistance = Math.abs(distance) - OFFSET_TRIM_TOLERANCE;
+  const points = sampleClosedPoints(offsetCurve, options)
+    .filter(p => distanceToPolyline(p, reference) >= minDistance);
+
+  const { precision = 2 } = options;
+  const coords = points.map(p => `${(p.x + a).toFixed(precision)} ${(p.y + b).toFixed(precision)}`);
+  return `M ${coords.join(' L ')} Z`;
+}
+
+/**
+ * Generate a ring between two offsets of the same shape, e.g. a badge
+ * outline. Both subpaths run the same direction, so fill with
+ * fill-rule="evenodd".
+ * @param params - Shape dimensions and exponent(s)
+ * @param innerOffset - Offset of the inner edge in px
+ * @param outerOffset - Offset of the outer edge in px
+ * @param options - Path generation options
+ */
+export function getRingPath(
+  params: ShapeParams,
+  innerOffset: number,
+  outerOffset: number,
+  options: PathOptions = {}
+): string {
+  if (innerOffset >= outerOffset) {
+    throw new Error('Ring inner offset must be smaller than the outer offset');
+  }
+  return `${getOffsetPath(params, outerOffset, options)} ${getOffsetPath(params, innerOffset, options)}`;
+}
+
+/**
+ * Stroke outline for a state: the centre line of an inside or outside stroke
+ * is the outline offset by half the stroke width. Returns null when the
+ * stroke stays centred on the outline.
+ */
+export function getStrokeOffsetPath(state: SuperellipseState, precision?: number): { path: string; offset: number } | null {
+  const position = state.strokePosition;
+  if (position === 'center' || state.strokeWidth <= 0) return null;
+
+  const shape = getStateShapeParams(state);
+  const offset = (position === 'inside' ? -1 : 1) * (state.strokeWidth / 2);
+  if (!shape || -offset >= Math.min(state.width, state.height) / 2) return null;
+
+  return {
+    path: getOffsetPath(shape, offset, { ...STROKE_OFFSET_SAMPLING, precision }),
+    offset,
+  };
+}
+
+/**
+ * Inside or outside stroke without an offset outline (models other than the
+ * Lamé curve, or insets deeper than the shape): it is drawn twice as wide on
+ * the outline, with the half on the wrong side clipped (inside) or masked
+ * (outside) away. Null when the stroke is centred or follows the offset.
+ * @param strokeOffset - Result of getStrokeOffsetPath for the same state
+ */
+export function getStrokeCut(
+  state: SuperellipseState,
+  strokeOffset: { path: string; offset: number } | null
+): Exclude<StrokePosition, 'center'> | null {
+  if (state.strokePosition === 'center' || state.strokeWidth <= 0 || strokeOffset) return null;
+  return state.strokePosition;
+}
+
+// ============================================================================
+// BEZIER CURVE FITTING
+// ============================================================================
+
+/**
+ * Options for cubic Bézier path output
+ */
+export interface BezierPathOptions {
+  tolerance?: number; // Maximum allowed deviation from the analytic curve in px
+  precision?: number; // Decimal places for coordinates
+  maxDepth?: number; // Maximum number of subdivisions per quadrant
+}
+
+/**
+ * Result of fitting cubic Bézier segments to a superellipse
+ */
+export interface BezierPathResult {
+  path: string;
+  segmentCount: number;
+  maxError: number; // Largest measured deviation from the analytic curve in px
+}
+
+interface CubicSegment {
+  p0: Point;
+  c1: Point;
+  c2: Point;
+  p3: Point;
+}
+
+const FIT_SAMPLES = 24;
+const ERROR_SAMPLES = 48;
+const TANGENT_STEP = 1e-6;
+const REPARAMETERIZE_ITERATIONS = 4;
+
+function normalize(x: number, y: number): Point {
+  const len = Math.hypot(x, y);
+  return len > 0 ? { x: x / len, y: y / len } : { x: 0, y: 0 };
+}
+
+/**
+ * Unit tangent (direction of increasing t) estimated by finite differences.
+ * `side` selects a one-sided difference at quadrant boundaries, where the
+ * parametrisation is singular and the curve may have a corner.
+ */
+function curveTangent(
+  curve: (t: number) => Point,
+  t: number,
+  side: 'forward' | 'backward' | 'central'
+): Point {
+  const t0 = side === 'forward' ? t : t - TANGENT_STEP;
+  const t1 = side === 'backward' ? t : t + TANGENT_STEP;
+  const p0 = curve(t0);
+  const p1 = curve(t1);
+  return normalize(p1.x - p0.x, p1.y - p0.y);
+}
+
+function cubicPoint(seg: CubicSegment, u: number): Point {
+  const mu = 1 - u;
+  const b0 = mu * mu * mu;
+  const b1 = 3 * mu * mu * u;
+  const b2 = 3 * mu * u * u;
+  const b3 = u * u * u;
+  return {
+    x: b0 * seg.p0.x + b1 * seg.c1.x + b2 * seg.c2.x + b3 * seg.p3.x,
+    y: b0 * seg.p0.y + b1 * seg.c1.y + b2 * seg.c2.y + b3 * seg.p3.y,
+  };
+}
+
+function distanceToPolyline(p: Point, polyline: Point[]): number {
+  let best = Infinity;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    best = Math.min(best, distanceToSegment(p, polyline[i], polyline[i + 1]));
+  }
+  return best;
+}
+
+/**
+ * Symmetric (Hausdorff) distance between a curve range and a cubic segment,
+ * measured on dense samples of both. Also returns the curve parameter where
+ * the curve strays furthest from the cubic, used as the split point.
+ */
+function measureSegmentError(
+  curve: (t: number) => Point,
+  t0: number,
+  t1: number,
+  seg: CubicSegment
+): { error: number; worstT: number } {
+  const curvePoints: Point[] = [];
+  const cubicPoints: Point[] = [];
+  for (let i = 0; i <= ERROR_SAMPLES; i++) {
+    curvePoints.push(curve(t0 + ((t1 - t0) * i) / ERROR_SAMPLES));
+    cubicPoints.push(cubicPoint(seg, i / ERROR_SAMPLES));
+  }
+
+  let error = 0;
+  let worstIndex = ERROR_SAMPLES / 2;
+  curvePoints.forEach((p, i) => {
+    const d = distanceToPolyline(p, cubicPoints);
+    if (d > error) {
+      error = d;
+      worstIndex = i;
+    }
+  });
+  for (const p of cubicPoints) error = Math.max(error, distanceToPolyline(p, curvePoints));
+
+  // Keep the split away from the ends so both halves make progress
+  const k = Math.max(0.25, Math.min(0.75, worstIndex / ERROR_SAMPLES));
+  return { error, worstT: t0 + (t1 - t0) * k };
+}
+
+/**
+ * Solve the least-squares handle lengths for fixed end points and tangents
+ * at the given sample parameters (Schneider's method).
+ */
+function solveHandles(
+  samples: Point[],
+  params: number[],
+  p0: Point,
+  p3: Point,
+  tan0: Point,
+  tan1: Point
+): CubicSegment {
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const u = params[i];
+    const mu = 1 - u;
+    const b0 = mu * mu * mu;
+    const b1 = 3 * mu * mu * u;
+    const b2 = 3 * mu * u * u;
+    const b3 = u * u * u;
+    const a1 = { x: tan0.x * b1, y: tan0.y * b1 };
+    const a2 = { x: -tan1.x * b2, y: -tan1.y * b2 };
+    const rx = samples[i].x - (b0 + b1) * p0.x - (b2 + b3) * p3.x;
+    const ry = samples[i].y - (b0 + b1) * p0.y - (b2 + b3) * p3.y;
+    c00 += a1.x * a1.x + a1.y * a1.y;
+    c01 += a1.x * a2.x + a1.y * a2.y;
+    c11 += a2.x * a2.x + a2.y * a2.y;
+    x0 += a1.x * rx + a1.y * ry;
+    x1 += a2.x * rx + a2.y * ry;
+  }
+
+  const det = c00 * c11 - c01 * c01;
+  const chord = Math.hypot(p3.x - p0.x, p3.y - p0.y);
+  let alpha = Math.abs(det) > 1e-12 ? (x0 * c11 - x1 * c01) / det : 0;
+  let beta = Math.abs(det) > 1e-12 ? (c00 * x1 - c01 * x0) / det : 0;
+
+  // Degenerate or backwards handles: fall back to the classic chord/3 heuristic
+  const epsilon = chord * 1e-6;
+  if (!isFinite(alpha) || !isFinite(beta) || alpha < epsilon || beta < epsilon) {
+    alpha = chord / 3;
+    beta = chord / 3;
+  }
+
+  return {
+    p0,
+    c1: { x: p0.x + tan0.x * alpha, y: p0.y + tan0.y * alpha },
+    c2: { x: p3.x - tan1.x * beta, y: p3.y - tan1.y * beta },
+    p3,
+  };
+}
+
+/**
+ * Improve a sample's Bézier parameter with one Newton-Raphson step towards
+ * the closest point on the cubic.
+ */
+function reparameterize(seg: CubicSegment, p: Point, u: number): number {
+  const q = cubicPoint(seg, u);
+  const mu = 1 - u;
+  const d1 = {
+    x: 3 * (mu * mu * (seg.c1.x - seg.p0.x) + 2 * mu * u * (seg.c2.x - seg.c1.x) + u * u * (seg.p3.x - seg.c2.x)),
+    y: 3 * (mu * mu * (seg.c1.y - seg.p0.y) + 2 * mu * u * (seg.c2.y - seg.c1.y) + u * u * (seg.p3.y - seg.c2.y)),
+  };
+  const d2 = {
+    x: 6 * (mu * (seg.c2.x - 2 * seg.c1.x + seg.p0.x) + u * (seg.p3.x - 2 * seg.c2.x + seg.c1.x)),
+    y: 6 * (mu * (seg.c2.y - 2 * seg.c1.y + seg.p0.y) + u * (seg.p3.y - 2 * seg.c2.y + seg.c1.y)),
+  };
+  const numerator = (q.x - p.x) * d1.x + (q.y - p.y) * d1.y;
+  const denominator = d1.x * d1.x + d1.y * d1.y + (q.x - p.x) * d2.x + (q.y - p.y) * d2.y;
+  if (Math.abs(denominator) < 1e-12) return u;
+  return Math.max(0, Math.min(1, u - numerator / denominator));
+}
+
+/**
+ * Fit one cubic between two curve points with fixed end tangents, starting
+ * from a chord-length parametrisation and refining it a few times.
+ */
+function fitCubic(
+  curve: (t: number) => Point,
+  t0: number,
+  t1: number,
+  tan0: Point,
+  tan1: Point
+): CubicSegment {
+  const samples: Point[] = [];
+  for (let i = 0; i <= FIT_SAMPLES; i++) {
+    samples.push(curve(t0 + ((t1 - t0) * i) / FIT_SAMPLES));
+  }
+  const p0 = samples[0];
+  const p3 = samples[samples.length - 1];
+
+  const lengths = [0];
+  for (let i = 1; i < samples.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y));
+  }
+  const total = lengths[lengths.length - 1];
+  let params = lengths.map((l, i) => (total > 0 ? l / total : i / FIT_SAMPLES));
+
+  let seg = solveHandles(samples, params, p0, p3, tan0, tan1);
+  for (let iteration = 0; iteration < REPARAMETERIZE_ITERATIONS; iteration++) {
+    params = params.map((u, i) => reparameterize(seg, samples[i], u));
+    seg = solveHandles(samples, params, p0, p3, tan0, tan1);
+  }
+  return seg;
+}
+
+/**
+ * Recursively fit cubic segments to curve(t) on [t0, t1], splitting the
+ * parameter range at the worst-fitting sample until the measured error is
+ * within tolerance.
+ * Split points share a central tangent so consecutive segments join smoothly.
+ */
+function fitCurveRange(
+  curve: (t: number) => Point,
+  t0: number,
+  t1: number,
+  tan0: Point,
+  tan1: Point,
+  tolerance: number,
+  depth: number,
+  out: CubicSegment[]
+): number {
+  const seg = fitCubic(curve, t0, t1, tan0, tan1);
+  const { error, worstT: tm } = measureSegmentError(curve, t0, t1, seg);
+
+  if (error <= tolerance || depth <= 0) {
+    out.push(seg);
+    return error;
+  }
+
+  const tanM = curveTangent(curve, tm, 'central');
+  const left = fitCurveRange(curve, t0, tm, tan0, tanM, tolerance, depth - 1, out);
+  const right = fitCurveRange(curve, tm, t1, tanM, tan1, tolerance, depth - 1, out);
+  return Math.max(left, right);
+}
+
+/**
+ * Fit a closed curve quadrant by quadrant and serialise it as SVG path data.
+ * Quadrant boundaries use one-sided tangents, so corners (n ≤ 1) are preserved.
+ * Each quadrant may use its own curve; gaps between them become straight edges.
+ * Curves whose corners are not on the axes can be split into `pieces` equal
+ * ranges of t instead, placed so every corner falls on a boundary.
+ */
+function fitClosedCurve(
+  curveForQuadrant: (q: number) => (t: number) => Point,
+  offsetX: number,
+  offsetY: number,
+  tolerance: number,
+  precision: number,
+  maxDepth: number,
+  pieces = 4
+): BezierPathResult {
+  const segments: CubicSegment[] = [];
+  let maxError = 0;
+
+  for (let q = 0; q < pieces; q++) {
+    const curve = curveForQuadrant(q);
+    const t0 = (q * 2 * Math.PI) / pieces;
+    const t1 = ((q + 1) * 2 * Math.PI) / pieces;
+    const start = curve(t0);
+
+    // A zero-size corner is just its vertex
+    if (Math.hypot(curve(t1).x - start.x, curve(t1).y - start.y) < 1e-9) {
+      segments.push({ p0: start, c1: start, c2: start, p3: start });
+      continue;
+    }
+
+    const tan0 = curveTangent(curve, t0, 'forward');
+    const tan1 = curveTangent(curve, t1, 'backward');
+    maxError = Math.max(maxError, fitCurveRange(curve, t0, t1, tan0, tan1, tolerance, maxDepth, segments));
+  }
+
+  const fmt = (p: Point) => `${(p.x + offsetX).toFixed(precision)} ${(p.y + offsetY).toFixed(precision)}`;
+  const commands: string[] = [];
+  let cubicCount = 0;
+  segments.forEach((seg, i) => {
+    if (i > 0 && fmt(seg.p0) !== fmt(segments[i - 1].p3)) {
+      commands.push(`L ${fmt(seg.p0)}`);
+    }
+    if (fmt(seg.p0) !== fmt(seg.p3)) {
+      commands.push(`C ${fmt(seg.c1)} ${fmt(seg.c2)} ${fmt(seg.p3)}`);
+      cubicCount++;
+    }
+  });
+
+  return {
+    path: `M ${fmt(segments[0].p0)} ${commands.join(' ')} Z`,
+    segmentCount: cubicCount,
+    maxError,
+  };
+}
+
+/**
+ * Generate a compact SVG path for a superellipse made of cubic Bézier segments
+ * @param w - Width of the superellipse
+ * @param h - Height of the superellipse
+ * @param n - Exponent (shape parameter)
+ * @param options - Fitting options
+ * @returns Path data, segment count and the measured maximum deviation
+ */
+export function getSuperellipseBezierPath(
+  w: number,
+  h: number,
+  n: number,
+  options: BezierPathOptions = {}
+): BezierPathResult {
+  const { tolerance = 0.5, precision = 2, maxDepth = 8 } = options;
+
+  if (w <= 0 || h <= 0 || n <= 0) {
+    throw new Error('Width, height, and exponent must be positive numbers');
+  }
+  if (tolerance <= 0) {
+    throw new Error('Tolerance must be a positive number');
+  }
+
+  const a = w / 2;
+  const b = h / 2;
+  const curve = (t: number) => superellipsePoint(a, b, n, t);
+  return fitClosedCurve(() => curve, a, b, tolerance, precision, maxDepth);
+}
+
+/**
+ * Generate a compact cubic Bézier SVG path for a superellipse with asymmetric corners
+ */
+export function getAsymmetricSuperellipseBezierPath(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  options: BezierPathOptions & CornerBlendOptions = {}
+): BezierPathResult {
+  const { tolerance = 0.5, precision = 2, maxDepth = 8 } = options;
+
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+  if (tolerance <= 0) {
+    throw new Error('Tolerance must be a positive number');
+  }
+
+  const a = w / 2;
+  const b = h / 2;
+  const curve = (t: number) => superellipsePoint(a, b, Math.max(0.5, getExponentForAngle(t, corners, options)), t);
+  return fitClosedCurve(() => curve, a, b, tolerance, precision, maxDepth);
+}
+
+/**
+ * Fit cubic Bézier segments to the outline described by a superellipse state
+ * (uniform, asymmetric, per-corner radii or superformula)
+ */
+export function getStateBezierPath(
+  state: ShapeState,
+  options: BezierPathOptions = {}
+): BezierPathResult {
+  if (state.shapeModel === 'superformula' && state.superformula) {
+    return getSuperformulaBezierPath(state.width, state.height, state.superformula, options);
+  }
+  if (state.useAsymmetricCorners && state.cornerExponents) {
+    if (state.useCornerRadii && state.cornerRadii) {
+      return getCornerRadiiBezierPath(state.width, state.height, state.cornerExponents, state.cornerRadii, options);
+    }
+    return getAsymmetricSuperellipseBezierPath(state.width, state.height, state.cornerExponents, {
+      ...options,
+      smoothing: state.smoothing,
+      blend: state.cornerBlend,
+    });
+  }
+  return getSuperellipseBezierPath(state.width, state.height, state.exp, options);
+}
+
+// ============================================================================
+// PER-CORNER RADII
+// ============================================================================
+
+/**
+ * Scale corner radii so neighbouring corners never overlap.
+ * Follows the CSS border-radius rule: if any side is shorter than the sum of
+ * its two radii, every radius is reduced by the same factor.
+ */
+export function fitCornerRadii(w: number, h: number, radii: CornerRadii): CornerRadii {
+  const clamp = (r: number) => Math.max(0, r);
+  const tl = clamp(radii.topLeft);
+  const tr = clamp(radii.topRight);
+  const br = clamp(radii.bottomRight);
+  const bl = clamp(radii.bottomLeft);
+
+  const ratio = (side: number, sum: number) => (sum > 0 ? side / sum : Infinity);
+  const scale = Math.min(1, ratio(w, tl + tr), ratio(w, bl + br), ratio(h, tl + bl), ratio(h, tr + br));
+
+  return {
+    topLeft: tl * scale,
+    topRight: tr * scale,
+    bottomRight: br * scale,
+    bottomLeft: bl * scale,
+  };
+}
+
+/**
+ * One quarter superellipse per corner, in the quadrant order of t
+ * (bottom-right, bottom-left, top-left, top-right in SVG coordinates).
+ * Each corner is anchored in its own corner of the bounding box.
+ */
+function getCornerCurves(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  radii: CornerRadii
+): (q: number) => (t: number) => Point {
+  const fitted = fitCornerRadii(w, h, radii);
+  const pieces = [
+    { r: fitted.bottomRight, n: corners.bottomRight, cx: w - fitted.bottomRight, cy: h - fitted.bottomRight },
+    { r: fitted.bottomLeft, n: corners.bottomLeft, cx: fitted.bottomLeft, cy: h - fitted.bottomLeft },
+    { r: fitted.topLeft, n: corners.topLeft, cx: fitted.topLeft, cy: fitted.topLeft },
+    { r: fitted.topRight, n: corners.topRight, cx: w - fitted.topRight, cy: fitted.topRight },
+  ];
+
+  const curves = pieces.map(({ r, n, cx, cy }) => (t: number) => {
+    const p = superellipsePoint(r, r, Math.max(0.5, n), t);
+    return { x: cx + p.x, y: cy + p.y };
+  });
+  return q => curves[q];
+}
+
+/**
+ * Generate SVG path data for a rectangle whose corners each have their own
+ * size and exponent, joined by straight edges
+ * @param w - Width of the shape
+ * @param h - Height of the shape
+ * @param corners - Exponent of each corner
+ * @param radii - Size of each corner in px (scaled down if neighbours overlap)
+ * @param options - Generation options (uniform steps or adaptive chord error)
+ * @returns SVG path data string
+ */
+export function getCornerRadiiPath(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  radii: CornerRadii,
+  options: PathOptions = {}
+): string {
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+
+  return sampleQuadrantCurves(getCornerCurves(w, h, corners, radii), options);
+}
+
+/**
+ * Generate a compact cubic Bézier SVG path for a rectangle with per-corner
+ * size and exponent
+ */
+export function getCornerRadiiBezierPath(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  radii: CornerRadii,
+  options: BezierPathOptions = {}
+): BezierPathResult {
+  const { tolerance = 0.5, precision = 2, maxDepth = 8 } = options;
+
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+  if (tolerance <= 0) {
+    throw new Error('Tolerance must be a positive number');
+  }
+
+  return fitClosedCurve(getCornerCurves(w, h, corners, radii), 0, 0, tolerance, precision, maxDepth);
+}
+
+// ============================================================================
+// SUPERFORMULA (GIELIS)
+// ============================================================================
+
+const SUPERFORMULA_BOUNDS_SAMPLES = 1440;
+
+/**
+ * Radius of the superformula at polar angle phi
+ */
+export function getSuperformulaRadius(phi: number, params: SuperformulaParams): number {
+  const { m, n1, n2, n3 } = params;
+  const angle = (m * phi) / 4;
+  const sum = Math.pow(Math.abs(Math.cos(angle)), n2) + Math.pow(Math.abs(Math.sin(angle)), n3);
+  return Math.pow(sum, -1 / n1);
+}
+
+/**
+ * Superformula outline stretched to fill a w×h box.
+ * φ = 0 points up, so the first lobe of a star sits at the top.
+ */
+function getSuperformulaCurve(w: number, h: number, params: SuperformulaParams): (t: number) => Point {
+  const raw = (t: number): Point => {
+    const r = getSuperformulaRadius(t, params);
+    return { x: r * Math.sin(t), y: -r * Math.cos(t) };
+  };
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < SUPERFORMULA_BOUNDS_SAMPLES; i++) {
+    const p = raw((i * 2 * Math.PI) / SUPERFORMULA_BOUNDS_SAMPLES);
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  }
+
+  const scaleX = maxX > minX ? w / (maxX - minX) : 0;
+  const scaleY = maxY > minY ? h / (maxY - minY) : 0;
+  return t => {
+    const p = raw(t);
+    return { x: (p.x - minX) * scaleX, y: (p.y - minY) * scaleY };
+  };
+}
+
+function validateSuperformula(w: number, h: number, params: SuperformulaParams): void {
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+  if (!(params.n1 > 0)) {
+    throw new Error('Superformula n1 must be a positive number');
+  }
+  if (params.m < 0 || params.n2 < 0 || params.n3 < 0) {
+    throw new Error('Superformula m, n2 and n3 cannot be negative');
+  }
+}
+
+/**
+ * Generate SVG path data for a Gielis superformula shape fitted to w×h
+ * @param w - Width of the shape
+ * @param h - Height of the shape
+ * @param params - Superformula parameters
+ * @param options - Generation options (uniform steps or adaptive chord error)
+ * @returns SVG path data string
+ */
+export function getSuperformulaPath(
+  w: number,
+  h: number,
+  params: SuperformulaParams,
+  options: PathOptions = {}
+): string {
+  validateSuperformula(w, h, params);
+  return sampleClosedCurve(getSuperformulaCurve(w, h, params), 0, 0, options);
+}
+
+/**
+ * Generate a compact cubic Bézier SVG path for a Gielis superformula shape
+ */
+export function getSuperformulaBezierPath(
+  w: number,
+  h: number,
+  params: SuperformulaParams,
+  options: BezierPathOptions = {}
+): BezierPathResult {
+  const { tolerance = 0.5, precision = 2, maxDepth = 8 } = options;
+
+  validateSuperformula(w, h, params);
+  if (tolerance <= 0) {
+    throw new Error('Tolerance must be a positive number');
+  }
+
+  // Tips and notches sit at φ = 2πk/m, so fit one lobe per piece
+  const pieces = Number.isInteger(params.m) && params.m >= 3 ? params.m : 4;
+  const curve = getSuperformulaCurve(w, h, params);
+  return fitClosedCurve(() => curve, 0, 0, tolerance, precision, maxDepth, pieces);
+}
+
+// ============================================================================
+// SMOOTHED CORNERS (FIGMA / iOS)
+// ============================================================================
+
+/**
+ * Options for smoothed-corner path output
+ */
+export interface SmoothCornerOptions {
+  precision?: number; // Decimal places for coordinates
+}
+
+/**
+ * Geometry of one smoothed corner, measured along either adjacent edge.
+ * The corner starts `p` px before the vertex: a cubic (a, b, c, d) eases the
+ * straight edge into a circular arc of `arcSectionLength` px per axis, and a
+ * mirrored cubic eases back out.
+ */
+interface SmoothCornerParams {
+  radius: number;
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  p: number;
+  arcSectionLength: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Compute the corner geometry used by Figma's "corner smoothing".
+ * Smoothing extends the corner along the edges by up to `radius * smoothing`;
+ * when the shape is too small for that, smoothing is reduced so the corner
+ * still fits in half of the shorter side.
+ */
+function getSmoothCornerParams(radius: number, smoothing: number, budget: number): SmoothCornerParams {
+  const r = Math.min(radius, budget);
+  let cornerSmoothing = Math.max(0, Math.min(1, smoothing));
+  let p = (1 + cornerSmoothing) * r;
+
+  if (r > 0 && p > budget) {
+    cornerSmoothing = Math.max(0, Math.min(cornerSmoothing, budget / r - 1));
+    p = Math.min(p, budget);
+  }
+
+  const arcMeasure = 90 * (1 - cornerSmoothing);
+  const arcSectionLength = Math.sin(toRadians(arcMeasure / 2)) * r * Math.SQRT2;
+
+  // Angle between the arc's end tangent and the edge, split between the two handles
+  const angleAlpha = (90 - arcMeasure) / 2;
+  const p3ToP4Distance = r * Math.tan(toRadians(angleAlpha / 2));
+  const angleBeta = 45 * cornerSmoothing;
+  const c = p3ToP4Distance * Math.cos(toRadians(angleBeta));
+  const d = c * Math.tan(toRadians(angleBeta));
+
+  const b = (p - arcSectionLength - c - d) / 3;
+  const a = 2 * b;
+
+  return { radius: r, a, b, c, d, p, arcSectionLength };
+}
+
+/**
+ * Generate an SVG path for a rectangle with Figma / iOS style smoothed corners
+ * @param w - Width of the shape
+ * @param h - Height of the shape
+ * @param radius - Corner radius in px (clamped to half of the shorter side)
+ * @param smoothing - Corner smoothing, 0 (plain rounded rectangle) to 1 (100%)
+ * @param options - Output options
+ * @returns SVG path data string using line, cubic and arc commands
+ */
+export function getSmoothCornerPath(
+  w: number,
+  h: number,
+  radius: number,
+  smoothing: number,
+  options: SmoothCornerOptions = {}
+): string {
+  const { precision = 2 } = options;
+
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+  if (radius < 0) {
+    throw new Error('Corner radius cannot be negative');
+  }
+
+  const { radius: r, a, b, c, d, p } = getSmoothCornerParams(
+    radius,
+    smoothing,
+    Math.min(w, h) / 2
+  );
+  const f = (v: number) => v.toFixed(precision);
+
+  // Each corner is drawn clockwise from the edge it enters, in absolute coordinates
+  const commands: string[] = [`M ${f(w - p)} 0`];
+  if (r > 0) {
+    commands.push(
+      `C ${f(w - p + a)} 0 ${f(w - p + a + b)} 0 ${f(w - p + a + b + c)} ${f(d)}`,
+      `A ${f(r)} ${f(r)} 0 0 1 ${f(w - d)} ${f(p - a - b - c)}`,
+      `C ${f(w)} ${f(p - a - b)} ${f(w)} ${f(p - a)} ${f(w)} ${f(p)}`,
+      `L ${f(w)} ${f(h - p)}`,
+      `C ${f(w)} ${f(h - p + a)} ${f(w)} ${f(h - p + a + b)} ${f(w - d)} ${f(h - p + a + b + c)}`,
+      `A ${f(r)} ${f(r)} 0 0 1 ${f(w - p + a + b + c)} ${f(h - d)}`,
+      `C ${f(w - p + a + b)} ${f(h)} ${f(w - p + a)} ${f(h)} ${f(w - p)} ${f(h)}`,
+      `L ${f(p)} ${f(h)}`,
+      `C ${f(p - a)} ${f(h)} ${f(p - a - b)} ${f(h)} ${f(p - a - b - c)} ${f(h - d)}`,
+      `A ${f(r)} ${f(r)} 0 0 1 ${f(d)} ${f(h - p + a + b + c)}`,
+      `C 0 ${f(h - p + a + b)} 0 ${f(h - p + a)} 0 ${f(h - p)}`,
+      `L 0 ${f(p)}`,
+      `C 0 ${f(p - a)} 0 ${f(p - a - b)} ${f(d)} ${f(p - a - b - c)}`,
+      `A ${f(r)} ${f(r)} 0 0 1 ${f(p - a - b - c)} ${f(d)}`,
+      `C ${f(p - a - b)} 0 ${f(p - a)} 0 ${f(p)} 0`
+    );
+  } else {
+    commands.push(`L ${f(w)} ${f(h)}`, `L 0 ${f(h)}`, `L 0 0`);
+  }
+
+  return `${commands.join(' ')} Z`;
+}
+
+/**
+ * Generate the outline described by a superellipse state for whichever
+ * shape model is active
+ */
+export function getStatePath(
+  state: ShapeState,
+  options: PathOptions = {}
+): string {
+  if (state.shapeModel === 'smooth-corners') {
+    return getSmoothCornerPath(state.width, state.height, state.cornerRadius ?? 0, state.cornerSmoothing ?? 0, {
+      precision: options.precision,
+    });
+  }
+  if (state.shapeModel === 'superformula' && state.superformula) {
+    return getSuperformulaPath(state.width, state.height, state.superformula, options);
+  }
+  if (state.useAsymmetricCorners && state.cornerExponents) {
+    if (state.useCornerRadii && state.cornerRadii) {
+      return getCornerRadiiPath(state.width, state.height, state.cornerExponents, state.cornerRadii, options);
+    }
+    return getAsymmetricSuperellipsePath(state.width, state.height, state.cornerExponents, {
+      ...options,
+      smoothing: state.smoothing,
+      blend: state.cornerBlend,
+    });
+  }
+  return getSuperellipsePath(state.width, state.height, state.exp, options);
+}
+
+// ============================================================================
+// AREA AND PERIMETER
+// ============================================================================
+
+/**
+ * Area, perimeter and how much of the bounding box the shape covers
+ */
+export interface ShapeMetrics {
+  area: number; // px²
+  perimeter: number; // px
+  fillRatio: number; // area / (width × height), 0-1
+}
+
+// Stirling series is accurate to double precision once the argument is ≥ 10
+const STIRLING_MIN_ARGUMENT = 10;
+
+/**
+ * Gamma function for x > 0.
+ * Shifts the argument up with Γ(x) = Γ(x + 1) / x, then applies the Stirling
+ * series through the 1/x¹³ term; relative error is below 5e-15.
+ */
+export function gamma(x: number): number {
+  let shifted = x;
+  let product = 1;
+  while (shifted < STIRLING_MIN_ARGUMENT) {
+    product *= shifted;
+    shifted += 1;
+  }
+
+  const inv = 1 / shifted;
+  const inv2 = inv * inv;
+  const series = inv * (1 / 12 - inv2 * (1 / 360 - inv2 * (1 / 1260 - inv2 * (1 / 1680 - inv2 * (1 / 1188 - inv2 * (691 / 360360 - inv2 / 156))))));
+  const logGamma = (shifted - 0.5) * Math.log(shifted) - shifted + 0.5 * Math.log(2 * Math.PI) + series;
+  return Math.exp(logGamma) / product;
+}
+
+/**
+ * Area of one quarter of a unit superellipse, Γ(1 + 1/n)² / Γ(1 + 2/n)
+ */
+function quarterAreaFactor(n: number): number {
+  const g = gamma(1 + 1 / n);
+  return (g * g) / gamma(1 + 2 / n);
+}
+
+const TANH_SINH_MAX_LEVEL = 10;
+const TANH_SINH_T_MAX = 6; // Nodes reach within ~1e-275 of the ends
+const TANH_SINH_TOLERANCE = 1e-13;
+const AXIS_GUARD = 1e-9;
+
+/**
+ * Tanh-sinh (double exponential) quadrature over an interval of the given length.
+ * The integrand receives the distance of the node from both ends, so endpoint
+ * singularities such as t^(2/n - 1) can be evaluated without cancellation.
+ * Converges exponentially for integrands analytic inside the interval; the
+ * step is halved until two levels agree to a relative 1e-13.
+ */
+function integrateTanhSinh(f: (fromStart: number, fromEnd: number) => number, length: number): number {
+  const half = length / 2;
+
+  // Sum of both mirrored nodes at parameter t (the centre node for t = 0)
+  const nodePair = (t: number): number => {
+    const u = (Math.PI / 2) * Math.sinh(t);
+    const d = length / (Math.exp(2 * u) + 1);
+    const sech = 2 / (Math.exp(u) + Math.exp(-u));
+    const weight = half * (Math.PI / 2) * Math.cosh(t) * sech * sech;
+    if (t === 0) return weight * f(half, half);
+    if (!(d > 0) || weight === 0) return 0;
+    return weight * (f(d, length - d) + f(length - d, d));
+  };
+
+  let h = 1;
+  let sum = 0;
+  for (let t = 0; t <= TANH_SINH_T_MAX; t += h) sum += nodePair(t);
+  let estimate = h * sum;
+
+  for (let level = 1; level <= TANH_SINH_MAX_LEVEL; level++) {
+    h /= 2;
+    for (let t = h; t <= TANH_SINH_T_MAX; t += 2 * h) sum += nodePair(t);
+    const next = h * sum;
+    const converged = level >= 3 && Math.abs(next - estimate) <= TANH_SINH_TOLERANCE * Math.abs(next);
+    estimate = next;
+    if (converged) break;
+  }
+  return estimate;
+}
+
+/**
+ * Corner exponent (clamped like the path generators) and its derivative dn/dt
+ */
+function getExponentAndSlope(
+  angle: number,
+  corners: CornerExponents,
+  options: CornerBlendOptions
+): { n: number; slope: number } {
+  const n = getExponentForAngle(angle, corners, options);
+  if (n < 0.5) return { n: 0.5, slope: 0 };
+
+  const { smoothing = 0.5, blend = 'smoothstep' } = options;
+  const quarter = Math.PI / 2;
+  const halfWidth = Math.max(0, Math.min(1, smoothing)) * (Math.PI / 4);
+  const normalizedAngle = ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  const offset = normalizedAngle - Math.round(normalizedAngle / quarter) * quarter;
+
+  if (halfWidth === 0 || Math.abs(offset) >= halfWidth) return { n, slope: 0 };
+
+  const axisIndex = Math.round(normalizedAngle / quarter) % 4;
+  const cornerExps = [corners.bottomRight, corners.bottomLeft, corners.topLeft, corners.topRight];
+  const delta = cornerExps[axisIndex] - cornerExps[(axisIndex + 3) % 4];
+  const s = (offset + halfWidth) / (2 * halfWidth);
+  const curveSlope = blend === 'linear' ? 1 : blend === 'cosine' ? (Math.PI / 2) * Math.sin(Math.PI * s) : 6 * s * (1 - s);
+  return { n, slope: (delta * curveSlope) / (2 * halfWidth) };
+}
+
+/**
+ * Integrate a quantity over the four quadrants of an outline whose exponent
+ * varies with t. Each quadrant is evaluated in its own first-quadrant frame,
+ * X = a·C^(2/n), Y = b·S^(2/n) with S = sin τ and C = cos τ = sin(π/2 − τ),
+ * and split wherever n(t) is not smooth (edges of the blend zones).
+ */
+function integrateQuadrants(
+  a: number,
+  b: number,
+  exponentAt: (t: number) => { n: number; slope: number },
+  breakpoints: number[],
+  integrand: (X: number, Y: number, dX: number, dY: number, m: number, dm: number, S: number, C: number) => number
+): number {
+  const quarter = Math.PI / 2;
+  let total = 0;
+
+  for (let q = 0; q < 4; q++) {
+    for (let i = 0; i + 1 < breakpoints.length; i++) {
+      const tau0 = breakpoints[i];
+      const tau1 = breakpoints[i + 1];
+      total += integrateTanhSinh((fromStart, fromEnd) => {
+        const tau = tau0 + fromStart;
+        const S = Math.sin(tau);
+        const C = Math.sin(quarter - tau1 + fromEnd);
+        // Odd quadrants start on the y axis, so τ runs against t there. Nodes
+        // closer to an axis than t can resolve are nudged inside the quadrant
+        // so a hard corner switch still picks this quadrant's exponent.
+        const inside = Math.min(quarter - AXIS_GUARD, Math.max(AXIS_GUARD, tau));
+        const { n, slope } = exponentAt(q % 2 === 0 ? q * quarter + inside : (q + 1) * quarter - inside);
+        const m = 2 / n;
+        const dm = ((q % 2 === 0 ? -2 : 2) * slope) / (n * n);
+        const X = a * Math.pow(C, m);
+        const Y = b * Math.pow(S, m);
+        const dX = X * (dm * Math.log(C) - (m * S) / C);
+        const dY = Y * (dm * Math.log(S) + (m * C) / S);
+        return integrand(X, Y, dX, dY, m, dm, S, C);
+      }, tau1 - tau0);
+    }
+  }
+  return total;
+}
+
+const arcLengthIntegrand = (_X: number, _Y: number, dX: number, dY: number) => Math.hypot(dX, dY);
+
+// ½(X·Y' − Y·X'), simplified so no derivative blows up near the axes
+const areaIntegrand = (X: number, Y: number, _dX: number, _dY: number, m: number, dm: number, S: number, C: number) =>
+  0.5 * X * Y * (dm * (Math.log(S) - Math.log(C)) + m / (S * C));
+
+/**
+ * Break points of the blend zones inside one quadrant (τ ∈ [0, π/2])
+ */
+function getBlendBreakpoints(smoothing = 0.5): number[] {
+  const halfWidth = Math.max(0, Math.min(1, smoothing)) * (Math.PI / 4);
+  const quarter = Math.PI / 2;
+  if (halfWidth === 0) return [0, quarter];
+  if (halfWidth >= Math.PI / 4) return [0, Math.PI / 4, quarter];
+  return [0, halfWidth, quarter - halfWidth, quarter];
+}
+
+/**
+ * Calculate the perimeter of a superellipse.
+ * Arc length is integrated per quadrant with tanh-sinh quadrature, which
+ * handles the integrable singularity at the axes; the relative error is below
+ * 1e-10 for exponents up to 40 and degrades slowly beyond that.
+ * @param w - Width
+ * @param h - Height
+ * @param n - Exponent
+ * @returns Perimeter in px
+ */
+export function getSuperellipsePerimeter(w: number, h: number, n: number): number {
+  if (w <= 0 || h <= 0 || n <= 0) {
+    throw new Error('Width, height, and exponent must be positive numbers');
+  }
+
+  return integrateQuadrants(w / 2, h / 2, () => ({ n, slope: 0 }), [0, Math.PI / 2], arcLengthIntegrand);
+}
+
+/**
+ * Calculate the area of a superellipse with the closed form
+ * A = 4ab · Γ(1 + 1/n)² / Γ(1 + 2/n).
+ * The only error is the Gamma evaluation: relative error below 2e-14.
+ * @param w - Width
+ * @param h - Height
+ * @param n - Exponent
+ * @returns Area in px²
+ */
+export function getSuperellipseArea(w: number, h: number, n: number): number {
+  if (w <= 0 || h <= 0 || n <= 0) {
+    throw new Error('Width, height, and exponent must be positive numbers');
+  }
+
+  return w * h * quarterAreaFactor(n);
+}
+
+/**
+ * Calculate the perimeter of a superellipse with blended asymmetric corners.
+ * Same quadrature and error bound as getSuperellipsePerimeter, with the
+ * quadrants split at the edges of the blend zones.
+ */
+export function getAsymmetricSuperellipsePerimeter(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  options: CornerBlendOptions = {}
+): number {
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+
+  return integrateQuadrants(
+    w / 2,
+    h / 2,
+    t => getExponentAndSlope(t, corners, options),
+    getBlendBreakpoints(options.smoothing),
+    arcLengthIntegrand
+  );
+}
+
+/**
+ * Calculate the area of a superellipse with blended asymmetric corners.
+ * Without blending (smoothing 0) each quadrant is an exact quarter superellipse
+ * and the closed form is used; otherwise ½∮(x dy − y dx) is integrated with
+ * tanh-sinh quadrature (relative error below 1e-10).
+ */
+export function getAsymmetricSuperellipseArea(
+  w: number,
+  h: number,
+  corners: CornerExponents,
+  options: CornerBlendOptions = {}
+): number {
+  if (w <= 0 || h <= 0) {
+    throw new Error('Width and height must be positive numbers');
+  }
+
+  if ((options.smoothing ?? 0.5) <= 0) {
+    const exps = [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft];
+    return (w * h * exps.reduce((sum, n) => sum + quarterAreaFactor(Math.max(0.5, n)), 0)) / 4;
+  }
+
+  return integrateQuadrants(
+    w / 2,
+    h / 2,
+    t => getExponentAndSlope(t, corners, options),
+    getBlendBreakpoints(options.smoothing),
+    areaIntegrand
+  );
+}
+
+/**
+ * Area and perimeter of a rectangle with per-corner size and exponent.
+ * Straight edges are exact and each corner is a scaled quarter superellipse,
+ * so this inherits the error bounds of the uniform formulas.
+ */
+function getCornerRadiiMetrics(w: number, h: number, corners: CornerExponents, radii: CornerRadii): ShapeMetrics {
+  const fitted = fitCornerRadii(w, h, radii);
+  const keys = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'] as const;
+
+  let area = w * h;
+  let perimeter = 2 * (w + h);
+  for (const key of keys) {
+    const r = fitted[key];
+    if (r <= 0) continue;
+    const n = Math.max(0.5, corners[key]);
+    area -= r * r * (1 - quarterAreaFactor(n));
+    perimeter += r * (getSuperellipsePerimeter(2, 2, n) / 4 - 2);
+  }
+
+  return { area, perimeter, fillRatio: area / (w * h) };
+}
+
+/**
+ * Area, perimeter and fill ratio of the outline described by a state.
+ * Covers the exponent model (uniform, blended asymmetric and per-corner size);
+ * returns null for the other shape models.
+ */
+export function getShapeMetrics(
+  state: ShapeState
+): ShapeMetrics | null {
+  const { width: w, height: h } = state;
+  if (state.shapeModel && state.shapeModel !== 'exponent') return null;
+
+  if (state.useAsymmetricCorners && state.cornerExponents) {
+    if (state.useCornerRadii && state.cornerRadii) {
+      return getCornerRadiiMetrics(w, h, state.cornerExponents, state.cornerRadii);
+    }
+    const blend = { smoothing: state.smoothing, blend: state.cornerBlend };
+    const area = getAsymmetricSuperellipseArea(w, h, state.cornerExponents, blend);
+    return {
+      area,
+      perimeter: getAsymmetricSuperellipsePerimeter(w, h, state.cornerExponents, blend),
+      fillRatio: area / (w * h),
+    };
+  }
+
+  const area = getSuperellipseArea(w, h, state.exp);
+  return { area, perimeter: getSuperellipsePerimeter(w, h, state.exp), fillRatio: area / (w * h) };
+}
+
+// ============================================================================
+// EXPORT HELPERS
+// ============================================================================
+
+const getGlowOklch = (state: SuperellipseState): OKLCH => ({
+  l: state.lightness / 100,
+  c: state.chroma,
+  h: state.hue,
+});
+
+/**
+ * Glow layers of the preview, in px inside its glow container. Layers are
+ * screen blended; the second one takes its blur from `glowBlur`, and a
+ * `colorIndex` of -1 is the white highlight.
+ */
+export const PREVIEW_GLOW_LAYERS = [
+  { top: 400, left: 300, width: 1800, height: 1140, blur: 180, opacity: 0.4, colorIndex: 0 },
+  { top: 600, left: 460, width: 1300, height: 1300, blur: 120, opacity: 0.6, colorIndex: 1 },
+  { top: 700, left: 560, width: 1000, height: 800, blur: 60, opacity: 1, colorIndex: 2 },
+  { top: 800, left: 700, width: 600, height: 440, blur: 80, opacity: 0.4, colorIndex: -1 },
+] as const;
+
+/**
+ * Preview glow container: scaled around its centre by `glowScale` and faded
+ * out from `maskStart` (share of the height) to the bottom
+ */
+export const PREVIEW_GLOW_CONTAINER = { width: 1700, height: 2400, maskStart: 0.3 } as const;
+
+/**
+ * Glow layer colors by `colorIndex`: the glow color, two lighter tints and
+ * white for the highlight last
+ */
+export function getPreviewGlowColors(state: Pick<SuperellipseState, 'lightness' | 'chroma' | 'hue'>): OKLCH[] {
+  return [
+    { l: state.lightness / 100, c: state.chroma, h: state.hue },
+    { l: Math.min(state.lightness + 10, 100) / 100, c: state.chroma, h: state.hue },
+    { l: Math.min(state.lightness + 15, 100) / 100, c: Math.max(state.chroma - 0.05, 0), h: state.hue },
+    { l: 1, c: 0, h: 0 },
+  ];
+}
+
+/**
+ * Preview glow placed for a state: the container at the glow position,
+ * relative to the shape's top-left corner, and its layers with their blur
+ * and color resolved
+ */
+export function getPreviewGlow(state: SuperellipseState) {
+  const colors = getPreviewGlowColors(state);
+  return {
+    ...PREVIEW_GLOW_CONTAINER,
+    x: state.glowPositionX,
+    y: state.glowPositionY,
+    scale: state.glowScale,
+    opacity: state.glowOpacity / 100,
+    layers: PREVIEW_GLOW_LAYERS.map((layer, index) => ({
+      ...layer,
+      blur: index === 1 ? state.glowBlur : layer.blur,
+      color: colors[layer.colorIndex === -1 ? 3 : layer.colorIndex],
+    })),
+  };
+}
+
+/**
+ * Glow blob of the CSS and component exports: a blurred OKLCH ellipse
+ * positioned relative to the shape's top-left corner
+ */
+export function getExportGlow(state: SuperellipseState) {
+  return {
+    x: state.glowPositionX,
+    y: state.glowPositionY,
+    width: Math.round(state.width * state.glowScale),
+    height: Math.round(state.height * state.glowScale),
+    color: formatOklch(getGlowOklch(state)),
+    blur: 80,
+    opacity: 0.4,
+  };
+}
+
+// Feature queries for the wide-gamut color syntaxes
+const COLOR_SPACE_SUPPORTS: Record<Exclude<ExportColorSpace, 'srgb'>, string> = {
+  'display-p3': 'color: color(display-p3 1 1 1)',
+  oklch: 'color: oklch(0% 0 0)',
+};
+
+/**
+ * Glow color in an export color space: the sRGB hex every renderer reads,
+ * plus the wide-gamut value and the `@supports` condition for it (null for sRGB)
+ */
+export function getExportGlowColor(state: SuperellipseState, colorSpace: ExportColorSpace = 'oklch') {
+  return getExportColor(getGlowOklch(state), colorSpace);
+}
+
+/**
+ * OKLCH color in an export color space, like getExportGlowColor
+ */
+function getExportColor(color: OKLCH, colorSpace: ExportColorSpace) {
+  const fallback = oklchToHex(color);
+  if (colorSpace === 'srgb') return { fallback, wide: null, supports: null };
+
+  return {
+    fallback,
+    wide: colorSpace === 'display-p3' ? formatDisplayP3(color) : formatOklch(color),
+    supports: COLOR_SPACE_SUPPORTS[colorSpace],
+  };
+}
+
+/**
+ * CSS gradient line for a linear-gradient angle in a w×h box: it passes
+ * through the centre and is long enough for the corners to hit 0% and 100%
+ */
+export function getLinearGradientLine(w: number, h: number, angle: number) {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(w * dx) + Math.abs(h * dy)) / 2;
+  return {
+    x1: w / 2 - dx * half,
+    y1: h / 2 - dy * half,
+    x2: w / 2 + dx * half,
+    y2: h / 2 + dy * half,
+  };
+}
+
+const RADIAL_FOCAL_LIMIT = 0.99; // Focal point stays inside the circle, as SVG renderers clamp it differently
+const CONIC_SEGMENTS = 360; // Wedges per turn when rendering conic gradients in SVG
+
+/**
+ * Conic wedge with a flat color
+ */
+export interface ConicWedge {
+  path: string;
+  color: string;
+}
+
+/**
+ * Gradient stops as 0-1 offsets, with positions smaller than an earlier one
+ * raised to it as CSS does
+ */
+function getNormalizedStops(stops: GradientStop[]): Array<{ color: string; offset: number }> {
+  let previous = 0;
+  return stops.map(stop => {
+    previous = Math.max(previous, stop.position / 100);
+    return { color: stop.color, offset: previous };
+  });
+}
+
+/**
+ * Color of a gradient at an offset: sRGB interpolation between the
+ * neighbouring stops, padded with the first and last color
+ */
+function getGradientColorAt(stops: Array<{ color: string; offset: number }>, offset: number): string {
+  if (offset <= stops[0].offset) return stops[0].color;
+  for (let i = 1; i < stops.length; i++) {
+    const next = stops[i];
+    if (offset < next.offset) {
+      const prev = stops[i - 1];
+      return mixHexColors(prev.color, next.color, (offset - prev.offset) / (next.offset - prev.offset));
+    }
+  }
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * Radial gradient circle in px. The radius is a share of the distance from
+ * the centre to the farthest corner, the focal point is offset from the
+ * centre by a share of the radius.
+ */
+export function getRadialGradientGeometry(state: SuperellipseState) {
+  const cx = (state.width * state.gradientCenterX) / 100;
+  const cy = (state.height * state.gradientCenterY) / 100;
+  const farthest = Math.hypot(Math.max(cx, state.width - cx), Math.max(cy, state.height - cy));
+  const r = (farthest * state.gradientRadius) / 100;
+
+  let dx = state.gradientFocalX / 100;
+  let dy = state.gradientFocalY / 100;
+  const length = Math.hypot(dx, dy);
+  if (length > RADIAL_FOCAL_LIMIT) {
+    dx *= RADIAL_FOCAL_LIMIT / length;
+    dy *= RADIAL_FOCAL_LIMIT / length;
+  }
+
+  return { cx, cy, r, fx: cx + dx * r, fy: cy + dy * r };
+}
+
+/**
+ * `<radialGradient>` for the state in user space, shared by the SVG export
+ * and the CSS fallback for off-centre focal points
+ */
+function getRadialGradientXml(state: SuperellipseState, id: string, precision: number): string {
+  const num = (value: number) => Number(value.toFixed(precision));
+  const { cx, cy, r, fx, fy } = getRadialGradientGeometry(state);
+  const focal = fx !== cx || fy !== cy ? ` fx="${num(fx)}" fy="${num(fy)}"` : '';
+  const stops = state.gradientStops
+    .map(s => `    <stop offset="${s.position}%" stop-color="${s.color}" />`)
+    .join('\n');
+  return `  <radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${num(cx)}" cy="${num(cy)}" r="${num(r)}"${focal}>
+${stops}
+  </radialGradient>`;
 }
 
-// ============================================================================
-// CORE MATHEMATICAL FUNCTIONS
-// ============================================================================
-
 /**
- * Get the exponent for a given angle based on corner exponents
- * Uses smooth interpolation between corners
+ * Split a conic gradient into flat wedges around its centre. Wedges break at
+ * every stop so hard stops stay sharp, neighbours with the same color merge,
+ * and each wedge overlaps the next one slightly to hide anti-aliasing seams.
+ * @param state - Superellipse configuration
+ * @param segments - Wedges per full turn between stops
+ * @param precision - Decimal places for coordinates
  */
-function getExponentForAngle(
-  angle: number, 
-  corners: CornerExponents
-): number {
-  // Normalize angle to 0-2PI
-  const normalizedAngle = ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-  
-  // Define corner positions (in radians)
-  // Top-right: 0, Top-left: PI/2, Bottom-left: PI, Bottom-right: 3PI/2
-  const cornerAngles = [
-    { angle: Math.PI * 0.25, exp: corners.topRight },      // Top-right quadrant center
-    { angle: Math.PI * 0.75, exp: corners.topLeft },       // Top-left quadrant center
-    { angle: Math.PI * 1.25, exp: corners.bottomLeft },    // Bottom-left quadrant center
-    { angle: Math.PI * 1.75, exp: corners.bottomRight },   // Bottom-right quadrant center
-  ];
-  
-  // Find which quadrant we're in and blend
-  for (let i = 0; i < 4; i++) {
-    const curr = cornerAngles[i];
-    const next = cornerAngles[(i + 1) % 4];
-    const nextAngle = next.angle <= curr.angle ? next.angle + 2 * Math.PI : next.angle;
-    
-    if (normalizedAngle >= curr.angle - Math.PI * 0.25 && 
-        normalizedAngle < curr.angle + Math.PI * 0.25) {
-      return curr.exp;
+export function getConicWedges(
+  state: SuperellipseState,
+  segments: number = CONIC_SEGMENTS,
+  precision: number = 2
+): ConicWedge[] {
+  if (state.gradientStops.length === 0) return [];
+
+  const stops = getNormalizedStops(state.gradientStops);
+  const breaks = new Set<number>();
+  for (let i = 0; i <= segments; i++) breaks.add(i / segments);
+  stops.forEach(stop => {
+    if (stop.offset > 0 && stop.offset < 1) breaks.add(stop.offset);
+  });
+  const offsets = [...breaks].sort((a, b) => a - b);
+
+  // Flat color per span, sampled at its middle, merging equal neighbours
+  const spans: Array<{ start: number; end: number; color: string }> = [];
+  for (let i = 0; i < offsets.length - 1; i++) {
+    const color = getGradientColorAt(stops, (offsets[i] + offsets[i + 1]) / 2);
+    const last = spans[spans.length - 1];
+    if (last && last.color === color) {
+      last.end = offsets[i + 1];
+    } else {
+      spans.push({ start: offsets[i], end: offsets[i + 1], color });
     }
   }
-  
-  return corners.topRight; // Fallback
+
+  const { width: w, height: h } = state;
+  const cx = (w * state.gradientCenterX) / 100;
+  const cy = (h * state.gradientCenterY) / 100;
+  // Reach past the farthest corner so every wedge covers the shape
+  const radius = Math.hypot(Math.max(cx, w - cx), Math.max(cy, h - cy)) + 1;
+  const overlap = 0.5 / segments;
+  const num = (value: number) => Number(value.toFixed(precision));
+  const pointAt = (offset: number) => {
+    // CSS conic angles start at 12 o'clock and run clockwise
+    const angle = (state.gradientAngle / 360 + offset) * 2 * Math.PI;
+    return `${num(cx + radius * Math.sin(angle))} ${num(cy - radius * Math.cos(angle))}`;
+  };
+
+  if (spans.length === 1) {
+    return [{ path: `M 0 0 H ${w} V ${h} H 0 Z`, color: spans[0].color }];
+  }
+
+  return spans.map((span, index) => {
+    const end = index < spans.length - 1 ? span.end + overlap : span.end;
+    const largeArc = end - span.start > 0.5 ? 1 : 0;
+    return {
+      path: `M ${num(cx)} ${num(cy)} L ${pointAt(span.start)} A ${num(radius)} ${num(radius)} 0 ${largeArc} 1 ${pointAt(end)} Z`,
+      color: span.color,
+    };
+  });
 }
 
 /**
- * Generate SVG path data string for a superellipse with asymmetric corners
+ * CSS background for the state's fill, shared by the preview and the CSS
+ * export. Radial gradients with an off-centre focal point have no CSS
+ * equivalent and fall back to an inline SVG image.
  */
-export function getAsymmetricSuperellipsePath(
-  w: number,
-  h: number,
-  corners: CornerExponents,
-  options: { steps?: number; precision?: number } = {}
-): string {
-  const { steps = 360, precision = 2 } = options;
-  
-  if (w <= 0 || h <= 0) {
-    throw new Error('Width and height must be positive numbers');
-  }
-  
-  const a = w / 2;
-  const b = h / 2;
-  const points: string[] = [];
-  
-  for (let i = 0; i <= steps; i++) {
-    const t = (i * 2 * Math.PI) / steps;
-    const cosT = Math.cos(t);
-    const sinT = Math.sin(t);
-    
-    // Get the exponent for this angle
-    const n = Math.max(0.5, getExponentForAngle(t, corners));
-    
-    const x = a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n);
-    const y = b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n);
-    
-    const finalX = (x + a).toFixed(precision);
-    const finalY = (y + b).toFixed(precision);
-    
-    points.push(`${finalX} ${finalY}`);
+export function getGradientBackground(state: SuperellipseState): string {
+  const num = (value: number) => Number(value.toFixed(2));
+  const stops = state.gradientStops.map(s => `${s.color} ${s.position}%`).join(', ');
+  const at = `at ${num(state.gradientCenterX)}% ${num(state.gradientCenterY)}%`;
+
+  switch (state.colorMode) {
+    case 'linear':
+      return `linear-gradient(${state.gradientAngle}deg, ${stops})`;
+    case 'conic':
+      return `conic-gradient(from ${state.gradientAngle}deg ${at}, ${stops})`;
+    case 'radial': {
+      const { cx, cy, r, fx, fy } = getRadialGradientGeometry(state);
+      if (fx === cx && fy === cy) {
+        // Percentages of the box keep the circle exact at the shape's size
+        return `radial-gradient(ellipse ${num((r / state.width) * 100)}% ${num((r / state.height) * 100)}% ${at}, ${stops})`;
+      }
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${state.width} ${state.height}" preserveAspectRatio="none">
+  <defs>
+${getRadialGradientXml(state, 'g', 2)}
+  </defs>
+  <rect width="${state.width}" height="${state.height}" fill="url(#g)" />
+</svg>`;
+      return `url("data:image/svg+xml,${encodeURIComponent(svg)}") center / 100% 100% no-repeat`;
+    }
+    default:
+      return state.solidColor;
   }
-  
-  return `M ${points.join(' L ')} Z`;
 }
 
 /**
- * Generate SVG path data string for a superellipse
- * @param w - Width of the superellipse
- * @param h - Height of the superellipse
- * @param n - Exponent (shape parameter)
- * @param options - Generation options
- * @returns SVG path data string
+ * CSS image of a path drawn in a w×h box (offset by x, y), stretched to
+ * whatever box it is painted in
  */
-export function getSuperellipsePath(
-  w: number,
-  h: number,
-  n: number,
-  options: { steps?: number; precision?: number } = {}
-): string {
-  const { steps = 360, precision = 2 } = options;
-  
-  // Validate inputs
-  if (w <= 0 || h <= 0 || n <= 0) {
-    throw new Error('Width, height, and exponent must be positive numbers');
-  }
-  
-  const a = w / 2;
-  const b = h / 2;
-  const points: string[] = [];
-  
-  // Generate points along the superellipse curve
-  for (let i = 0; i <= steps; i++) {
-    const t = (i * 2 * Math.PI) / steps;
-    const cosT = Math.cos(t);
-    const sinT = Math.sin(t);
-    
-    // Superellipse parametric equations
-    const x = a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n);
-    const y = b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n);
-    
-    // Memoization could be added here if this was in a component, 
-    // but for the utility function we ensure precision and validity.
-    
-    // Translate to center
-    const finalX = (x + a).toFixed(precision);
-    const finalY = (y + b).toFixed(precision);
-    
-    points.push(`${finalX} ${finalY}`);
-  }
-  
-  // Construct path data
-  return `M ${points.join(' L ')} Z`;
+export function getSvgMaskImage(path: string, w: number, h: number, x = 0, y = 0): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${x} ${y} ${w} ${h}" preserveAspectRatio="none"><path d="${path}"/></svg>`;
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
 }
 
 /**
- * Calculate the perimeter of a superellipse (approximate)
- * @param w - Width
- * @param h - Height
- * @param n - Exponent
- * @returns Approximate perimeter
+ * `mask` value that scales the outline with the element. With fixed
+ * corners each quadrant of the outline is pinned to its corner at its
+ * designed size, and two bands fill the cross between them, so the curves
+ * keep their px size and only the straight sides grow or shrink.
  */
-export function getSuperellipsePerimeter(w: number, h: number, n: number): number {
-  const a = w / 2;
-  const b = h / 2;
-  const steps = 1000;
-  let perimeter = 0;
-  
-  let prevX = a;
-  let prevY = 0;
-  
-  for (let i = 1; i <= steps; i++) {
-    const t = (i * 2 * Math.PI) / steps;
-    const cosT = Math.cos(t);
-    const sinT = Math.sin(t);
-    
-    const x = a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n) + a;
-    const y = b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n) + b;
-    
-    const dx = x - prevX;
-    const dy = y - prevY;
-    perimeter += Math.sqrt(dx * dx + dy * dy);
-    
-    prevX = x;
-    prevY = y;
+export function getResponsiveMask(state: SuperellipseState, path: string, fixedCorners = false): string {
+  const { width: w, height: h } = state;
+  if (!fixedCorners) {
+    return `${getSvgMaskImage(path, w, h)} center / 100% 100% no-repeat`;
   }
-  
-  return perimeter;
+
+  const num = (value: number) => Number(value.toFixed(2));
+  const qw = num(w / 2);
+  const qh = num(h / 2);
+  const corners: [string, number, number][] = [
+    ['top left', 0, 0],
+    ['top right', qw, 0],
+    ['bottom right', qw, qh],
+    ['bottom left', 0, qh],
+  ];
+  return [
+    ...corners.map(([position, x, y]) => `${getSvgMaskImage(path, qw, qh, x, y)} ${position} / ${qw}px ${qh}px no-repeat`),
+    // Negative band sizes clamp to zero once the element is smaller than the design
+    `linear-gradient(#000 0 0) center / calc(100% - ${num(w)}px) 100% no-repeat`,
+    `linear-gradient(#000 0 0) center / 100% calc(100% - ${num(h)}px) no-repeat`,
+  ].join(', ');
 }
 
 /**
- * Calculate the area of a superellipse (approximate)
- * @param w - Width
- * @param h - Height
- * @param n - Exponent
- * @returns Approximate area
+ * Id of the clip path referenced by the bounding-box CSS export
  */
-export function getSuperellipseArea(w: number, h: number, n: number): number {
-  const a = w / 2;
-  const b = h / 2;
-  
-  // Using the formula: Area = 4ab * Γ(1 + 1/n)² / Γ(1 + 2/n)
-  // For practical purposes, we'll use numerical integration
-  const steps = 1000;
-  let area = 0;
-  
-  for (let i = 0; i < steps; i++) {
-    const t = (i * 2 * Math.PI) / steps;
-    const cosT = Math.cos(t);
-    const sinT = Math.sin(t);
-    
-    const x = a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n);
-    const y = b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n);
-    
-    // Shoelace formula
-    const nextT = ((i + 1) * 2 * Math.PI) / steps;
-    const nextCosT = Math.cos(nextT);
-    const nextSinT = Math.sin(nextT);
-    const nextX = a * Math.sign(nextCosT) * Math.pow(Math.abs(nextCosT), 2 / n);
-    const nextY = b * Math.sign(nextSinT) * Math.pow(Math.abs(nextSinT), 2 / n);
-    
-    area += x * nextY - nextX * y;
-  }
-  
-  return Math.abs(area / 2);
+export const BOUNDING_BOX_CLIP_ID = 'superellipse-clip-bbox';
+
+/**
+ * Inline SVG defining the outline in `objectBoundingBox` units, so
+ * `clip-path: url(#id)` fits it to any element
+ */
+export function getBoundingBoxClipSVG(state: SuperellipseState, path: string, id = BOUNDING_BOX_CLIP_ID): string {
+  const sx = Number((1 / state.width).toPrecision(6));
+  const sy = Number((1 / state.height).toPrecision(6));
+  return `<svg width="0" height="0" aria-hidden="true" style="position: absolute"><clipPath id="${id}" clipPathUnits="objectBoundingBox"><path transform="scale(${sx} ${sy})" d="${path}"/></clipPath></svg>`;
 }
 
 // ============================================================================
@@ -292,8 +2022,19 @@ export function generateCSS(
     useCustomProperties = false,
     addComments = true,
     format = 'pretty',
+    pathFormat = 'polyline',
+    tolerance,
+    clipMode = 'path',
+    fixedCorners = false,
+    colorSpace = 'oklch',
   } = options;
 
+  // Smoothed corners are already exact arcs and cubics, so only Lamé outlines are refitted
+  const bezier = pathFormat === 'bezier' && state.shapeModel !== 'smooth-corners'
+    ? getStateBezierPath(state, { tolerance })
+    : null;
+  const shapePath = bezier ? bezier.path : pathData;
+
   const lines: string[] = [];
   const indent = format === 'minified' ? '' : '  ';
   const lineBreak = format === 'minified' ? '' : '\n';
@@ -311,6 +2052,27 @@ export function generateCSS(
   
   // Main Superellipse Shape
   if (addComments) lines.push(`/* Superellipse Shape */`);
+  if (addComments && bezier) {
+    lines.push(`/* ${bezier.segmentCount} cubic Bézier segments, max deviation ${bezier.maxError.toFixed(3)}px */`);
+  }
+  const { cornerRadii, cornerExponents } = state;
+  if (addComments && state.useAsymmetricCorners && state.useCornerRadii && cornerRadii && cornerExponents) {
+    const radii = fitCornerRadii(state.width, state.height, cornerRadii);
+    const order = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'] as const;
+    const sizes = order.map(corner => Math.round(radii[corner])).join('/');
+    const exponents = order.map(corner => cornerExponents[corner].toFixed(1)).join('/');
+    lines.push(`/* Corners (TL/TR/BR/BL): ${sizes}px, n = ${exponents} */`);
+  }
+  if (clipMode === 'bounding-box') {
+    // The clip path lives in the page, so it is emitted even without comments
+    lines.push(`/* Add once to the page:`);
+    lines.push(getBoundingBoxClipSVG(state, shapePath));
+    lines.push(`*/`);
+  } else if (addComments && clipMode === 'mask') {
+    lines.push(fixedCorners
+      ? `/* Scales with the element: corners stay ${Number((state.width / 2).toFixed(2))}×${Number((state.height / 2).toFixed(2))}px, straight sides stretch */`
+      : `/* Scales with the element: the mask stretches to its box */`);
+  }
   lines.push(`.superellipse {`);
   
   if (useCustomProperties) {
@@ -322,7 +2084,15 @@ export function generateCSS(
   }
   
   lines.push(`${indent}position: relative;`);
-  lines.push(`${indent}clip-path: path('${pathData}');`);
+  if (clipMode === 'mask') {
+    const mask = getResponsiveMask(state, shapePath, fixedCorners);
+    lines.push(`${indent}-webkit-mask: ${mask};`);
+    lines.push(`${indent}mask: ${mask};`);
+  } else if (clipMode === 'bounding-box') {
+    lines.push(`${indent}clip-path: url(#${BOUNDING_BOX_CLIP_ID});`);
+  } else {
+    lines.push(`${indent}clip-path: path('${shapePath}');`);
+  }
   
   // Background
   if (state.colorMode === 'solid') {
@@ -334,21 +2104,7 @@ export function generateCSS(
       lines.push(`${indent}opacity: ${opacity};`);
     }
   } else {
-    const stopsStr = state.gradientStops
-      .map(s => `${s.color} ${s.position}%`)
-      .join(', ');
-      
-    switch (state.colorMode) {
-      case 'linear':
-        lines.push(`${indent}background: linear-gradient(${state.gradientAngle}deg, ${stopsStr});`);
-        break;
-      case 'radial':
-        lines.push(`${indent}background: radial-gradient(circle, ${stopsStr});`);
-        break;
-      case 'conic':
-        lines.push(`${indent}background: conic-gradient(from ${state.gradientAngle}deg, ${stopsStr});`);
-        break;
-    }
+    lines.push(`${indent}background: ${getGradientBackground(state)};`);
   }
   
   // Effects
@@ -370,30 +2126,52 @@ export function generateCSS(
   
   // Glow Effect
   if (includeGlow && state.enabled) {
+    const glow = getExportGlow(state);
+    const glowColor = getExportGlowColor(state, colorSpace);
     if (addComments) lines.push(`/* Glow Effect */`);
     lines.push(`.superellipse::before {`);
     lines.push(`${indent}content: '';`);
     lines.push(`${indent}position: absolute;`);
-    lines.push(`${indent}width: ${Math.round(state.width * state.glowScale)}px;`);
-    lines.push(`${indent}height: ${Math.round(state.height * state.glowScale)}px;`);
-    lines.push(`${indent}top: ${state.glowPositionY}px;`);
-    lines.push(`${indent}left: ${state.glowPositionX}px;`);
-    lines.push(`${indent}background-color: oklch(${state.lightness}% ${state.chroma} ${state.hue});`);
-    lines.push(`${indent}filter: blur(80px);`);
-    lines.push(`${indent}opacity: 0.4;`);
+    lines.push(`${indent}width: ${glow.width}px;`);
+    lines.push(`${indent}height: ${glow.height}px;`);
+    lines.push(`${indent}top: ${glow.y}px;`);
+    lines.push(`${indent}left: ${glow.x}px;`);
+    lines.push(`${indent}background-color: ${glowColor.fallback};`);
+    lines.push(`${indent}filter: blur(${glow.blur}px);`);
+    lines.push(`${indent}opacity: ${glow.opacity};`);
     lines.push(`${indent}mix-blend-mode: screen;`);
     lines.push(`${indent}pointer-events: none;`);
     lines.push(`${indent}z-index: -1;`);
     lines.push(`}`);
+    if (glowColor.wide) {
+      lines.push(lineBreak);
+      if (addComments) lines.push(`/* Wide-gamut glow where supported */`);
+      lines.push(`@supports (${glowColor.supports}) {`);
+      lines.push(`${indent}.superellipse::before {`);
+      lines.push(`${indent}${indent}background-color: ${glowColor.wide};`);
+      lines.push(`${indent}}`);
+      lines.push(`}`);
+    }
     lines.push(lineBreak);
   }
   
   // Border
   if (includeBorder && state.borderEnabled) {
     if (addComments) lines.push(`/* Border (use with SVG) */`);
+    const strokeOffset = getStrokeOffsetPath(state);
+    const strokeCut = getStrokeCut(state, strokeOffset);
+    if (addComments && strokeOffset) {
+      lines.push(`/* Stroke centre line offset ${Math.abs(strokeOffset.offset)}px ${state.strokePosition} the outline */`);
+    }
+    if (addComments && strokeCut) {
+      lines.push(`/* Double-width stroke: ${strokeCut === 'inside' ? 'clip it to the shape' : 'mask the shape out of it'} to keep the ${strokeCut} half */`);
+    }
     lines.push(`.superellipse-border {`);
+    if (strokeOffset) {
+      lines.push(`${indent}d: path('${strokeOffset.path}');`);
+    }
     lines.push(`${indent}stroke: ${state.strokeColor};`);
-    lines.push(`${indent}stroke-width: ${state.strokeWidth}px;`);
+    lines.push(`${indent}stroke-width: ${strokeCut ? state.strokeWidth * 2 : state.strokeWidth}px;`);
     lines.push(`${indent}stroke-opacity: ${state.strokeOpacity / 100};`);
     lines.push(`${indent}fill: none;`);
     
@@ -411,6 +2189,65 @@ export function generateCSS(
     : lines.join('\n');
 }
 
+// Background size of the preview's noise tile, px
+const NOISE_TILE_SIZE = 200;
+
+// Class per preview glow layer, in PREVIEW_GLOW_LAYERS order
+const PREVIEW_GLOW_CLASSES = ['glow-layer-1', 'glow-layer-2', 'glow-layer-3', 'glow-highlight'];
+
+/**
+ * Generate CSS for the preview's layered glow: a `.glow-container` placed
+ * inside `.superellipse` holding one element per layer
+ * @param state - Superellipse configuration
+ * @param colors - CSS color per layer `colorIndex`, white last; defaults to the oklch() values
+ * @returns CSS code string, empty when the glow is off
+ */
+export function generatePreviewGlowCSS(
+  state: SuperellipseState,
+  colors: string[] = getPreviewGlowColors(state).map(formatOklch)
+): string {
+  if (!state.enabled) return '';
+
+  const glow = getPreviewGlow(state);
+  const mask = `linear-gradient(black ${glow.maskStart * 100}%, transparent 100%)`;
+  const lines = [
+    `/* Glow Container: scaled around its centre and faded towards the bottom */`,
+    `.glow-container {`,
+    `  position: absolute;`,
+    `  left: ${glow.x}px;`,
+    `  top: ${glow.y}px;`,
+    `  width: ${glow.width}px;`,
+    `  height: ${glow.height}px;`,
+    `  pointer-events: none;`,
+    `  opacity: ${glow.opacity};`,
+    `  transform: scale(${glow.scale});`,
+    `  -webkit-mask-image: ${mask};`,
+    `  mask-image: ${mask};`,
+    `}`,
+  ];
+
+  glow.layers.forEach((layer, index) => {
+    lines.push(
+      ``,
+      `/* Glow Layer ${index + 1} (${layer.blur}px blur) */`,
+      `.${PREVIEW_GLOW_CLASSES[index]} {`,
+      `  position: absolute;`,
+      `  top: ${layer.top}px;`,
+      `  left: ${layer.left}px;`,
+      `  width: ${layer.width}px;`,
+      `  height: ${layer.height}px;`,
+      `  border-radius: 9999px;`,
+      `  filter: blur(${layer.blur}px);`,
+      `  background: ${colors[layer.colorIndex === -1 ? 3 : layer.colorIndex]};`,
+      `  opacity: ${layer.opacity};`,
+      `  mix-blend-mode: screen;`,
+      `}`,
+    );
+  });
+
+  return lines.join('\n');
+}
+
 // ============================================================================
 // SVG GENERATION
 // ============================================================================
@@ -432,58 +2269,100 @@ export function generateSVG(
     includeBorder = true,
     optimize = false,
     precision = 2,
+    pathFormat = 'polyline',
+    tolerance,
+    conicSegments = CONIC_SEGMENTS,
+    colorSpace = 'oklch',
   } = options;
 
+  const shapePath = pathFormat === 'bezier' && state.shapeModel !== 'smooth-corners'
+    ? getStateBezierPath(state, { tolerance, precision }).path
+    : pathData;
+
+  // Fixed ids keep the output deterministic; inline several SVGs via <img> or rename them
+  const gradientId = 'superellipse-gradient';
+  const glowId = 'superellipse-glow';
+  const clipId = 'superellipse-clip';
+  const num = (value: number) => Number(value.toFixed(precision));
+
   let fillValue = state.solidColor;
   let gradientDef = '';
   let glowDef = '';
+  let glowLayer = '';
   
-  // Generate gradient definition if needed
-  if (state.colorMode !== 'solid') {
-    const gradientId = `gradient-${Date.now()}`;
+  // Gradients use the same geometry as their CSS counterparts
+  if (state.colorMode === 'linear') {
     const stopsXml = state.gradientStops
       .map(s => `    <stop offset="${s.position}%" stop-color="${s.color}" />`)
       .join('\n');
-    
-    if (state.colorMode === 'linear') {
-      const angle = state.gradientAngle;
-      const radians = ((angle - 90) * Math.PI) / 180;
-      const x1 = (50 + 50 * Math.cos(radians)).toFixed(precision);
-      const y1 = (50 + 50 * Math.sin(radians)).toFixed(precision);
-      const x2 = (50 - 50 * Math.cos(radians)).toFixed(precision);
-      const y2 = (50 - 50 * Math.sin(radians)).toFixed(precision);
-      
-      gradientDef = `  <linearGradient id="${gradientId}" x1="${x1}%" y1="${y1}%" x2="${x2}%" y2="${y2}%">
+    const line = getLinearGradientLine(state.width, state.height, state.gradientAngle);
+    gradientDef = `  <linearGradient id="${gradientId}" gradientUnits="userSpaceOnUse" x1="${num(line.x1)}" y1="${num(line.y1)}" x2="${num(line.x2)}" y2="${num(line.y2)}">
 ${stopsXml}
   </linearGradient>`;
-    } else if (state.colorMode === 'radial') {
-      gradientDef = `  <radialGradient id="${gradientId}" cx="50%" cy="50%" r="50%">
-${stopsXml}
-  </radialGradient>`;
-    } else if (state.colorMode === 'conic') {
-      // SVG doesn't natively support conic gradients, convert to multiple linear gradients
-      gradientDef = `  <!-- Conic gradients require CSS or complex SVG patterns -->
-  <radialGradient id="${gradientId}" cx="50%" cy="50%">
-${stopsXml}
-  </radialGradient>`;
-    }
-    
+    fillValue = `url(#${gradientId})`;
+  } else if (state.colorMode === 'radial') {
+    gradientDef = getRadialGradientXml(state, gradientId, precision);
     fillValue = `url(#${gradientId})`;
   }
+
+  // SVG has no conic gradient: draw flat wedges clipped to the shape
+  const conicWedges = state.colorMode === 'conic' ? getConicWedges(state, conicSegments, precision) : null;
+  const needsClip = conicWedges !== null || (includeGlow && state.enabled) || state.noiseEnabled;
+  const clipDef = needsClip
+    ? `  <clipPath id="${clipId}">
+    <path d="${shapePath}" />
+  </clipPath>`
+    : '';
   
-  // Generate glow effect
+  // Glow: the preview's layer stack, scaled around the container centre,
+  // faded by its mask and clipped to the shape
   if (includeGlow && state.enabled) {
-    const glowId = `glow-${Date.now()}`;
-    
-    glowDef = `  <filter id="${glowId}" x="-50%" y="-50%" width="200%" height="200%">
-    <feGaussianBlur in="SourceGraphic" stdDeviation="40" />
-    <feColorMatrix type="matrix" values="1 0 0 0 0  0 1 0 0 0  0 0 1 0 0  0 0 0 0.4 0"/>
-    <feBlend mode="screen" in2="SourceGraphic"/>
-  </filter>`;
+    const glow = getPreviewGlow(state);
+    const cx = glow.width / 2;
+    const cy = glow.height / 2;
+
+    glowDef = [
+      `  <linearGradient id="${glowId}-fade" x1="0" y1="0" x2="0" y2="1">`,
+      `    <stop offset="${glow.maskStart}" stop-color="white" />`,
+      `    <stop offset="1" stop-color="white" stop-opacity="0" />`,
+      `  </linearGradient>`,
+      `  <mask id="${glowId}-mask" maskUnits="userSpaceOnUse" x="0" y="0" width="${glow.width}" height="${glow.height}">`,
+      `    <rect width="${glow.width}" height="${glow.height}" fill="url(#${glowId}-fade)" />`,
+      `  </mask>`,
+      // Three deviations hold all of a Gaussian blur
+      ...glow.layers.map((layer, index) => `  <filter id="${glowId}-${index + 1}" filterUnits="userSpaceOnUse" x="${layer.left - 3 * layer.blur}" y="${layer.top - 3 * layer.blur}" width="${layer.width + 6 * layer.blur}" height="${layer.height + 6 * layer.blur}">
+    <feGaussianBlur stdDeviation="${layer.blur}" />
+  </filter>`),
+    ].join('\n');
+
+    const layers = glow.layers.map((layer, index) => {
+      // The style fill overrides the hex attribute wherever it parses
+      const color = getExportColor(layer.color, colorSpace);
+      return `      <ellipse cx="${num(layer.left + layer.width / 2)}" cy="${num(layer.top + layer.height / 2)}" rx="${num(layer.width / 2)}" ry="${num(layer.height / 2)}" fill="${color.fallback}" opacity="${layer.opacity}" filter="url(#${glowId}-${index + 1})" style="${color.wide ? `fill: ${color.wide}; ` : ''}mix-blend-mode: screen" />`;
+    });
+    glowLayer = `  <g clip-path="url(#${clipId})">
+    <g transform="translate(${num(glow.x + cx)} ${num(glow.y + cy)}) scale(${glow.scale}) translate(${-cx} ${-cy})" opacity="${glow.opacity}" mask="url(#${glowId}-mask)">
+${layers.join('\n')}
+    </g>
+  </g>`;
   }
+
+  // Noise: the preview's fractal noise tile, overlaid on the fill and glow
+  const noiseId = 'superellipse-noise';
+  const noiseDef = state.noiseEnabled
+    ? `  <filter id="${noiseId}" x="0" y="0" width="100%" height="100%">
+    <feTurbulence type="fractalNoise" baseFrequency="0.8" numOctaves="4" />
+  </filter>
+  <pattern id="${noiseId}-tile" width="${NOISE_TILE_SIZE}" height="${NOISE_TILE_SIZE}" patternUnits="userSpaceOnUse">
+    <rect width="${NOISE_TILE_SIZE}" height="${NOISE_TILE_SIZE}" filter="url(#${noiseId})" />
+  </pattern>`
+    : '';
+  const noiseLayer = state.noiseEnabled
+    ? `  <rect width="${state.width}" height="${state.height}" fill="url(#${noiseId}-tile)" opacity="${state.noiseIntensity / 100}" clip-path="url(#${clipId})" style="mix-blend-mode: overlay" />`
+    : '';
   
   // Build SVG content
-  const defs = [gradientDef, glowDef].filter(Boolean).join('\n');
+  const defs = [gradientDef, glowDef, noiseDef, clipDef].filter(Boolean).join('\n');
   const hasFilters = state.blur > 0;
   const filterDef = hasFilters 
     ? `  <filter id="blur-filter">
@@ -491,33 +2370,62 @@ ${stopsXml}
   </filter>` 
     : '';
   
-  const mainPath = `  <path 
-    d="${pathData}" 
+  // Like the preview, opacity only applies to solid fills
+  const fillOpacity = state.colorMode === 'solid' ? state.solidOpacity / 100 : 1;
+  const mainPath = conicWedges
+    ? `  <g clip-path="url(#${clipId})"${hasFilters ? ' filter="url(#blur-filter)"' : ''}>
+${conicWedges.map(wedge => `    <path d="${wedge.path}" fill="${wedge.color}" />`).join('\n')}
+  </g>`
+    : `  <path 
+    d="${shapePath}" 
     fill="${fillValue}" 
-    opacity="${state.solidOpacity / 100}"${hasFilters ? '\n    filter="url(#blur-filter)"' : ''}
+    opacity="${fillOpacity}"${hasFilters ? '\n    filter="url(#blur-filter)"' : ''}
   />`;
   
+  // Inside/outside strokes follow the offset outline, or keep one half of a
+  // double-width stroke when there is none; outside ones widen the canvas
+  const strokeOffset = includeBorder && state.borderEnabled ? getStrokeOffsetPath(state, precision) : null;
+  const strokeCut = includeBorder && state.borderEnabled ? getStrokeCut(state, strokeOffset) : null;
+  const padding = (strokeOffset && strokeOffset.offset > 0) || strokeCut === 'outside' ? state.strokeWidth : 0;
+  const strokeCutId = 'superellipse-stroke-cut';
+  const strokeCutDef = strokeCut === 'inside'
+    ? `  <clipPath id="${strokeCutId}">
+    <path d="${shapePath}" />
+  </clipPath>`
+    : strokeCut === 'outside'
+      ? `  <mask id="${strokeCutId}" maskUnits="userSpaceOnUse" x="${-padding}" y="${-padding}" width="${state.width + 2 * padding}" height="${state.height + 2 * padding}">
+    <rect x="${-padding}" y="${-padding}" width="${state.width + 2 * padding}" height="${state.height + 2 * padding}" fill="white" />
+    <path d="${shapePath}" fill="black" />
+  </mask>`
+      : '';
+  const strokeCutAttr = strokeCut === 'inside'
+    ? `\n    clip-path="url(#${strokeCutId})"`
+    : strokeCut === 'outside' ? `\n    mask="url(#${strokeCutId})"` : '';
+
   const borderPath = includeBorder && state.borderEnabled
     ? `  <path 
-    d="${pathData}" 
+    d="${strokeOffset ? strokeOffset.path : shapePath}" 
     fill="none" 
     stroke="${state.strokeColor}" 
-    stroke-width="${state.strokeWidth}" 
-    stroke-opacity="${state.strokeOpacity / 100}"${state.strokeStyle !== 'solid' ? `\n    stroke-dasharray="${state.strokeStyle === 'dashed' ? '8 4' : '2 2'}"` : ''}
+    stroke-width="${strokeCut ? state.strokeWidth * 2 : state.strokeWidth}" 
+    stroke-opacity="${state.strokeOpacity / 100}"${state.strokeStyle !== 'solid' ? `\n    stroke-dasharray="${state.strokeStyle === 'dashed' ? '8 4' : '2 2'}"` : ''}${strokeCutAttr}
   />`
     : '';
   
+  const defsBlock = defs || filterDef || strokeCutDef
+    ? `  <defs>\n${[defs, filterDef, strokeCutDef].filter(Boolean).join('\n')}\n  </defs>`
+    : '';
+  const body = [defsBlock, mainPath, glowLayer, noiseLayer, borderPath].filter(Boolean).join('\n');
+
   const svgContent = `<?xml version="1.0" encoding="UTF-8"?>
 <svg 
-  width="${state.width}" 
-  height="${state.height}" 
-  viewBox="0 0 ${state.width} ${state.height}" 
+  width="${state.width + 2 * padding}" 
+  height="${state.height + 2 * padding}" 
+  viewBox="${-padding} ${-padding} ${state.width + 2 * padding} ${state.height + 2 * padding}" 
   xmlns="http://www.w3.org/2000/svg"
   ${optimize ? '' : 'xmlns:xlink="http://www.w3.org/1999/xlink"'}
 >
-${defs || filterDef ? `  <defs>\n${defs}\n${filterDef}\n  </defs>` : ''}
-${mainPath}
-${borderPath}
+${body}
 </svg>`;
 
   return optimize 
@@ -525,6 +2433,39 @@ ${borderPath}
     : svgContent;
 }
 
+/**
+ * Download a blob through a temporary link
+ * @param blob - File contents
+ * @param filename - Output filename
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  
+  document.body.appendChild(link);
+  link.click();
+  
+  // Cleanup
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
+
+/**
+ * Download generated code or markup as a UTF-8 text file
+ * @param content - File contents
+ * @param filename - Output filename
+ * @param type - MIME type
+ */
+export function downloadTextFile(content: string, filename: string, type: string = 'text/plain'): void {
+  downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), filename);
+}
+
 /**
  * Download SVG file
  * @param state - Superellipse configuration
@@ -539,23 +2480,7 @@ export function downloadSVG(
   options: SVGOptions = {}
 ): void {
   try {
-    const svg = generateSVG(state, pathData, options);
-    const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    
-    link.href = url;
-    link.download = filename;
-    link.style.display = 'none';
-    
-    document.body.appendChild(link);
-    link.click();
-    
-    // Cleanup
-    setTimeout(() => {
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    }, 100);
+    downloadTextFile(generateSVG(state, pathData, options), filename, 'image/svg+xml');
   } catch (error) {
     console.error('Failed to download SVG:', error);
     throw new Error('SVG download failed');
@@ -585,11 +2510,11 @@ export async function downloadPNG(
         throw new Error('Failed to get canvas context');
       }
       
-      canvas.width = state.width * scale;
-      canvas.height = state.height * scale;
-      
       const img = new Image();
       img.onload = () => {
+        // Size from the SVG itself, which grows to fit outside strokes
+        canvas.width = img.width * scale;
+        canvas.height = img.height * scale;
         ctx.scale(scale, scale);
         ctx.drawImage(img, 0, 0);
         
@@ -618,3 +2543,324 @@ export async function downloadPNG(
     }
   });
 }
+
+// ============================================================================
+// MORPHING
+// ============================================================================
+
+/**
+ * Morph export options
+ */
+export interface MorphOptions {
+  duration?: number; // Seconds for one pass from the first state to the second
+  keyframes?: number; // Interpolated outlines, including both end states
+  pointCount?: number; // Points per outline, identical for every keyframe
+  precision?: number; // Decimal places for coordinates
+  easing?: string; // CSS timing function
+  name?: string; // Animation and class name
+}
+
+const MORPH_OUTLINE_OPTIONS: PathOptions = { steps: 1440, precision: 4 };
+const MORPH_CURVE_SEGMENTS = 16; // Chords per cubic or arc when flattening
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Mix two hex colors in sRGB
+ */
+function mixHexColors(from: string, to: string, t: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  if (!a || !b) return t < 0.5 ? from : to;
+  return rgbToHex(a.r + (b.r - a.r) * t, a.g + (b.g - a.g) * t, a.b + (b.b - a.b) * t).toUpperCase();
+}
+
+/**
+ * Interpolate a single state value: numbers and hex colors blend, hue takes
+ * the shorter way round, nested objects and arrays blend per entry, and
+ * anything else (modes, flags) switches halfway
+ */
+function interpolateValue(key: string, from: unknown, to: unknown, t: number): unknown {
+  if (typeof from === 'number' && typeof to === 'number') {
+    if (key === 'hue') {
+      const delta = ((((to - from) % 360) + 540) % 360) - 180;
+      return (from + delta * t + 360) % 360;
+    }
+    return from + (to - from) * t;
+  }
+  if (typeof from === 'string' && typeof to === 'string' && HEX_COLOR_PATTERN.test(from) && HEX_COLOR_PATTERN.test(to)) {
+    return mixHexColors(from, to, t);
+  }
+  if (Array.isArray(from) && Array.isArray(to) && from.length > 0 && to.length > 0) {
+    // Pad the shorter list with its last entry, e.g. gradient stops
+    const length = Math.max(from.length, to.length);
+    return Array.from({ length }, (_, i) =>
+      interpolateValue(key, from[Math.min(i, from.length - 1)], to[Math.min(i, to.length - 1)], t)
+    );
+  }
+  if (from && to && typeof from === 'object' && typeof to === 'object' && !Array.isArray(from) && !Array.isArray(to)) {
+    return interpolateState(from as Record<string, unknown>, to as Record<string, unknown>, t);
+  }
+  return t < 0.5 ? from : to;
+}
+
+/**
+ * Interpolate between two states at t ∈ [0, 1]. Exponent, size, colors and
+ * every other numeric setting blend; discrete settings switch at t = 0.5.
+ * @param from - State at t = 0
+ * @param to - State at t = 1
+ * @param t - Progress, clamped to [0, 1]
+ */
+export function interpolateState<T extends object>(from: T, to: T, t: number): T {
+  if (t <= 0) return from;
+  if (t >= 1) return to;
+
+  const source = from as Record<string, unknown>;
+  const target = to as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(source), ...Object.keys(target)])) {
+    result[key] = key in source && key in target
+      ? interpolateValue(key, source[key], target[key], t)
+      : (t < 0.5 ? source[key] : target[key]) ?? source[key] ?? target[key];
+  }
+  return result as T;
+}
+
+/**
+ * Flatten absolute M/L/C/A/Z path data into a polyline. Arcs are treated as
+ * circular (rx is used for both radii), which covers every generator here.
+ */
+function flattenPath(path: string): Point[] {
+  const tokens = path.match(/[MLCAZ]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const points: Point[] = [];
+  let command = '';
+  let i = 0;
+  const next = () => Number(tokens[i++]);
+  const last = () => points[points.length - 1];
+
+  while (i < tokens.length) {
+    if (/^[MLCAZ]$/i.test(tokens[i])) {
+      command = tokens[i++].toUpperCase();
+      if (command === 'Z') continue;
+    }
+
+    if (command === 'M' || command === 'L') {
+      points.push({ x: next(), y: next() });
+    } else if (command === 'C') {
+      const p0 = last();
+      const c1 = { x: next(), y: next() };
+      const c2 = { x: next(), y: next() };
+      const p3 = { x: next(), y: next() };
+      for (let k = 1; k <= MORPH_CURVE_SEGMENTS; k++) {
+        points.push(cubicPoint({ p0, c1, c2, p3 }, k / MORPH_CURVE_SEGMENTS));
+      }
+    } else if (command === 'A') {
+      const p0 = last();
+      const r = next();
+      i += 2; // ry and x-axis rotation
+      const largeArc = next() === 1;
+      const sweep = next() === 1;
+      const p1 = { x: next(), y: next() };
+
+      // Endpoint to centre conversion (SVG spec F.6.5) for a circle
+      const hx = (p0.x - p1.x) / 2;
+      const hy = (p0.y - p1.y) / 2;
+      const radius = Math.max(r, Math.hypot(hx, hy));
+      const root = Math.sqrt(Math.max(0, (radius * radius - hx * hx - hy * hy) / (hx * hx + hy * hy || 1)));
+      const sign = largeArc === sweep ? -1 : 1;
+      const cx = sign * root * hy + (p0.x + p1.x) / 2;
+      const cy = -sign * root * hx + (p0.y + p1.y) / 2;
+      const start = Math.atan2(p0.y - cy, p0.x - cx);
+      let delta = Math.atan2(p1.y - cy, p1.x - cx) - start;
+      if (sweep && delta < 0) delta += 2 * Math.PI;
+      if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+      for (let k = 1; k <= MORPH_CURVE_SEGMENTS; k++) {
+        const angle = start + (delta * k) / MORPH_CURVE_SEGMENTS;
+        points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+      }
+    } else {
+      i++;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Outline of a state as exactly `count` points, evenly spaced by arc length.
+ * Every outline starts where it crosses the horizontal ray to the right of
+ * the centre and runs clockwise, so points correspond across states.
+ */
+function getMorphOutline(state: SuperellipseState, count: number): Point[] {
+  const cx = state.width / 2;
+  const cy = state.height / 2;
+  const outline = flattenPath(getStatePath(state, MORPH_OUTLINE_OPTIONS));
+  if (outline.length > 1 && outline[0].x === outline[outline.length - 1].x && outline[0].y === outline[outline.length - 1].y) {
+    outline.pop();
+  }
+
+  // Clockwise on screen (y down) means a positive shoelace sum
+  let signedArea = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const p = outline[i];
+    const q = outline[(i + 1) % outline.length];
+    signedArea += p.x * q.y - q.x * p.y;
+  }
+  if (signedArea < 0) outline.reverse();
+
+  // Start at the rightmost crossing of y = cy
+  let startIndex = 0;
+  let start: Point = outline[0];
+  let bestX = -Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    const p = outline[i];
+    const q = outline[(i + 1) % outline.length];
+    if ((p.y - cy) * (q.y - cy) > 0 || p.y === q.y) continue;
+    const x = p.x + ((cy - p.y) / (q.y - p.y)) * (q.x - p.x);
+    if (x > cx && x > bestX) {
+      bestX = x;
+      startIndex = i + 1;
+      start = { x, y: cy };
+    }
+  }
+  const ring = [start, ...outline.slice(startIndex), ...outline.slice(0, startIndex), start];
+
+  const lengths = [0];
+  for (let i = 1; i < ring.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(ring[i].x - ring[i - 1].x, ring[i].y - ring[i - 1].y));
+  }
+  const total = lengths[lengths.length - 1];
+
+  const points: Point[] = [];
+  let segment = 1;
+  for (let k = 0; k < count; k++) {
+    const target = (k * total) / count;
+    while (segment < ring.length - 1 && lengths[segment] < target) segment++;
+    const span = lengths[segment] - lengths[segment - 1] || 1;
+    const u = (target - lengths[segment - 1]) / span;
+    const a = ring[segment - 1];
+    const b = ring[segment];
+    points.push({ x: a.x + (b.x - a.x) * u, y: a.y + (b.y - a.y) * u });
+  }
+  return points;
+}
+
+/**
+ * Keyframe states and outlines for a morph. Every outline has the same
+ * number of points, which CSS path() interpolation and SMIL both require.
+ * @param from - Start state
+ * @param to - End state
+ * @param options - Morph options
+ */
+export function getMorphKeyframes(
+  from: SuperellipseState,
+  to: SuperellipseState,
+  options: MorphOptions = {}
+): Array<{ offset: number; state: SuperellipseState; path: string }> {
+  const { keyframes = 11, pointCount = 120, precision = 2 } = options;
+  if (!Number.isInteger(keyframes) || keyframes < 2) {
+    throw new Error('Morph needs at least two keyframes');
+  }
+  if (!Number.isInteger(pointCount) || pointCount < 3) {
+    throw new Error('Morph point count must be an integer of at least 3');
+  }
+
+  return Array.from({ length: keyframes }, (_, k) => {
+    const offset = k / (keyframes - 1);
+    const state = interpolateState(from, to, offset);
+    const coords = getMorphOutline(state, pointCount)
+      .map(p => `${p.x.toFixed(precision)} ${p.y.toFixed(precision)}`);
+    return { offset, state, path: `M ${coords.join(' L ')} Z` };
+  });
+}
+
+/**
+ * Fill color used for a morph frame; gradients fall back to their first stop
+ */
+function getMorphFill(state: SuperellipseState): string {
+  return state.colorMode === 'solid' ? state.solidColor : state.gradientStops[0]?.color ?? state.solidColor;
+}
+
+/**
+ * Generate a CSS @keyframes block that morphs clip-path, size and color
+ * between two states, plus a class that plays it back and forth
+ * @param from - Start state
+ * @param to - End state
+ * @param options - Morph options
+ * @returns CSS code string
+ */
+export function generateMorphCSS(
+  from: SuperellipseState,
+  to: SuperellipseState,
+  options: MorphOptions = {}
+): string {
+  const { duration = 1, easing = 'ease-in-out', name = 'superellipse-morph' } = options;
+  const frames = getMorphKeyframes(from, to, options);
+  const animateColor = from.colorMode === 'solid' && to.colorMode === 'solid';
+
+  const lines: string[] = [`/* Superellipse Morph (${frames.length} keyframes) */`, `@keyframes ${name} {`];
+  for (const frame of frames) {
+    lines.push(`  ${Number((frame.offset * 100).toFixed(2))}% {`);
+    lines.push(`    width: ${Number(frame.state.width.toFixed(2))}px;`);
+    lines.push(`    height: ${Number(frame.state.height.toFixed(2))}px;`);
+    lines.push(`    clip-path: path('${frame.path}');`);
+    if (animateColor) lines.push(`    background-color: ${frame.state.solidColor};`);
+    lines.push(`  }`);
+  }
+  lines.push(`}`, '');
+  lines.push(`.${name} {`);
+  lines.push(`  animation: ${name} ${duration}s ${easing} infinite alternate;`);
+  lines.push(`}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate an SVG whose outline and fill morph between two states with
+ * SMIL <animate> elements, playing forwards then backwards
+ * @param from - Start state
+ * @param to - End state
+ * @param options - Morph options
+ * @returns Complete SVG markup
+ */
+export function generateMorphSVG(
+  from: SuperellipseState,
+  to: SuperellipseState,
+  options: MorphOptions = {}
+): string {
+  const { duration = 1 } = options;
+  const frames = getMorphKeyframes(from, to, options);
+  const width = Math.max(from.width, to.width);
+  const height = Math.max(from.height, to.height);
+
+  // Ping-pong: forwards then back, so one cycle takes twice the duration
+  const sequence = [...frames, ...frames.slice(0, -1).reverse()];
+  const keyTimes = sequence.map((_, i) => Number((i / (sequence.length - 1)).toFixed(4))).join(';');
+  const paths = sequence.map(frame => frame.path).join(';\n      ');
+  const fills = sequence.map(frame => getMorphFill(frame.state)).join(';');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg 
+  width="${width}" 
+  height="${height}" 
+  viewBox="0 0 ${width} ${height}" 
+  xmlns="http://www.w3.org/2000/svg"
+>
+  <path d="${frames[0].path}" fill="${getMorphFill(from)}">
+    <animate 
+      attributeName="d" 
+      dur="${duration * 2}s" 
+      repeatCount="indefinite" 
+      keyTimes="${keyTimes}" 
+      values="${paths}"
+    />
+    <animate 
+      attributeName="fill" 
+      dur="${duration * 2}s" 
+      repeatCount="indefinite" 
+      keyTimes="${keyTimes}" 
+      values="${fills}"
+    />
+  </path>
+</svg>`;
+}
@@ -0,0 +1,295 @@
+// ============================================================================
+// OKLAB / OKLCH COLOR SPACE
+// ============================================================================
+
+import { createInvalidHexError } from '@/lib/errors';
+import { hexToRgb, rgbToHex } from './colorPalette';
+
+/**
+ * OKLab color: lightness 0-1 and opponent axes a (green-red), b (blue-yellow)
+ */
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * OKLCH color: lightness 0-1, chroma (0 for greys, ~0.4 at most in
+ * practice) and hue in degrees, as in CSS `oklch()`
+ */
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * Gamma-encoded RGB with channels 0-1; out-of-gamut colors go past either end
+ */
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export type Gamut = 'srgb' | 'display-p3';
+
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+// Matrices from the CSS Color 4 sample code (D65 white)
+const XYZ_TO_LMS: Matrix3 = [
+  [0.8190224379967030, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_XYZ: Matrix3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.1122868032803170, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const LMS_TO_OKLAB: Matrix3 = [
+  [0.2104542683093140, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.4505937096174110],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+const OKLAB_TO_LMS: Matrix3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+
+/**
+ * RGB spaces colors can be mapped into: linear-light to XYZ and back.
+ * All of them use the sRGB transfer curve.
+ */
+const GAMUTS: Record<Gamut, { toXYZ: Matrix3; fromXYZ: Matrix3 }> = {
+  srgb: {
+    toXYZ: [
+      [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+      [87098 / 409605, 175762 / 245763, 12673 / 175545],
+      [7918 / 409605, 87881 / 737289, 1001167 / 1053270],
+    ],
+    fromXYZ: [
+      [12831 / 3959, -329 / 214, -1974 / 3959],
+      [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+      [705 / 12673, -2585 / 12673, 705 / 667],
+    ],
+  },
+  'display-p3': {
+    toXYZ: [
+      [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+      [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+      [0, 32229 / 714400, 5220557 / 5000800],
+    ],
+    fromXYZ: [
+      [446124 / 178915, -333277 / 357830, -72051 / 178915],
+      [-14852 / 17905, 63121 / 35810, 423 / 17905],
+      [11844 / 330415, -50337 / 660830, 316169 / 330415],
+    ],
+  },
+};
+
+/** Distance in OKLab below which two colors look the same (CSS Color 4) */
+export const GAMUT_MAPPING_JND = 0.02;
+const GAMUT_MAPPING_EPSILON = 0.0001;
+// Tolerance for rounding in the matrices when testing gamut membership
+const GAMUT_EPSILON = 0.000075;
+
+const multiply = (m: Matrix3, [x, y, z]: Vector3): Vector3 => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+];
+
+// ============================================================================
+// CONVERSIONS
+// ============================================================================
+
+/**
+ * sRGB transfer curve, extended to negative values by symmetry
+ */
+export function srgbToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Inverse of srgbToLinear
+ */
+export function linearToSrgb(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.0031308 ? value * 12.92 : Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+export function oklabToOklch({ l, a, b }: OKLab): OKLCH {
+  const c = Math.hypot(a, b);
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { l, c, h: h < 0 ? h + 360 : h };
+}
+
+export function oklchToOklab({ l, c, h }: OKLCH): OKLab {
+  const radians = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(radians), b: c * Math.sin(radians) };
+}
+
+/**
+ * Convert a gamma-encoded RGB color in the given space to OKLab
+ */
+export function rgbToOklab({ r, g, b }: RGBColor, gamut: Gamut = 'srgb'): OKLab {
+  const xyz = multiply(GAMUTS[gamut].toXYZ, [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)]);
+  const lms = multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Vector3;
+  const [l, a, bAxis] = multiply(LMS_TO_OKLAB, lms);
+  return { l, a, b: bAxis };
+}
+
+/**
+ * Convert OKLab to gamma-encoded RGB in the given space. Nothing is
+ * clipped: out-of-gamut colors have channels outside 0-1.
+ */
+export function oklabToRgb({ l, a, b }: OKLab, gamut: Gamut = 'srgb'): RGBColor {
+  const lms = multiply(OKLAB_TO_LMS, [l, a, b]).map(v => v * v * v) as Vector3;
+  const [r, g, bChannel] = multiply(GAMUTS[gamut].fromXYZ, multiply(LMS_TO_XYZ, lms)).map(linearToSrgb);
+  return { r, g, b: bChannel };
+}
+
+export function oklchToRgb(color: OKLCH, gamut: Gamut = 'srgb'): RGBColor {
+  return oklabToRgb(oklchToOklab(color), gamut);
+}
+
+export function rgbToOklch(color: RGBColor, gamut: Gamut = 'srgb'): OKLCH {
+  return oklabToOklch(rgbToOklab(color, gamut));
+}
+
+/**
+ * Convert a hex color to OKLCH. Greys come out with zero chroma and hue.
+ * @throws ValidationError if hex color is invalid
+ */
+export function hexToOklch(hex: string): OKLCH {
+  const rgb = hexToRgb(hex);
+  if (!rgb) {
+    throw createInvalidHexError(hex);
+  }
+
+  const color = rgbToOklch({ r: rgb.r / 255, g: rgb.g / 255, b: rgb.b / 255 });
+  // Matrix rounding leaves greys with a tiny chroma and a meaningless hue
+  return color.c < GAMUT_EPSILON ? { l: color.l, c: 0, h: 0 } : color;
+}
+
+/**
+ * Convert OKLCH to a hex color, gamut mapping it into sRGB first so the
+ * hex is the color browsers render for the same `oklch()`
+ */
+export function oklchToHex(color: OKLCH): string {
+  const { r, g, b } = gamutMapOklch(color);
+  return rgbToHex(r * 255, g * 255, b * 255);
+}
+
+// ============================================================================
+// GAMUT MAPPING
+// ============================================================================
+
+/**
+ * Perceptual distance between two colors (Euclidean in OKLab)
+ */
+export function deltaEOK(first: OKLCH, second: OKLCH): number {
+  const a = oklchToOklab(first);
+  const b = oklchToOklab(second);
+  return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+}
+
+/**
+ * Whether an OKLCH color can be shown in the given RGB space
+ */
+export function isInGamut(color: OKLCH, gamut: Gamut = 'srgb'): boolean {
+  const { r, g, b } = oklchToRgb(color, gamut);
+  return [r, g, b].every(v => v >= -GAMUT_EPSILON && v <= 1 + GAMUT_EPSILON);
+}
+
+function clip({ r, g, b }: RGBColor): RGBColor {
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return { r: clamp(r), g: clamp(g), b: clamp(b) };
+}
+
+/**
+ * Bring an OKLCH color into an RGB space with the CSS Color 4 gamut mapping
+ * algorithm: keep lightness and hue and reduce chroma until clipping the
+ * result changes it by less than a just-noticeable difference.
+ * @returns Gamma-encoded channels 0-1 in the target space
+ */
+export function gamutMapOklch(color: OKLCH, gamut: Gamut = 'srgb'): RGBColor {
+  if (color.l >= 1) return { r: 1, g: 1, b: 1 };
+  if (color.l <= 0) return { r: 0, g: 0, b: 0 };
+  if (isInGamut(color, gamut)) return clip(oklchToRgb(color, gamut));
+
+  const distanceToClip = (current: OKLCH) => {
+    const clipped = clip(oklchToRgb(current, gamut));
+    return { clipped, delta: deltaEOK(rgbToOklch(clipped, gamut), current) };
+  };
+
+  let { clipped, delta } = distanceToClip(color);
+  if (delta < GAMUT_MAPPING_JND) return clipped;
+
+  let min = 0;
+  let max = color.c;
+  let minInGamut = true;
+  while (max - min > GAMUT_MAPPING_EPSILON) {
+    const current = { ...color, c: (min + max) / 2 };
+    if (minInGamut && isInGamut(current, gamut)) {
+      min = current.c;
+      continue;
+    }
+    ({ clipped, delta } = distanceToClip(current));
+    if (delta < GAMUT_MAPPING_JND) {
+      if (GAMUT_MAPPING_JND - delta < GAMUT_MAPPING_EPSILON) return clipped;
+      minInGamut = false;
+      min = current.c;
+    } else {
+      max = current.c;
+    }
+  }
+  return clipped;
+}
+
+/**
+ * Largest chroma at a lightness and hue that stays inside the gamut
+ * @param limit - Highest chroma to consider
+ */
+export function getMaxChroma(l: number, h: number, gamut: Gamut = 'srgb', limit: number = 0.4): number {
+  if (l <= 0 || l >= 1) return 0;
+  if (isInGamut({ l, c: limit, h }, gamut)) return limit;
+
+  let min = 0;
+  let max = limit;
+  while (max - min > GAMUT_MAPPING_EPSILON) {
+    const c = (min + max) / 2;
+    if (isInGamut({ l, c, h }, gamut)) min = c;
+    else max = c;
+  }
+  return min;
+}
+
+// ============================================================================
+// CSS OUTPUT
+// ============================================================================
+
+const fixed = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * CSS `oklch()` with lightness as a percentage, e.g. `oklch(78% 0.18 40)`
+ */
+export function formatOklch({ l, c, h }: OKLCH): string {
+  return `oklch(${fixed(l * 100, 2)}% ${fixed(c, 4)} ${fixed(h, 2)})`;
+}
+
+/**
+ * CSS `color(display-p3 r g b)`, gamut mapped into P3
+ */
+export function formatDisplayP3(color: OKLCH): string {
+  const { r, g, b } = gamutMapOklch(color, 'display-p3');
+  return `color(display-p3 ${fixed(r, 4)} ${fixed(g, 4)} ${fixed(b, 4)})`;
+}
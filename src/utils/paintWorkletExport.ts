@@ -0,0 +1,234 @@
+// ============================================================================
+// CSS PAINT WORKLET EXPORT
+// ============================================================================
+
+import {
+  SuperellipseState,
+  CornerBlendCurve,
+  CornerExponents,
+  getGradientBackground,
+  getResponsiveMask,
+  getStateShapeParams,
+} from './math';
+
+/**
+ * Paint worklet export options
+ */
+export interface PaintWorkletOptions {
+  workletUrl?: string; // Where the page serves the worklet module
+  steps?: number; // Outline samples per turn
+}
+
+export const PAINT_WORKLET_NAME = 'superellipse';
+export const PAINT_WORKLET_FILENAME = 'superellipse.worklet.js';
+
+// Worklet sources of the blend curves in math.ts
+const CORNER_BLEND_SOURCES: Record<CornerBlendCurve, string> = {
+  linear: 's => s',
+  smoothstep: 's => s * s * (3 - 2 * s)',
+  cosine: 's => (1 - Math.cos(Math.PI * s)) / 2',
+};
+
+/**
+ * Custom properties per corner, in the order their diagonals appear as t
+ * increases (y down), like getExponentForAngle
+ */
+const CORNER_PROPERTIES: [keyof CornerExponents, string][] = [
+  ['bottomRight', '--se-exp-bottom-right'],
+  ['bottomLeft', '--se-exp-bottom-left'],
+  ['topLeft', '--se-exp-top-left'],
+  ['topRight', '--se-exp-top-right'],
+];
+
+const num = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Whether the worklet can draw the state: it only knows Lamé curves with
+ * per-corner exponents, not smooth corners, superformulas or corner radii
+ */
+export function supportsPaintWorklet(state: SuperellipseState): boolean {
+  return getStateShapeParams(state) !== null;
+}
+
+// ============================================================================
+// WORKLET
+// ============================================================================
+
+/**
+ * Generate a `registerPaint('superellipse')` module. The painter mirrors
+ * getSuperellipsePath and getAsymmetricSuperellipsePath: it samples the
+ * outline uniformly over t, blending the corner exponents around the axes.
+ * It reads `--se-exp`, `--se-color`, `--se-smoothing` and
+ * `--se-exp-{top-left,top-right,bottom-right,bottom-left}`, falling back to
+ * the exported state for anything unset.
+ * @param state - Superellipse configuration that sets the defaults
+ * @param options - Worklet options
+ * @returns Worklet module source
+ */
+export function generatePaintWorklet(state: SuperellipseState, options: PaintWorkletOptions = {}): string {
+  const { workletUrl = PAINT_WORKLET_FILENAME, steps = 360 } = options;
+
+  return `// Superellipse paint worklet
+// if ('paintWorklet' in CSS) CSS.paintWorklet.addModule('${workletUrl}');
+
+const STEPS = ${steps};
+const DEFAULT_EXP = ${state.exp};
+const DEFAULT_SMOOTHING = ${state.smoothing};
+const DEFAULT_COLOR = '${state.solidColor}';
+const blend = ${CORNER_BLEND_SOURCES[state.cornerBlend]}; // ${state.cornerBlend}
+
+// Corners in the order their diagonals appear as t increases (y down)
+const CORNER_PROPERTIES = ${JSON.stringify(CORNER_PROPERTIES.map(([, property]) => property))};
+
+function readNumber(value, fallback) {
+  const parsed = parseFloat(String(value == null ? '' : value));
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Exponent at angle t: each corner owns the quadrant around its diagonal and
+ * neighbours blend across each axis over a zone set by smoothing
+ */
+function exponentForAngle(angle, exps, smoothing) {
+  const quarter = Math.PI / 2;
+  const t = ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  const axisIndex = Math.round(t / quarter) % 4;
+  const offset = t - Math.round(t / quarter) * quarter;
+  const before = exps[(axisIndex + 3) % 4];
+  const after = exps[axisIndex];
+  const halfWidth = Math.max(0, Math.min(1, smoothing)) * (Math.PI / 4);
+  if (halfWidth === 0) return offset < 0 ? before : after;
+  const s = Math.max(0, Math.min(1, (offset + halfWidth) / (2 * halfWidth)));
+  return before + (after - before) * blend(s);
+}
+
+function superellipsePoint(a, b, n, t) {
+  let cosT = Math.cos(t);
+  let sinT = Math.sin(t);
+  if (Math.abs(cosT) < 1e-12) cosT = 0;
+  if (Math.abs(sinT) < 1e-12) sinT = 0;
+  return [
+    a * Math.sign(cosT) * Math.pow(Math.abs(cosT), 2 / n),
+    b * Math.sign(sinT) * Math.pow(Math.abs(sinT), 2 / n),
+  ];
+}
+
+class SuperellipsePainter {
+  static get inputProperties() {
+    return ['--se-exp', '--se-color', '--se-smoothing', ...CORNER_PROPERTIES];
+  }
+
+  paint(ctx, size, props) {
+    const n = readNumber(props.get('--se-exp'), DEFAULT_EXP);
+    const exps = CORNER_PROPERTIES.map(name => readNumber(props.get(name), n));
+    const smoothing = readNumber(props.get('--se-smoothing'), DEFAULT_SMOOTHING);
+    const color = String(props.get('--se-color') || '').trim() || DEFAULT_COLOR;
+    const a = size.width / 2;
+    const b = size.height / 2;
+
+    ctx.beginPath();
+    for (let i = 0; i <= STEPS; i++) {
+      const t = (i * 2 * Math.PI) / STEPS;
+      const [x, y] = superellipsePoint(a, b, Math.max(0.5, exponentForAngle(t, exps, smoothing)), t);
+      if (i === 0) ctx.moveTo(x + a, y + b);
+      else ctx.lineTo(x + a, y + b);
+    }
+    ctx.closePath();
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+}
+
+registerPaint('${PAINT_WORKLET_NAME}', SuperellipsePainter);
+`;
+}
+
+// ============================================================================
+// CSS
+// ============================================================================
+
+/**
+ * Generate CSS that masks `.superellipse` with the paint worklet. The custom
+ * properties are registered so they transition and animate; browsers without
+ * paint worklets keep a static mask of the exported outline. Shapes the
+ * worklet cannot draw get the static mask only.
+ * @param state - Superellipse configuration
+ * @param pathData - SVG path data for the fallback mask
+ * @param options - Worklet options
+ * @returns CSS code string
+ */
+export function generatePaintWorkletCSS(
+  state: SuperellipseState,
+  pathData: string,
+  options: PaintWorkletOptions = {}
+): string {
+  const { workletUrl = PAINT_WORKLET_FILENAME } = options;
+  const corners = state.useAsymmetricCorners ? state.cornerExponents : null;
+  const fallbackMask = getResponsiveMask(state, pathData);
+  const background = [
+    state.colorMode === 'solid'
+      ? `  background-color: ${state.solidColor};`
+      : `  background: ${getGradientBackground(state)};`,
+    ...(state.colorMode === 'solid' && state.solidOpacity < 100 ? [`  opacity: ${state.solidOpacity / 100};`] : []),
+  ];
+
+  if (!supportsPaintWorklet(state)) {
+    return [
+      `/* The paint worklet only draws exponent superellipses, so this shape`,
+      `   uses a static mask of the exported outline, stretched to the element */`,
+      `.superellipse {`,
+      `  width: ${state.width}px;`,
+      `  height: ${state.height}px;`,
+      ...background,
+      `  -webkit-mask: ${fallbackMask};`,
+      `  mask: ${fallbackMask};`,
+      `}`,
+    ].join('\n');
+  }
+
+  const register = (name: string, syntax: string, initial: string | number) =>
+    `@property ${name} {\n  syntax: '${syntax}';\n  inherits: false;\n  initial-value: ${initial};\n}`;
+
+  const lines = [
+    `/* Superellipse drawn by a CSS Paint Worklet: it redraws as the element resizes`,
+    `   and as --se-* properties change. Load the worklet once:`,
+    `   if ('paintWorklet' in CSS) CSS.paintWorklet.addModule('${workletUrl}'); */`,
+    ``,
+    register('--se-exp', '<number>', state.exp),
+    ...CORNER_PROPERTIES.map(([corner, property]) =>
+      register(property, '<number>', corners ? corners[corner] : state.exp)
+    ),
+    register('--se-smoothing', '<number>', state.smoothing),
+    register('--se-color', '<color>', state.solidColor),
+    ``,
+    `.superellipse {`,
+    `  width: ${state.width}px;`,
+    `  height: ${state.height}px;`,
+    `  --se-exp: ${state.exp};`,
+    // Corners follow --se-exp unless set on their own
+    ...CORNER_PROPERTIES.map(([corner, property]) =>
+      `  ${property}: ${corners ? num(corners[corner]) : 'var(--se-exp)'};`
+    ),
+    `  --se-smoothing: ${state.smoothing};`,
+    `  --se-color: ${state.solidColor}; /* Only its alpha matters in a mask */`,
+    ...background,
+    `  transition: --se-exp 0.3s ease;`,
+    `  /* Fallback: the exported outline, stretched to the element */`,
+    `  -webkit-mask: ${fallbackMask};`,
+    `  mask: ${fallbackMask};`,
+    `}`,
+    ``,
+    `@supports (mask-image: paint(${PAINT_WORKLET_NAME})) {`,
+    `  .superellipse {`,
+    `    -webkit-mask: none;`,
+    `    mask: none;`,
+    `    -webkit-mask-image: paint(${PAINT_WORKLET_NAME});`,
+    `    mask-image: paint(${PAINT_WORKLET_NAME});`,
+    `  }`,
+    `}`,
+    ``,
+    `/* Paint the shape itself instead of masking: background-image: paint(${PAINT_WORKLET_NAME}); */`,
+  ];
+
+  return lines.join('\n');
+}
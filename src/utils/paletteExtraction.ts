@@ -0,0 +1,223 @@
+// ============================================================================
+// PALETTE EXTRACTION
+// ============================================================================
+
+import { createInvalidImageError } from '@/lib/errors';
+import type { GradientStop } from './math';
+import { OKLab, OKLCH, rgbToOklab, oklabToOklch, oklchToHex } from './oklch';
+
+/**
+ * Dominant color of an image
+ */
+export interface PaletteColor {
+  hex: string;
+  oklch: OKLCH;
+  weight: number; // Share of the opaque pixels, 0-1
+}
+
+/**
+ * Palette extraction options
+ */
+export interface PaletteOptions {
+  count?: number; // Colors to find at most
+  iterations?: number; // k-means rounds at most
+}
+
+// Pixels more transparent than this are background, not content
+const MIN_ALPHA = 128;
+// Images are scaled down before sampling; dominant colors survive it
+const MAX_SAMPLE_SIZE = 200;
+
+interface WeightedPoint {
+  lab: OKLab;
+  weight: number;
+}
+
+const distance2 = (p: OKLab, q: OKLab) => (p.l - q.l) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2;
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+/**
+ * Count each opaque color once, so k-means runs over distinct colors
+ * weighted by how often they appear
+ */
+function getWeightedColors(pixels: ArrayLike<number>): WeightedPoint[] {
+  const counts = new Map<number, number>();
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue;
+    const key = (pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2];
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([key, weight]) => ({
+    lab: rgbToOklab({ r: ((key >> 16) & 255) / 255, g: ((key >> 8) & 255) / 255, b: (key & 255) / 255 }),
+    weight,
+  }));
+}
+
+/**
+ * Deterministic k-means++ seeding: start from the most common color, then
+ * repeatedly take the color with the most weight far from every centre
+ */
+function seedCentres(points: WeightedPoint[], count: number): OKLab[] {
+  const heaviest = points.reduce((best, point) => (point.weight > best.weight ? point : best));
+  const centres = [heaviest.lab];
+  const nearest = points.map(point => distance2(point.lab, heaviest.lab));
+
+  while (centres.length < count) {
+    let pick = -1;
+    let score = 0;
+    nearest.forEach((d, i) => {
+      if (d * points[i].weight > score) {
+        score = d * points[i].weight;
+        pick = i;
+      }
+    });
+    // Fewer distinct colors than requested
+    if (pick < 0) break;
+
+    const centre = points[pick].lab;
+    centres.push(centre);
+    points.forEach((point, i) => {
+      nearest[i] = Math.min(nearest[i], distance2(point.lab, centre));
+    });
+  }
+  return centres;
+}
+
+/**
+ * Find the dominant colors of RGBA pixel data with weighted k-means in
+ * OKLab, so clusters follow perceived rather than RGB differences.
+ * Transparent pixels are ignored.
+ * @param pixels - RGBA bytes, e.g. `ImageData.data`
+ * @returns Colors by weight, most common first; empty with no opaque pixels
+ */
+export function extractPalette(pixels: ArrayLike<number>, options: PaletteOptions = {}): PaletteColor[] {
+  const { count = 5, iterations = 20 } = options;
+  const points = getWeightedColors(pixels);
+  if (points.length === 0 || count < 1) return [];
+
+  let centres = seedCentres(points, count);
+  const assignment = new Int32Array(points.length).fill(-1);
+  let totals: { l: number; a: number; b: number; weight: number }[] = [];
+
+  for (let round = 0; round < iterations; round++) {
+    let changed = false;
+    points.forEach((point, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centres.forEach((centre, c) => {
+        const d = distance2(point.lab, centre);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      });
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    });
+
+    totals = centres.map(() => ({ l: 0, a: 0, b: 0, weight: 0 }));
+    points.forEach((point, i) => {
+      const total = totals[assignment[i]];
+      total.l += point.lab.l * point.weight;
+      total.a += point.lab.a * point.weight;
+      total.b += point.lab.b * point.weight;
+      total.weight += point.weight;
+    });
+    // An emptied cluster keeps its centre and picks points up again later
+    centres = centres.map((centre, c) => {
+      const { l, a, b, weight } = totals[c];
+      return weight > 0 ? { l: l / weight, a: a / weight, b: b / weight } : centre;
+    });
+
+    if (!changed) break;
+  }
+
+  const pixelCount = points.reduce((sum, point) => sum + point.weight, 0);
+  return centres
+    .map((centre, c) => {
+      const oklch = oklabToOklch(centre);
+      return { hex: oklchToHex(oklch).toUpperCase(), oklch, weight: totals[c].weight / pixelCount };
+    })
+    .filter(color => color.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Evenly spaced gradient stops from dark to light
+ */
+export function paletteToGradientStops(colors: PaletteColor[]): GradientStop[] {
+  const sorted = [...colors].sort((a, b) => a.oklch.l - b.oklch.l);
+  if (sorted.length === 1) sorted.push(sorted[0]);
+  return sorted.map((color, i) => ({
+    color: color.hex,
+    position: Math.round((i / (sorted.length - 1)) * 100),
+  }));
+}
+
+/**
+ * Glow hue, chroma and lightness (percent) for a palette color, at the
+ * precision the glow sliders keep
+ */
+export function paletteColorToGlow(color: PaletteColor): { hue: number; chroma: number; lightness: number } {
+  const chroma = Number(color.oklch.c.toFixed(4));
+  return {
+    // Greys have no hue of their own
+    hue: chroma === 0 ? 0 : Number(color.oklch.h.toFixed(2)),
+    chroma,
+    lightness: Number((color.oklch.l * 100).toFixed(2)),
+  };
+}
+
+// ============================================================================
+// IMAGE LOADING
+// ============================================================================
+
+/**
+ * Decode an image file and read its pixels from a canvas, scaled down to at
+ * most MAX_SAMPLE_SIZE px. Everything stays in the browser; nothing is uploaded.
+ * @throws ValidationError when the file cannot be decoded
+ */
+export async function readImagePixels(file: File, maxSize: number = MAX_SAMPLE_SIZE): Promise<Uint8ClampedArray> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    throw createInvalidImageError(file.name, error as Error);
+  }
+
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw createInvalidImageError(file.name, new Error('Canvas context not available'));
+
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Dominant colors of an image file
+ * @throws ValidationError when the file cannot be decoded or is fully transparent
+ */
+export async function extractImagePalette(file: File, options: PaletteOptions = {}): Promise<PaletteColor[]> {
+  const palette = extractPalette(await readImagePixels(file), options);
+  if (palette.length === 0) {
+    throw createInvalidImageError(file.name, new Error('No opaque pixels'));
+  }
+  return palette;
+}
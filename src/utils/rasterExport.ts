@@ -0,0 +1,265 @@
+// ============================================================================
+// BATCH RASTER EXPORT
+// ============================================================================
+
+import {
+  createImageFormatError,
+  createInvalidFilenamePatternError,
+  createPngExportError,
+} from '@/lib/errors';
+import { SuperellipseState, generateSVG, downloadBlob } from './math';
+import { createZip } from './zip';
+
+export type RasterFormat = 'png' | 'webp' | 'avif';
+
+export const RASTER_FORMATS: Record<RasterFormat, { label: string; mime: string }> = {
+  png: { label: 'PNG', mime: 'image/png' },
+  webp: { label: 'WebP', mime: 'image/webp' },
+  avif: { label: 'AVIF', mime: 'image/avif' },
+};
+
+export type RasterGroup = 'scale' | 'ios' | 'android' | 'favicon';
+
+/**
+ * One output size: a multiple of the shape's own size, or a square icon
+ * with the shape fitted and centred
+ */
+export interface RasterTarget {
+  group: RasterGroup;
+  label: string;
+  scale?: number;
+  size?: number;
+}
+
+const icons = (group: RasterGroup, sizes: [string, number][]): RasterTarget[] =>
+  sizes.map(([label, size]) => ({ group, label, size }));
+
+export const RASTER_GROUPS: Record<RasterGroup, { label: string; targets: RasterTarget[] }> = {
+  scale: {
+    label: '1x / 2x / 3x',
+    targets: [1, 2, 3].map(scale => ({ group: 'scale', label: `${scale}x`, scale })),
+  },
+  ios: {
+    label: 'iOS',
+    targets: icons('ios', [
+      ['20@2x', 40], ['20@3x', 60],
+      ['29@2x', 58], ['29@3x', 87],
+      ['40@2x', 80], ['40@3x', 120],
+      ['60@2x', 120], ['60@3x', 180],
+      ['76@2x', 152], ['83.5@2x', 167],
+      ['marketing', 1024],
+    ]),
+  },
+  android: {
+    label: 'Android',
+    targets: icons('android', [
+      ['mdpi', 48], ['hdpi', 72], ['xhdpi', 96], ['xxhdpi', 144], ['xxxhdpi', 192], ['play-store', 512],
+    ]),
+  },
+  favicon: {
+    label: 'Favicon',
+    targets: icons('favicon', [
+      ['16', 16], ['32', 32], ['48', 48], ['apple-touch', 180], ['192', 192], ['512', 512],
+    ]),
+  },
+};
+
+/**
+ * Tokens: {name}, {group}, {label}, {width}, {height}, {format} and {ext}.
+ * `/` makes folders inside the zip.
+ */
+export const DEFAULT_FILENAME_PATTERN = '{group}/{name}-{label}.{ext}';
+
+const PATTERN_TOKENS = ['name', 'group', 'label', 'width', 'height', 'format', 'ext'] as const;
+const UNSAFE_FILENAME_CHARS = /[<>:"\\|?*]/g;
+const MAX_RASTER_SIZE = 8192; // Larger canvases fail in some browsers
+const ENCODER_QUALITY = 0.92;
+
+/**
+ * File planned by a batch export
+ */
+export interface RasterFile {
+  filename: string;
+  target: RasterTarget;
+  format: RasterFormat;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Pixel size of the exported SVG, which grows to fit outside strokes
+ */
+export function getSVGSize(svg: string): { width: number; height: number } {
+  const match = /<svg\s[^>]*?width="([\d.]+)"\s+height="([\d.]+)"/.exec(svg);
+  if (!match) throw createPngExportError(new Error('SVG has no size'));
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+/**
+ * Canvas size of a target for a source of the given size
+ */
+export function getRasterSize(target: RasterTarget, width: number, height: number): { width: number; height: number } {
+  if (target.size !== undefined) return { width: target.size, height: target.size };
+  const scale = target.scale ?? 1;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Fill a file name pattern. Unknown tokens, empty segments and `..` are
+ * rejected; characters file systems refuse are replaced with `-`.
+ * @throws ValidationError when the pattern cannot produce a safe path
+ */
+export function formatRasterFilename(pattern: string, values: Record<(typeof PATTERN_TOKENS)[number], string>): string {
+  const name = pattern.replace(/\{([^}]*)\}/g, (token, key: string) => {
+    if (!(PATTERN_TOKENS as readonly string[]).includes(key)) {
+      throw createInvalidFilenamePatternError(pattern, `unknown token ${token}`);
+    }
+    return values[key as (typeof PATTERN_TOKENS)[number]];
+  });
+
+  // Control characters are refused too
+  const safe = Array.from(name, char => (char < ' ' ? '-' : char)).join('').replace(UNSAFE_FILENAME_CHARS, '-');
+  const segments = safe.split('/').map(segment => segment.trim());
+  if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw createInvalidFilenamePatternError(pattern, 'empty or relative folder names');
+  }
+  return segments.join('/');
+}
+
+/**
+ * Every file of a batch: one per target and format, named by the pattern.
+ * Names the pattern does not tell apart are numbered.
+ * @throws ValidationError for invalid patterns or oversized targets
+ */
+export function getRasterFiles(
+  targets: RasterTarget[],
+  formats: RasterFormat[],
+  size: { width: number; height: number },
+  pattern: string = DEFAULT_FILENAME_PATTERN,
+  name: string = 'superellipse'
+): RasterFile[] {
+  const used = new Map<string, number>();
+
+  return targets.flatMap(target => formats.map(format => {
+    const { width, height } = getRasterSize(target, size.width, size.height);
+    if (width > MAX_RASTER_SIZE || height > MAX_RASTER_SIZE) {
+      throw createPngExportError(new Error(`${target.label} is larger than ${MAX_RASTER_SIZE}px`));
+    }
+
+    let filename = formatRasterFilename(pattern, {
+      name,
+      group: target.group,
+      label: target.label,
+      width: String(width),
+      height: String(height),
+      format,
+      ext: format,
+    });
+    const count = (used.get(filename) ?? 0) + 1;
+    used.set(filename, count);
+    if (count > 1) {
+      filename = filename.replace(/(\.[^./]+)?$/, ext => `-${count}${ext}`);
+    }
+
+    return { filename, target, format, width, height };
+  }));
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+function canvasToBlob(canvas: HTMLCanvasElement, mime: string): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, mime, ENCODER_QUALITY));
+}
+
+/**
+ * Formats the browser's canvas encoder can write. Unsupported types fall
+ * back to PNG, so the blob type tells them apart.
+ */
+export async function getSupportedRasterFormats(): Promise<Record<RasterFormat, boolean>> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+
+  const entries = await Promise.all((Object.keys(RASTER_FORMATS) as RasterFormat[]).map(async format => {
+    try {
+      const blob = await canvasToBlob(canvas, RASTER_FORMATS[format].mime);
+      return [format, blob?.type === RASTER_FORMATS[format].mime] as const;
+    } catch {
+      return [format, false] as const;
+    }
+  }));
+  return Object.fromEntries(entries) as Record<RasterFormat, boolean>;
+}
+
+function loadSVGImage(svg: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load SVG image'));
+    img.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(svg)));
+  });
+}
+
+/**
+ * Render every planned file from the exported SVG. The SVG is drawn at each
+ * target size rather than scaled from one bitmap, so small icons stay sharp.
+ * @param onProgress - Called with the number of files done so far
+ * @throws ExportError when a format cannot be encoded or a canvas fails
+ */
+export async function renderRasterFiles(
+  state: SuperellipseState,
+  pathData: string,
+  files: RasterFile[],
+  onProgress?: (done: number) => void
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const svg = generateSVG(state, pathData);
+  const source = getSVGSize(svg);
+  const img = await loadSVGImage(svg);
+  const canvas = document.createElement('canvas');
+  const results: { name: string; data: Uint8Array }[] = [];
+
+  for (const file of files) {
+    canvas.width = file.width;
+    canvas.height = file.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw createPngExportError(new Error('Canvas context not available'));
+
+    // Icons fit the shape into the square and centre it
+    const fit = Math.min(file.width / source.width, file.height / source.height);
+    const w = source.width * fit;
+    const h = source.height * fit;
+    ctx.clearRect(0, 0, file.width, file.height);
+    ctx.drawImage(img, (file.width - w) / 2, (file.height - h) / 2, w, h);
+
+    const { mime } = RASTER_FORMATS[file.format];
+    const blob = await canvasToBlob(canvas, mime);
+    if (!blob) throw createPngExportError(new Error(`Blob creation failed for ${file.filename}`));
+    if (blob.type !== mime) throw createImageFormatError(file.format);
+
+    results.push({ name: file.filename, data: new Uint8Array(await blob.arrayBuffer()) });
+    onProgress?.(results.length);
+  }
+
+  return results;
+}
+
+/**
+ * Render a batch and download it as one zip archive
+ * @param zipName - Archive file name
+ */
+export async function downloadRasterZip(
+  state: SuperellipseState,
+  pathData: string,
+  files: RasterFile[],
+  zipName: string = 'superellipse-images.zip',
+  onProgress?: (done: number) => void
+): Promise<void> {
+  const entries = await renderRasterFiles(state, pathData, files, onProgress);
+  downloadBlob(new Blob([createZip(entries)], { type: 'application/zip' }), zipName);
+}
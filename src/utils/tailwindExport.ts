@@ -0,0 +1,215 @@
+// ============================================================================
+// TAILWIND PLUGIN EXPORT
+// ============================================================================
+
+import {
+  SuperellipseState,
+  getExportGlow,
+  getGradientBackground,
+  getStatePath,
+  getSuperellipsePath,
+  getSvgMaskImage,
+} from './math';
+import { getEmbeddedPathFunction } from './componentExport';
+
+/**
+ * Named state exported as a utility and a glow color
+ */
+export interface TailwindPreset {
+  name: string;
+  state: SuperellipseState;
+}
+
+/**
+ * Class produced by the plugin, with the declarations it applies
+ */
+export interface TailwindClass {
+  className: string;
+  description: string;
+  style: Record<string, string>;
+}
+
+// Exponent utilities draw a unit outline and stretch it over the element
+const MASK_BOX = 100;
+const MASK_STEPS = 96;
+
+/**
+ * Exponent for each size keyword: larger sizes round the corners more
+ */
+export const SQUIRCLE_SIZES: Record<string, number> = {
+  sm: 8,
+  md: 5,
+  lg: 4,
+  xl: 3,
+};
+
+const PRESET_PATH_OPTIONS = { sampling: 'adaptive' as const, maxChordError: 0.5, precision: 1 };
+
+/**
+ * Mask declarations, with the prefixed ones WebKit still needs
+ */
+function getMaskStyle(path: string, w: number, h: number): Record<string, string> {
+  const image = getSvgMaskImage(path, w, h);
+  return {
+    WebkitMaskImage: image,
+    maskImage: image,
+    WebkitMaskSize: '100% 100%',
+    maskSize: '100% 100%',
+    WebkitMaskRepeat: 'no-repeat',
+    maskRepeat: 'no-repeat',
+  };
+}
+
+function getExponentMaskStyle(n: number): Record<string, string> {
+  return getMaskStyle(getSuperellipsePath(MASK_BOX, MASK_BOX, n, { steps: MASK_STEPS }), MASK_BOX, MASK_BOX);
+}
+
+/**
+ * Class-safe slugs for preset names, numbered when two names collide
+ */
+export function getPresetSlugs(names: string[]): string[] {
+  const used = new Map<string, number>();
+  return names.map(name => {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'preset';
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return count > 1 ? `${base}-${count}` : base;
+  });
+}
+
+/**
+ * Mask and fill of a saved preset, drawn from its own outline
+ */
+function getPresetStyle(state: SuperellipseState): Record<string, string> {
+  const path = getStatePath(state, PRESET_PATH_OPTIONS);
+  const fill: Record<string, string> = state.colorMode === 'solid'
+    ? { backgroundColor: state.solidColor }
+    : { background: getGradientBackground(state) };
+  return { ...getMaskStyle(path, state.width, state.height), ...fill };
+}
+
+// ============================================================================
+// CLASSES
+// ============================================================================
+
+/**
+ * Every class the plugin registers for the current state and presets
+ * @param state - Current configuration, which sets the defaults
+ * @param presets - Saved presets, exported as named utilities
+ */
+export function getTailwindClasses(state: SuperellipseState, presets: TailwindPreset[] = []): TailwindClass[] {
+  const slugs = getPresetSlugs(presets.map(preset => preset.name));
+  const glow = getExportGlow(state).color;
+
+  return [
+    {
+      className: 'squircle',
+      description: `Current exponent (n = ${state.exp})`,
+      style: getExponentMaskStyle(state.exp),
+    },
+    ...Object.entries(SQUIRCLE_SIZES).map(([size, n]) => ({
+      className: `squircle-${size}`,
+      description: `n = ${n}`,
+      style: getExponentMaskStyle(n),
+    })),
+    {
+      className: 'squircle-[6]',
+      description: 'Any exponent',
+      style: getExponentMaskStyle(6),
+    },
+    {
+      className: 'bg-glow',
+      description: 'Glow color, also text-glow, border-glow…',
+      style: { backgroundColor: glow },
+    },
+    ...presets.flatMap((preset, index) => [
+      {
+        className: `squircle-preset-${slugs[index]}`,
+        description: `${preset.name}: outline and fill`,
+        style: getPresetStyle(preset.state),
+      },
+      {
+        className: `bg-glow-${slugs[index]}`,
+        description: `${preset.name}: glow color`,
+        style: { backgroundColor: getExportGlow(preset.state).color },
+      },
+    ]),
+  ];
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+const indentJson = (value: unknown, indent: string) => JSON.stringify(value, null, 2).replace(/\n/g, `\n${indent}`);
+
+/**
+ * Generate a Tailwind CSS plugin: `squircle`, `squircle-{sm,md,lg,xl}` and
+ * `squircle-[n]` mask utilities drawn at build time, glow colors under
+ * `theme.extend.colors.glow`, and one `squircle-preset-*` utility per preset
+ * @param state - Current configuration, which sets the defaults
+ * @param presets - Saved presets, exported as named utilities
+ * @returns Plugin module source
+ */
+export function generateTailwindPlugin(state: SuperellipseState, presets: TailwindPreset[] = []): string {
+  const slugs = getPresetSlugs(presets.map(preset => preset.name));
+
+  const sizes: Record<string, string> = { DEFAULT: String(state.exp) };
+  Object.entries(SQUIRCLE_SIZES).forEach(([size, n]) => { sizes[size] = String(n); });
+
+  const glowColors: Record<string, string> = { DEFAULT: getExportGlow(state).color };
+  const presetUtilities: Record<string, Record<string, string>> = {};
+  presets.forEach((preset, index) => {
+    glowColors[slugs[index]] = getExportGlow(preset.state).color;
+    presetUtilities[`.squircle-preset-${slugs[index]}`] = getPresetStyle(preset.state);
+  });
+
+  return `// Superellipse utilities for Tailwind CSS
+// plugins: [require('./superellipse.plugin.cjs')]
+const plugin = require('tailwindcss/plugin');
+
+const MASK_BOX = ${MASK_BOX};
+const MASK_STEPS = ${MASK_STEPS};
+
+${getEmbeddedPathFunction(2)}
+
+function maskStyle(path, w, h) {
+  const svg = \`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 \${w} \${h}" preserveAspectRatio="none"><path d="\${path}"/></svg>\`;
+  const image = \`url("data:image/svg+xml,\${encodeURIComponent(svg)}")\`;
+  return {
+    WebkitMaskImage: image,
+    maskImage: image,
+    WebkitMaskSize: '100% 100%',
+    maskSize: '100% 100%',
+    WebkitMaskRepeat: 'no-repeat',
+    maskRepeat: 'no-repeat',
+  };
+}
+
+// Saved presets: their own outline and fill
+const PRESET_UTILITIES = ${indentJson(presetUtilities, '')};
+
+module.exports = plugin(
+  ({ matchUtilities, addUtilities, theme }) => {
+    matchUtilities(
+      {
+        squircle: value => maskStyle(superellipsePath(MASK_BOX, MASK_BOX, Number(value), MASK_STEPS), MASK_BOX, MASK_BOX),
+      },
+      { values: theme('squircle'), type: 'number' }
+    );
+    addUtilities(PRESET_UTILITIES);
+  },
+  {
+    theme: {
+      // Exponents: larger sizes round the corners more
+      squircle: ${indentJson(sizes, '      ')},
+      extend: {
+        colors: {
+          glow: ${indentJson(glowColors, '          ')},
+        },
+      },
+    },
+  }
+);
+`;
+}
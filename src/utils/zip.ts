@@ -0,0 +1,141 @@
+// ============================================================================
+// ZIP ARCHIVES
+// ============================================================================
+
+/**
+ * File stored in a zip archive; names may contain `/` for folders
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20; // 2.0: folders and stored entries
+const UTF8_NAMES_FLAG = 0x0800;
+const MAX_ENTRIES = 0xffff; // No zip64 support
+const MAX_ARCHIVE_SIZE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 checksum (IEEE 802.3 polynomial), as used by zip and PNG
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields, in local time with 2 s resolution
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build an uncompressed (stored) zip archive. Images are already
+ * compressed, so deflating them again would only cost time.
+ * @param entries - Files to store, in order
+ * @param modified - Modification time written for every entry
+ * @returns Archive bytes
+ * @throws Error when names repeat or the archive would need zip64
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`Zip archives are limited to ${MAX_ENTRIES} files`);
+  }
+  const names = new Set<string>();
+  for (const { name } of entries) {
+    if (names.has(name)) throw new Error(`Duplicate file name in zip: ${name}`);
+    names.add(name);
+  }
+
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const records = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = records.reduce((sum, r) => sum + 30 + r.name.length + r.data.length, 0);
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.name.length, 0);
+  const totalSize = localSize + centralSize + 22;
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error('Zip archive would exceed 4 GB');
+  }
+
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const u16 = (value: number) => { view.setUint16(offset, value, true); offset += 2; };
+  const u32 = (value: number) => { view.setUint32(offset, value, true); offset += 4; };
+  const raw = (value: Uint8Array) => { bytes.set(value, offset); offset += value.length; };
+
+  // Shared by local and central headers, from "version needed" to the extra field length
+  const fileHeader = (r: (typeof records)[number]) => {
+    u16(ZIP_VERSION);
+    u16(UTF8_NAMES_FLAG);
+    u16(0); // Stored
+    u16(time);
+    u16(date);
+    u32(r.crc);
+    u32(r.data.length);
+    u32(r.data.length);
+    u16(r.name.length);
+    u16(0);
+  };
+
+  const localOffsets: number[] = [];
+  for (const r of records) {
+    localOffsets.push(offset);
+    u32(LOCAL_HEADER_SIGNATURE);
+    fileHeader(r);
+    raw(r.name);
+    raw(r.data);
+  }
+
+  const centralOffset = offset;
+  records.forEach((r, i) => {
+    u32(CENTRAL_HEADER_SIGNATURE);
+    u16(ZIP_VERSION); // Made by
+    fileHeader(r);
+    u16(0); // Comment length
+    u16(0); // Disk number
+    u16(0); // Internal attributes
+    u32(0); // External attributes
+    u32(localOffsets[i]);
+    raw(r.name);
+  });
+
+  u32(END_OF_CENTRAL_DIRECTORY_SIGNATURE);
+  u16(0);
+  u16(0);
+  u16(records.length);
+  u16(records.length);
+  u32(centralSize);
+  u32(centralOffset);
+  u16(0);
+
+  return bytes;
+}